@@ -9,7 +9,6 @@ import {
   ChevronRight, 
   ChevronDown, 
   Plus, 
-  Save,
   Rocket,
   Wand2,
   Trash2,
@@ -17,59 +16,457 @@ import {
   Server,
   ExternalLink,
   ShieldAlert,
-  Code
+  Code,
+  Eye,
+  Undo2,
+  Redo2,
+  Pin,
+  Paperclip,
+  MessageSquarePlus,
+  CheckCircle2,
+  Square,
+  AlertTriangle,
+  SlidersHorizontal,
+  Save,
+  EyeOff,
+  History,
+  FlaskConical,
+  Search,
+  Files,
+  ShieldCheck,
+  GitBranch,
+  Globe,
+  BookOpen,
+  Coins,
+  FilePlus2,
+  ListChecks
 } from 'lucide-react';
-import { fsService } from './services/fileSystemService';
-import { geminiService } from './services/geminiService';
-import { FileNode, ChatMessage, FileChange } from './types';
+import { fsService, StaleWriteError } from './services/fileSystemService';
+import { aiService, providers } from './services/aiService';
+import { contextBuilder, DEFAULT_TOKEN_BUDGET } from './services/contextBuilder';
+import { writePolicy, PolicyViolationError } from './services/writePolicy';
+import { bridgeClient } from './services/bridgeClient';
+import { gitService } from './services/gitService';
+import { sessionStore } from './services/sessionStore';
+import { loadProjectInstructions, EMPTY_PREFERENCES, RULES_PATH, RULES_TEMPLATE } from './services/projectRules';
+import { promptTemplates } from './services/promptTemplates';
+import { usageTracker, addUsage, formatCost, formatTokens, EMPTY_USAGE } from './services/usageTracker';
+import { ChangeReviewModal } from './components/ChangeReviewModal';
+import { ModelSettingsPanel } from './components/ModelSettingsPanel';
+import { CodeEditor } from './components/CodeEditor';
+import { IgnoreRulesPanel } from './components/IgnoreRulesPanel';
+import { WritePolicyPanel } from './components/WritePolicyPanel';
+import { BridgeSettingsPanel, HEALTH_LABELS } from './components/BridgeSettingsPanel';
+import { GitHistoryPanel } from './components/GitHistoryPanel';
+import { ConversationsPanel } from './components/ConversationsPanel';
+import { RecentWorkspaces } from './components/RecentWorkspaces';
+import { QuickOpen } from './components/QuickOpen';
+import { SearchPanel } from './components/SearchPanel';
+import { TerminalPanel } from './components/TerminalPanel';
+import { VerifySettingsPanel } from './components/VerifySettingsPanel';
+import { ProjectSettingsPanel } from './components/ProjectSettingsPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { AgentSteps } from './components/AgentSteps';
+import { AttachmentList } from './components/AttachmentList';
+import { PlanCard } from './components/PlanCard';
+import { InlineEditWidget, InlineEditState } from './components/InlineEditWidget';
+import { useChangeHistory } from './hooks/useChangeHistory';
+import { usePlanRunner } from './hooks/usePlanRunner';
+import { useAutoVerify } from './hooks/useAutoVerify';
+import { useBridgeStatus } from './hooks/useBridgeStatus';
+import { usePreview } from './hooks/usePreview';
+import { PreviewPane } from './components/PreviewPane';
+import { updateNode, collectOpenPaths } from './utils/fileTree';
+import { parseConversation } from './utils/conversationExport';
+import { isCommandAllowed, appendOutput } from './utils/commands';
+import { readAttachment, createAttachment, attachmentTokens, MAX_ATTACHMENTS } from './utils/attachments';
+import { createPlan } from './utils/plan';
+import { applyReplacement } from './utils/inlineEdit';
+import { loadJson, saveJson } from './utils/storage';
+import {
+  FileNode, ChatMessage, FileChange, AppliedChangeSet, AIResponse, ModelSettings, EditorTab, WorkspaceSession, SavedConversation,
+  CommandRun, WritePolicy, BridgeSettings, GitStatus, GitSettings, GitCommit, GitFileStatus,
+  ProjectPreferences, PromptTemplate, UsageSettings, DailyUsage, MessageUsage, Attachment
+} from './types';
+
+const COMMAND_HISTORY_KEY = 'forgeai.commandHistory';
+// Set when a file is dragged from the tree, so dropping it on the chat attaches it
+const WORKSPACE_PATH_DRAG_TYPE = 'application/x-forgeai-path';
+const MAX_COMMAND_HISTORY = 50;
+
+const PREVIEWABLE_FILE = /\.(html?|css|m?js|svg)$/i;
 
 export default function App() {
   const [connectionMode, setConnectionMode] = useState<'none' | 'server' | 'browser'>('none');
   const [mountedName, setMountedName] = useState<string>('');
   const [fileTree, setFileTree] = useState<FileNode[]>([]);
-  const [activeFile, setActiveFile] = useState<{ path: string; content: string; handle?: any } | null>(null);
+  const [openTabs, setOpenTabs] = useState<EditorTab[]>([]);
+  const [activePath, setActivePath] = useState<string | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
+  // Sent with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [showAttachPicker, setShowAttachPicker] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Plan mode: the next message asks for a plan instead of changes
+  const [planMode, setPlanMode] = useState(false);
+  const [inlineEdit, setInlineEdit] = useState<InlineEditState | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [logs, setLogs] = useState<string[]>(['ForgeAI Initialized. Checking local bridge...']);
-  const [isApplyingChanges, setIsApplyingChanges] = useState(false);
   const [showSecurityWarning, setShowSecurityWarning] = useState(false);
+  const [reviewTarget, setReviewTarget] = useState<{
+    changes: FileChange[];
+    index: number;
+    label: string;
+    messageTimestamp: number;
+    baseHashes: Record<string, string>;
+  } | null>(null);
+  const [reviewReloadToken, setReviewReloadToken] = useState(0);
+  const [pinnedPaths, setPinnedPaths] = useState<string[]>([]);
+  const [tokenBudget, setTokenBudget] = useState(DEFAULT_TOKEN_BUDGET);
+
+  const [streamingResponse, setStreamingResponse] = useState<AIResponse | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => aiService.getSettings());
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [showIgnoreRules, setShowIgnoreRules] = useState(false);
+  const [policy, setPolicy] = useState<WritePolicy>(() => writePolicy.getPolicy());
+  const [showWritePolicy, setShowWritePolicy] = useState(false);
+  const [showBridgeSettings, setShowBridgeSettings] = useState(false);
+
+  // Saved sessions: the open workspace, its conversations and other recently opened workspaces
+  const [workspace, setWorkspace] = useState<WorkspaceSession | null>(null);
+  const [recentWorkspaces, setRecentWorkspaces] = useState<WorkspaceSession[]>([]);
+  const [conversations, setConversations] = useState<SavedConversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [showConversations, setShowConversations] = useState(false);
+  const sessionSaveFailedRef = useRef(false);
+
+  const [sidebarView, setSidebarView] = useState<'explorer' | 'search' | 'history'>('explorer');
+  const [gitStatus, setGitStatus] = useState<GitStatus | null>(null);
+  const [gitSettings, setGitSettings] = useState<GitSettings>(() => gitService.getSettings());
+  const [gitLogToken, setGitLogToken] = useState(0);
+  const [showQuickOpen, setShowQuickOpen] = useState(false);
+  const [bottomPanel, setBottomPanel] = useState<'log' | 'terminal'>('log');
+  const [commandRuns, setCommandRuns] = useState<CommandRun[]>([]);
+  const [commandHistory, setCommandHistory] = useState<string[]>(() => loadJson(COMMAND_HISTORY_KEY, []));
+  const killedRunsRef = useRef<Set<string>>(new Set());
+  const [showVerifySettings, setShowVerifySettings] = useState(false);
+  const [showProjectSettings, setShowProjectSettings] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptTemplates.list());
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => usageTracker.getSettings());
+  const [usageToday, setUsageToday] = useState<DailyUsage>(() => usageTracker.getToday());
+  const [showUsage, setShowUsage] = useState(false);
+
+  const {
+    editorView, setEditorView, previewEntry, setPreviewEntry, previewOverlay, previewToken,
+    reloadPreview, clearOverlay, resetPreview, openPreview, previewChanges: showPreview
+  } = usePreview();
+
+  const [revealTarget, setRevealTarget] = useState<{ path: string; line: number; column: number; length: number; nonce: number } | null>(null);
+
+  const activeTab = openTabs.find(t => t.path === activePath) ?? null;
+  const activeFile = activeTab ? { path: activeTab.path, content: activeTab.content } : null;
+  const preferences = workspace?.preferences ?? EMPTY_PREFERENCES;
+  const sessionCost = chatHistory.reduce((sum, m) => sum + (m.usage ? messageCost(m.usage) ?? 0 : 0), 0);
+  const sessionUsage = chatHistory.reduce((sum, m) => (m.usage ? addUsage(sum, m.usage) : sum), EMPTY_USAGE);
+  // Slash commands matching what's typed, while only the command itself has been typed
+  const suggestions = inputValue.startsWith('/') ? promptTemplates.suggest(inputValue) : [];
+
+  // Read through a ref by flows that continue after awaits, such as the verify loop.
+  const chatHistoryRef = useRef<ChatMessage[]>([]);
+  chatHistoryRef.current = chatHistory;
 
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const attachInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const inlineEditAbortRef = useRef<AbortController | null>(null);
 
   const addLog = useCallback((msg: string) => {
     setLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${msg}`].slice(-50));
   }, []);
 
+  const changeHistory = useChangeHistory({
+    addLog,
+    onReverted: async paths => {
+      await refreshFileTree();
+      await refreshOpenTabs(paths);
+    }
+  });
+
+  // Read through a ref so refreshes triggered from stale closures keep the current expansion.
+  const fileTreeRef = useRef<FileNode[]>([]);
+  fileTreeRef.current = fileTree;
+
+  // Git markers in the explorer; only the bridge can run git.
+  const refreshGitStatus = useCallback(async () => {
+    if (fsService.getMode() !== 'server') {
+      setGitStatus(null);
+      return;
+    }
+    try {
+      setGitStatus(await gitService.status());
+    } catch (err) {
+      setGitStatus(null);
+    }
+  }, []);
+
   const refreshFileTree = useCallback(async () => {
-    if (connectionMode !== 'none') {
-      const tree = await fsService.scanDirectory();
+    if (fsService.getMode() !== 'none') {
+      const tree = await fsService.reloadTree(collectOpenPaths(fileTreeRef.current));
       setFileTree(tree);
+      reloadPreview();
       addLog("File tree refreshed.");
+      await refreshGitStatus();
+    }
+  }, [addLog, refreshGitStatus]);
+
+  const toggleDirectory = async (node: FileNode) => {
+    const path = node.path!;
+    if (node.isOpen) {
+      setFileTree(prev => updateNode(prev, path, n => ({ ...n, isOpen: false })));
+      return;
+    }
+    try {
+      const children = node.children ?? await fsService.scanDirectory(path, node.handle);
+      setFileTree(prev => updateNode(prev, path, n => ({ ...n, isOpen: true, children })));
+    } catch (err: any) {
+      addLog(`Could not open ${path}: ${err.message}`);
     }
-  }, [connectionMode, addLog]);
+  };
+
+  const saveIgnorePatterns = async (patterns: string[]) => {
+    await fsService.setIgnorePatterns(patterns);
+    setShowIgnoreRules(false);
+    await refreshFileTree();
+  };
+
+  const saveBridgeSettings = async (settings: BridgeSettings) => {
+    bridgeClient.updateSettings(settings);
+    setShowBridgeSettings(false);
+    const status = await bridgeClient.checkHealth();
+    if (status.health === 'connected' && connectionMode === 'server') await refreshFileTree();
+    else if (status.health !== 'connected') addLog(`Bridge Error: ${status.message}`);
+  };
+
+  const saveWritePolicy = (next: WritePolicy) => {
+    setPolicy(writePolicy.updatePolicy(next));
+    setShowWritePolicy(false);
+    addLog("Write policy updated.");
+  };
+
+  // Switches to a workspace fsService has already mounted, restoring its tabs, log and last conversation.
+  const enterWorkspace = async (session: WorkspaceSession) => {
+    const opened = { ...session, lastOpened: Date.now() };
+    const [saved, restoredTabs] = await Promise.all([
+      sessionStore.listConversations(opened.id).catch(() => [] as SavedConversation[]),
+      Promise.all(opened.openPaths.map(async path => {
+        const content = await fsService.tryReadFile(path);
+        return content === null ? null : { path, content, savedContent: content };
+      }))
+    ]);
+    const tabs = restoredTabs.filter((t): t is EditorTab => t !== null);
+    const conversation = saved.find(c => c.id === opened.activeConversationId) ?? saved[0];
+
+    setWorkspace(opened);
+    setConnectionMode(opened.mode);
+    setMountedName(opened.name);
+    setOpenTabs(tabs);
+    setActivePath(tabs.some(t => t.path === opened.activePath) ? opened.activePath : tabs[0]?.path ?? null);
+    setConversations(saved);
+    setConversationId(conversation?.id ?? null);
+    setChatHistory(conversation?.messages ?? []);
+    changeHistory.clear();
+    setPinnedPaths([]);
+    setReviewTarget(null);
+    resetPreview();
+    inlineEditAbortRef.current?.abort();
+    setInlineEdit(null);
+    setRecentWorkspaces(prev => [opened, ...prev.filter(w => w.id !== opened.id)]);
+    setLogs(prev => (opened.logs.length > 0 ? opened.logs : prev));
+    addLog(`Mounted: ${opened.name} via ${opened.mode}`);
+
+    try {
+      setFileTree(await fsService.reloadTree(new Set()));
+    } catch (err: any) {
+      setFileTree([]);
+      addLog(`Error: ${err.message}`);
+    }
+    await refreshGitStatus();
+  };
+
+  const connectBridge = async (): Promise<boolean> => {
+    if (!(await fsService.checkConnection())) return false;
+    addLog("Connected to Python Local Bridge.");
+    await enterWorkspace((await sessionStore.getWorkspace('server').catch(() => undefined)) ?? newWorkspace('server', 'Local Machine', 'server'));
+    return true;
+  };
+
+  const hasUnsavedTabs = () => openTabs.some(t => t.content !== t.savedContent);
 
   useEffect(() => {
     const initConnection = async () => {
-      const isConnected = await fsService.checkConnection();
-      if (isConnected) {
-        setConnectionMode('server');
-        setMountedName('Local Machine');
-        addLog("Connected to Python Local Bridge.");
-        refreshFileTree();
+      const recent = await sessionStore.listWorkspaces().catch(() => [] as WorkspaceSession[]);
+      setRecentWorkspaces(recent);
+
+      if (await connectBridge()) return;
+      // Some browsers keep the grant between visits; otherwise the user reopens from the recent list.
+      const last = recent.find(w => w.mode === 'browser' && w.handle);
+      if (last && await fsService.mountHandle(last.handle, false).catch(() => false)) {
+        await enterWorkspace(last);
       }
     };
     initConnection();
   }, []);
 
+  useEffect(() => usageTracker.onChange(setUsageToday), []);
+
+  const { bridgeHealth } = useBridgeStatus({
+    onHealthChange: (health, previous) => {
+      if (health === 'connected') {
+        // Pick the bridge up when it starts after the app, unless a browser folder is open.
+        // The first check at startup is handled by initConnection.
+        if (previous === 'unknown') return;
+        if (connectionMode === 'none') {
+          connectBridge();
+        } else if (connectionMode === 'server') {
+          addLog("Reconnected to the local bridge.");
+          refreshFileTree();
+        }
+      } else if (health !== 'unknown' && (connectionMode === 'server' || health !== 'offline')) {
+        addLog(`Local bridge: ${HEALTH_LABELS[health]}.${health === 'offline' ? ' Retrying in the background.' : ''}`);
+      }
+    }
+  });
+
+  // Keep the open workspace's session record current.
+  useEffect(() => {
+    if (!workspace) return;
+    sessionStore.saveWorkspace({
+      ...workspace,
+      openPaths: openTabs.map(t => t.path),
+      activePath,
+      logs,
+      activeConversationId: conversationId ?? undefined
+    }).then(
+      () => { sessionSaveFailedRef.current = false; },
+      // The log is saved with the session, so report a failure once rather than on every retry
+      err => {
+        if (!sessionSaveFailedRef.current) addLog(`Session Error: ${err.message}`);
+        sessionSaveFailedRef.current = true;
+      }
+    );
+  }, [workspace, openTabs.map(t => t.path).join('\n'), activePath, logs, conversationId]);
+
+  // Save the current conversation whenever it changes; the first message creates it.
+  useEffect(() => {
+    if (!workspace || chatHistory.length === 0) return;
+    const id = conversationId ?? crypto.randomUUID();
+    const existing = conversations.find(c => c.id === id);
+    const conversation: SavedConversation = {
+      id,
+      workspaceId: workspace.id,
+      title: existing?.title ?? conversationTitle(chatHistory),
+      messages: chatHistory,
+      createdAt: existing?.createdAt ?? chatHistory[0].timestamp,
+      updatedAt: chatHistory[chatHistory.length - 1].timestamp
+    };
+    if (!conversationId) setConversationId(id);
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== id)].sort((a, b) => b.updatedAt - a.updatedAt));
+    sessionStore.saveConversation(conversation).catch(err => addLog(`Session Error: ${err.message}`));
+  }, [chatHistory]);
+
+  const reopenWorkspace = async (session: WorkspaceSession) => {
+    if (hasUnsavedTabs() && !window.confirm('Discard unsaved changes in open tabs?')) return;
+    try {
+      const mounted = session.mode === 'server'
+        ? await fsService.checkConnection()
+        : await fsService.mountHandle(session.handle, true);
+      if (!mounted) {
+        addLog(session.mode === 'server' ? "Local bridge is not running." : `Access to ${session.name} was not granted.`);
+        return;
+      }
+      await enterWorkspace(session);
+    } catch (err: any) {
+      addLog(`Error: ${err.message}`);
+    }
+  };
+
+  const forgetWorkspace = async (id: string) => {
+    try {
+      await sessionStore.deleteWorkspace(id);
+      setRecentWorkspaces(prev => prev.filter(w => w.id !== id));
+    } catch (err: any) {
+      addLog(`Session Error: ${err.message}`);
+    }
+  };
+
+  const openConversation = (id: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation || isAiLoading) return;
+    setConversationId(conversation.id);
+    setChatHistory(conversation.messages);
+    setShowConversations(false);
+  };
+
+  const renameConversation = (id: string, title: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return;
+    const renamed = { ...conversation, title };
+    setConversations(prev => prev.map(c => (c.id === id ? renamed : c)));
+    sessionStore.saveConversation(renamed).catch(err => addLog(`Session Error: ${err.message}`));
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await sessionStore.deleteConversation(id);
+      setConversations(prev => prev.filter(c => c.id !== id));
+      if (id === conversationId) {
+        setConversationId(null);
+        setChatHistory([]);
+      }
+    } catch (err: any) {
+      addLog(`Session Error: ${err.message}`);
+    }
+  };
+
+  const importConversation = async (file: File) => {
+    if (!workspace) return;
+    try {
+      const { title, messages } = parseConversation(await file.text(), file.name);
+      const conversation: SavedConversation = {
+        id: crypto.randomUUID(),
+        workspaceId: workspace.id,
+        title,
+        messages,
+        createdAt: messages[0]?.timestamp ?? Date.now(),
+        updatedAt: messages[messages.length - 1]?.timestamp ?? Date.now()
+      };
+      await sessionStore.saveConversation(conversation);
+      setConversations(prev => [conversation, ...prev]);
+      setConversationId(conversation.id);
+      setChatHistory(messages);
+      setShowConversations(false);
+      addLog(`Imported conversation: ${title}`);
+    } catch (err: any) {
+      addLog(`Import Error: ${err.message}`);
+    }
+  };
+
   const handleMount = async () => {
+    if (hasUnsavedTabs() && !window.confirm('Discard unsaved changes in open tabs?')) return;
     try {
       const result = await fsService.requestDirectory();
-      setConnectionMode(result.mode);
-      setMountedName(result.name);
-      addLog(`Mounted: ${result.name} via ${result.mode}`);
-      refreshFileTree();
       setShowSecurityWarning(false);
+      if (result.mode === 'server') {
+        await enterWorkspace((await sessionStore.getWorkspace('server').catch(() => undefined)) ?? newWorkspace('server', result.name, 'server'));
+      } else {
+        const handle = fsService.getRootHandle();
+        const known = await sessionStore.findWorkspaceByHandle(handle).catch(() => undefined);
+        await enterWorkspace(known
+          ? { ...known, handle }
+          : { ...newWorkspace(crypto.randomUUID(), result.name, 'browser'), handle });
+      }
     } catch (err: any) {
       if (err.message === 'SANDBOX_RESTRICTION') {
         setShowSecurityWarning(true);
@@ -80,52 +477,509 @@ export default function App() {
     }
   };
 
+  const openFile = async (filePath: string, handle?: any): Promise<boolean> => {
+    if (!openTabs.some(t => t.path === filePath)) {
+      const content = handle ? await fsService.readFile(filePath, handle) : await fsService.tryReadFile(filePath);
+      if (content === null) {
+        addLog(`Could not open ${filePath}`);
+        return false;
+      }
+      setOpenTabs(prev => prev.some(t => t.path === filePath) ? prev : [...prev, { path: filePath, content, savedContent: content }]);
+      addLog(`Opened: ${filePath.split('/').pop()}`);
+    }
+    setActivePath(filePath);
+    setEditorView('code');
+    return true;
+  };
+
   const handleFileClick = async (node: FileNode, path: string) => {
     if (node.kind === 'file') {
-      const content = await fsService.readFile(node.path || node.name, node.handle);
-      setActiveFile({ path: node.path || node.name, content, handle: node.handle });
-      addLog(`Opened: ${node.name}`);
+      await openFile(node.path || path, node.handle);
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || connectionMode === 'none' || isAiLoading) return;
+  const openFileAt = async (path: string, line: number, column: number, length: number) => {
+    if (await openFile(path)) {
+      setRevealTarget(prev => ({ path, line, column, length, nonce: (prev?.nonce ?? 0) + 1 }));
+    }
+  };
 
-    const userMessage = inputValue;
-    setChatHistory(prev => [...prev, { role: 'user', content: userMessage, timestamp: Date.now() }]);
-    setInputValue('');
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || fsService.getMode() === 'none') return;
+      if (e.key.toLowerCase() === 'p' && !e.shiftKey) {
+        e.preventDefault();
+        setShowQuickOpen(true);
+      } else if (e.key.toLowerCase() === 'f' && e.shiftKey) {
+        e.preventDefault();
+        setSidebarView('search');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const updateTabContent = (path: string, content: string) => {
+    setOpenTabs(prev => prev.map(t => t.path === path ? { ...t, content } : t));
+  };
+
+  const openInlineEdit = (start: number, end: number) => {
+    if (!activeTab || inlineEdit?.status === 'loading') return;
+    setInlineEdit({
+      path: activeTab.path,
+      start,
+      end,
+      original: activeTab.content.slice(start, end),
+      instruction: inlineEdit?.path === activeTab.path ? inlineEdit.instruction : '',
+      status: 'prompt'
+    });
+  };
+
+  // Asks for a replacement of the selection; the editor stays read-only until it is accepted or rejected.
+  const submitInlineEdit = async () => {
+    const edit = inlineEdit;
+    const tab = openTabs.find(t => t.path === edit?.path);
+    if (!edit || !tab) return;
+    setInlineEdit({ ...edit, status: 'loading', error: undefined });
+
+    const controller = new AbortController();
+    inlineEditAbortRef.current = controller;
+    try {
+      const instructions = await loadProjectInstructions(workspace?.preferences);
+      const result = await aiService.editSelection(edit.path, tab.content, edit.start, edit.end, edit.instruction, {
+        signal: controller.signal,
+        onRetry: ({ attempt, delayMs, error }) => {
+          addLog(`${error.message.split('\n')[0].slice(0, 160)}. Retry ${attempt} of 3 in ${Math.ceil(delayMs / 1000)}s.`);
+        }
+      }, instructions);
+      if (result.usage) {
+        const { promptTokens, outputTokens, thinkingTokens } = result.usage;
+        addLog(`Inline edit: ${formatTokens(promptTokens + outputTokens + thinkingTokens)} tokens · ${formatCost(messageCost(result.usage))}`);
+      }
+      setInlineEdit(prev => prev && { ...prev, status: 'review', replacement: result.replacement });
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        addLog("Inline edit cancelled.");
+        setInlineEdit(null);
+      } else {
+        setInlineEdit(prev => prev && { ...prev, status: 'prompt', error: err.message });
+      }
+    } finally {
+      inlineEditAbortRef.current = null;
+    }
+  };
+
+  const acceptInlineEdit = () => {
+    const edit = inlineEdit;
+    const tab = openTabs.find(t => t.path === edit?.path);
+    if (!edit || edit.replacement === undefined || !tab) return;
+    const content = applyReplacement(tab.content, edit.start, edit.end, edit.original, edit.replacement);
+    if (content === null) {
+      setInlineEdit({ ...edit, error: 'The selected text changed; select it again and retry.' });
+      return;
+    }
+    updateTabContent(edit.path, content);
+    setInlineEdit(null);
+    const before = tab.content.slice(0, edit.start).split('\n');
+    setRevealTarget(prev => ({
+      path: edit.path,
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+      length: edit.replacement!.length,
+      nonce: (prev?.nonce ?? 0) + 1
+    }));
+    addLog(`Inline edit applied to ${edit.path.split('/').pop()}. Save to write it to disk.`);
+  };
+
+  const closeInlineEdit = () => {
+    inlineEditAbortRef.current?.abort();
+    setInlineEdit(null);
+  };
+
+  const saveTab = async (path: string) => {
+    const tab = openTabs.find(t => t.path === path);
+    if (!tab || tab.content === tab.savedContent) return;
+    try {
+      await fsService.writeFile(path, tab.content);
+      setOpenTabs(prev => prev.map(t => t.path === path ? { ...t, savedContent: tab.content } : t));
+      addLog(`Saved: ${path}`);
+      reloadPreview();
+      refreshGitStatus();
+    } catch (err: any) {
+      addLog(`Save Error: ${err.message}`);
+    }
+  };
+
+  const closeTab = (path: string) => {
+    const tab = openTabs.find(t => t.path === path);
+    if (tab && tab.content !== tab.savedContent && !window.confirm(`Discard unsaved changes to ${path}?`)) return;
+    const index = openTabs.findIndex(t => t.path === path);
+    const remaining = openTabs.filter(t => t.path !== path);
+    setOpenTabs(remaining);
+    if (activePath === path) {
+      setActivePath(remaining[Math.min(index, remaining.length - 1)]?.path ?? null);
+    }
+  };
+
+  // Reloads open tabs after files change on disk. Tabs with unsaved edits keep them.
+  const refreshOpenTabs = async (paths: string[]) => {
+    const touched = openTabs.filter(t => paths.includes(t.path));
+    if (touched.length === 0) return;
+    const fresh = await Promise.all(touched.map(t => fsService.tryReadFile(t.path)));
+    const updates = new Map(touched.map((t, i) => [t.path, fresh[i]]));
+    touched
+      .filter(t => t.content !== t.savedContent)
+      .forEach(t => addLog(`${t.path} changed on disk but has unsaved edits; keeping your version.`));
+
+    setOpenTabs(prev => prev.flatMap(tab => {
+      if (!updates.has(tab.path)) return [tab];
+      const content = updates.get(tab.path)!;
+      const isDirty = tab.content !== tab.savedContent;
+      if (content === null) return isDirty ? [tab] : [];
+      return [isDirty ? { ...tab, savedContent: content } : { ...tab, content, savedContent: content }];
+    }));
+  };
+
+  const togglePin = (path: string) => {
+    setPinnedPaths(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
+  };
+
+  /**
+   * Adds a user message to the chat and streams the assistant's reply. The prompt sent to
+   * the model can carry more than the message shows, e.g. a failing check's full output.
+   * Resolves with the reply, or null when nothing came back (refused, cancelled or failed).
+   */
+  const askAssistant = async (
+    userMessage: ChatMessage,
+    prompt: string,
+    options: { requiredPaths?: string[]; verifyIteration?: number; plan?: boolean; planStep?: ChatMessage['planStep'] } = {}
+  ): Promise<ChatMessage | null> => {
+    try {
+      usageTracker.checkBudget();
+    } catch (err: any) {
+      addLog(err.message);
+      return null;
+    }
+    const history = chatHistoryRef.current;
+    const { timestamp } = userMessage;
+    setChatHistory(prev => [...prev, userMessage]);
     setIsAiLoading(true);
-    addLog("Architect is generating solution...");
+    addLog("Building workspace context...");
 
     try {
-      const context = `Mode: ${connectionMode}\nFiles:\n${JSON.stringify(fileTree.map(f => f.name))}`;
-      const aiResponse = await geminiService.generateCode(userMessage, context);
+      const context = await contextBuilder.build(prompt, {
+        tokenBudget,
+        mode: fsService.getMode(),
+        activeFile,
+        pinnedPaths: Array.from(new Set([...pinnedPaths, ...(options.requiredPaths ?? [])]))
+      });
+      setChatHistory(prev => prev.map(m => m.timestamp === timestamp && m.role === 'user' ? { ...m, contextFiles: context.files } : m));
+      const { contextWarningTokens } = usageSettings;
+      const requestTokens = context.totalTokens + attachmentTokens(userMessage.attachments);
+      if (contextWarningTokens > 0 && requestTokens > contextWarningTokens) {
+        const cost = usageTracker.costOf({ ...EMPTY_USAGE, promptTokens: requestTokens }, modelSettings.provider, modelSettings.model);
+        if (!window.confirm(`This request sends ~${formatTokens(requestTokens)} tokens of context (${formatCost(cost)} before output). Send it?`)) {
+          setChatHistory(prev => prev.filter(m => m.timestamp !== timestamp));
+          addLog("Request not sent: context above the warning threshold.");
+          return null;
+        }
+      }
+      addLog(`Context: ${context.files.length} files, ~${context.totalTokens} tokens. Architect is generating solution...`);
+
+      const instructions = await loadProjectInstructions(workspace?.preferences);
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const generate = options.plan ? aiService.generatePlan.bind(aiService) : aiService.generateCode.bind(aiService);
+      const aiResponse: AIResponse = await generate(prompt, context.text, history, {
+        signal: controller.signal,
+        onPartial: setStreamingResponse,
+        onRetry: ({ attempt, delayMs, error }) => {
+          addLog(`${error.message.split('\n')[0].slice(0, 160)}. Retry ${attempt} of 3 in ${Math.ceil(delayMs / 1000)}s.`);
+        }
+      }, instructions, userMessage.attachments);
+      if (aiResponse.incomplete) addLog("Response was cut off; keeping the parts that arrived.");
+      if (aiResponse.diagnostics) addLog(`Repaired the AI response: ${aiResponse.diagnostics.length} problem(s).`);
       
-      setChatHistory(prev => [...prev, { 
+      const reply: ChatMessage = { 
         role: 'assistant', 
-        content: aiResponse.message, 
+        content: aiResponse.message || '(no message received)', 
         timestamp: Date.now(),
-        changes: aiResponse.changes
-      }]);
+        thinking: aiResponse.thinking,
+        changes: aiResponse.changes,
+        steps: aiResponse.steps,
+        incomplete: aiResponse.incomplete,
+        diagnostics: aiResponse.diagnostics,
+        usage: aiResponse.usage,
+        verifyIteration: options.verifyIteration,
+        ...(aiResponse.plan ? { plan: createPlan(prompt, aiResponse.plan) } : {}),
+        ...(options.planStep ? { planStep: options.planStep } : {})
+      };
+      setChatHistory(prev => [...prev, reply]);
+      return reply;
     } catch (err: any) {
-      addLog(`AI Error: ${err.message}`);
+      addLog(abortControllerRef.current?.signal.aborted ? "Request cancelled." : `AI Error: ${err.message}`);
+      return null;
     } finally {
+      abortControllerRef.current = null;
+      setStreamingResponse(null);
       setIsAiLoading(false);
     }
   };
 
-  const applyChanges = async (changes: FileChange[]) => {
-    setIsApplyingChanges(true);
+  const handleSendMessage = async () => {
+    if (!inputValue.trim() || connectionMode === 'none' || isAiLoading) return;
+    const userMessage = inputValue;
+    const attachments = pendingAttachments;
+    setInputValue('');
+    setPendingAttachments([]);
+    setPlanMode(false);
+    if (chatHistory.length === 0 && gitSettings.branchPerTask && gitStatus?.isRepo) {
+      await startTaskBranch(userMessage);
+    }
+    // The chat shows "/command ..." as typed; the model gets the expanded template
+    const prompt = promptTemplates.expand(userMessage, activePath) ?? userMessage;
+    await askAssistant({
+      role: 'user',
+      content: userMessage,
+      timestamp: Date.now(),
+      ...(attachments.length > 0 ? { attachments } : {})
+    }, prompt, { plan: planMode });
+  };
+
+  const { planInFlight, setPlan, runPlan, skipPlanStep, finishPlanStep } = usePlanRunner({
+    chatHistoryRef,
+    setChatHistory,
+    askAssistant,
+    addLog,
+    isAiLoading
+  });
+
+  // Files that can't be attached (too large, binary) are reported in the log and skipped.
+  const attachFiles = async (files: File[]) => {
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (files.length > room) addLog(`A message can have at most ${MAX_ATTACHMENTS} attachments; ${files.length - Math.max(0, room)} not added.`);
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const attachment = await readAttachment(file);
+        setPendingAttachments(prev => [...prev, attachment]);
+      } catch (err: any) {
+        addLog(`Attach failed: ${err.message}`);
+      }
+    }
+  };
+
+  // Snapshots the file as it is on disk now, so the saved conversation shows what was sent.
+  const attachWorkspaceFile = async (path: string) => {
+    setShowAttachPicker(false);
+    if (pendingAttachments.length >= MAX_ATTACHMENTS && !pendingAttachments.some(a => a.path === path)) {
+      addLog(`A message can have at most ${MAX_ATTACHMENTS} attachments.`);
+      return;
+    }
+    try {
+      const bytes = await fsService.tryReadBinary(path);
+      if (!bytes) throw new Error(`${path} no longer exists.`);
+      const attachment = createAttachment(path.split('/').pop() ?? path, bytes, '', path);
+      setPendingAttachments(prev => [...prev.filter(a => a.path !== path), attachment]);
+    } catch (err: any) {
+      addLog(`Attach failed: ${err.message}`);
+    }
+  };
+
+  const isAttachDrag = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes('Files') || e.dataTransfer.types.includes(WORKSPACE_PATH_DRAG_TYPE);
+
+  const handleChatDrop = (e: React.DragEvent) => {
+    if (!isAttachDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    const path = e.dataTransfer.getData(WORKSPACE_PATH_DRAG_TYPE);
+    if (path) attachWorkspaceFile(path);
+    else attachFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const completeSuggestion = (template: PromptTemplate) => {
+    setInputValue(`/${template.command} `);
+    setSelectedSuggestion(0);
+  };
+
+  const updatePreferences = (patch: Partial<ProjectPreferences>) => {
+    setWorkspace(prev => prev && { ...prev, preferences: { ...(prev.preferences ?? EMPTY_PREFERENCES), ...patch } });
+  };
+
+  const saveTemplates = (next: PromptTemplate[]) => {
+    setTemplates(promptTemplates.save(next));
+    addLog(`Saved ${next.length} slash commands.`);
+  };
+
+  // Opens the rules file, creating it from a starter template the first time.
+  const editRules = async () => {
+    try {
+      if ((await fsService.tryReadFile(RULES_PATH)) === null) {
+        await fsService.writeFile(RULES_PATH, RULES_TEMPLATE);
+        addLog(`Created ${RULES_PATH}`);
+        await refreshFileTree();
+      }
+      await openFile(RULES_PATH);
+    } catch (err: any) {
+      addLog(`Error: ${err.message}`);
+    }
+  };
+
+  // Each new conversation gets its own branch; uncommitted work comes along, as with git switch -c.
+  const startTaskBranch = async (prompt: string) => {
+    try {
+      const { branch, created } = await gitService.switchBranch(gitService.taskBranchName(prompt));
+      addLog(`${created ? 'Created branch' : 'Switched to branch'} ${branch}`);
+    } catch (err: any) {
+      addLog(`Git Error: ${err.message}`);
+    }
+    await refreshGitStatus();
+  };
+
+  const commitChangeSet = async (message: string, set: AppliedChangeSet) => {
+    try {
+      const sha = await gitService.commit(message, set.changes.map(c => c.path), set.id);
+      addLog(`Committed ${sha.slice(0, 7)}: ${message.split('\n')[0]}`);
+    } catch (err: any) {
+      addLog(`Git Error: ${err.message}`);
+    }
+    setGitLogToken(t => t + 1);
+    await refreshGitStatus();
+  };
+
+  const revertCommit = async (commit: GitCommit) => {
+    if (!window.confirm(`Revert "${commit.subject}"? This adds a commit that undoes it.`)) return;
+    try {
+      const sha = await gitService.revert(commit.sha);
+      addLog(`Reverted ${commit.sha.slice(0, 7)} in ${sha.slice(0, 7)}`);
+      await refreshFileTree();
+      await refreshOpenTabs(openTabs.map(t => t.path));
+    } catch (err: any) {
+      addLog(`Git Error: ${err.message}`);
+    }
+    setGitLogToken(t => t + 1);
+  };
+
+  const updateGitSettings = (patch: Partial<GitSettings>) => {
+    setGitSettings(gitService.updateSettings(patch));
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const openReview = (messageIndex: number, fileIndex: number) => {
+    const msg = chatHistory[messageIndex];
+    if (!msg.changes) return;
+    setReviewTarget({
+      changes: msg.changes,
+      index: fileIndex,
+      label: changeSetLabel(msg),
+      messageTimestamp: msg.timestamp,
+      baseHashes: contextHashes(chatHistory, messageIndex)
+    });
+  };
+
+  // Applied changes are already on disk, so they preview without an overlay.
+  const previewChanges = (msg: ChatMessage) => {
+    if (msg.changes) showPreview(msg.changes, msg.appliedAt ? null : changeSetLabel(msg));
+  };
+
+  const applyChanges = async (
+    changes: FileChange[],
+    label: string,
+    expectedHashes?: Record<string, string | null>
+  ): Promise<AppliedChangeSet | null> => {
+    changeHistory.setIsApplying(true);
     addLog(`Applying ${changes.length} changes...`);
     try {
-      await fsService.applyChanges(changes);
+      const applied = await fsService.applyChanges(changes, label, expectedHashes);
+      changeHistory.record(applied);
+      clearOverlay();
       await refreshFileTree();
+      await refreshOpenTabs(applied.before.map(s => s.path));
       addLog("Changes successfully written to disk.");
+      return applied;
     } catch (err: any) {
-      addLog(`Write Error: ${err.message}`);
+      if (err instanceof StaleWriteError) {
+        addLog(`${err.message}. Nothing was written; re-review the updated files.`);
+        setReviewReloadToken(t => t + 1);
+      } else if (err instanceof PolicyViolationError) {
+        addLog(`${err.message}. Nothing was written.`);
+      } else {
+        addLog(`Write Error: ${err.message}`);
+      }
+      return null;
     } finally {
-      setIsApplyingChanges(false);
+      changeHistory.setIsApplying(false);
+    }
+  };
+
+  // Runs a command through the bridge, streaming into the terminal panel. Resolves once it ends.
+  const runCommand = async (command: string): Promise<CommandRun> => {
+    let run: CommandRun = { command, startedAt: Date.now(), output: [], status: 'running' };
+    const update = (patch: Partial<CommandRun>) => {
+      const previous = run;
+      run = { ...run, ...patch };
+      setCommandRuns(prev => prev.map(r => (r === previous ? run : r)));
+    };
+
+    setBottomPanel('terminal');
+    setCommandRuns(prev => [...prev.slice(-49), run]);
+    setCommandHistory(prev => {
+      const next = [...prev.filter(c => c !== command), command].slice(-MAX_COMMAND_HISTORY);
+      saveJson(COMMAND_HISTORY_KEY, next);
+      return next;
+    });
+
+    if (!isCommandAllowed(command, fsService.getCommandAllowlist())) {
+      update({ status: 'failed', error: 'Not in the bridge allowlist. Start the bridge with --allow to permit it.' });
+      return run;
     }
+    try {
+      const code = await fsService.execCommand(command, event => {
+        if (event.type === 'start') update({ id: event.id });
+        else if (event.type === 'stdout' || event.type === 'stderr') update({ output: appendOutput(run.output, event.type, event.data) });
+      });
+      const killed = code < 0 || (!!run.id && killedRunsRef.current.has(run.id));
+      update({ status: killed ? 'killed' : 'exited', exitCode: code < 0 ? null : code });
+    } catch (err: any) {
+      update({ status: 'failed', error: err.message });
+    }
+    addLog(`$ ${command} → ${run.status === 'exited' ? `exit ${run.exitCode}` : run.status}`);
+    return run;
+  };
+
+  const { verifySettings, updateVerifySettings, verifyingCommand, verifyAfterCommit } = useAutoVerify({
+    runCommand,
+    askAssistant,
+    setChatHistory
+  });
+
+  const killCommand = async (run: CommandRun) => {
+    if (!run.id) return;
+    killedRunsRef.current.add(run.id);
+    try {
+      await fsService.killCommand(run.id);
+    } catch (err: any) {
+      addLog(`Kill Error: ${err.message}`);
+    }
+  };
+
+  const updateUsageSettings = (patch: Partial<UsageSettings>) => {
+    setUsageSettings(usageTracker.updateSettings(patch));
+  };
+
+  const updateModelSettings = (patch: Partial<ModelSettings>) => {
+    setModelSettings(aiService.updateSettings(patch));
+  };
+
+  const handleNewConversation = () => {
+    if (isAiLoading) return;
+    setConversationId(null);
+    setChatHistory([]);
+    addLog("Started a new conversation.");
   };
 
   return (
@@ -135,9 +989,25 @@ export default function App() {
         <div className="p-4 border-b border-slate-800 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Activity className="w-4 h-4 text-emerald-500" />
-            <h2 className="font-bold text-sm tracking-tight">EXPLORER</h2>
+            <h2 className="font-bold text-sm tracking-tight">{sidebarView.toUpperCase()}</h2>
           </div>
           <div className="flex gap-1">
+            <button
+              onClick={() => setSidebarView(sidebarView === 'explorer' ? 'search' : 'explorer')}
+              disabled={connectionMode === 'none'}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white disabled:opacity-20"
+              title={sidebarView === 'explorer' ? 'Search in files (Ctrl+Shift+F)' : 'Explorer'}
+            >
+              {sidebarView === 'explorer' ? <Search className="w-4 h-4" /> : <Files className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => setSidebarView(sidebarView === 'history' ? 'explorer' : 'history')}
+              disabled={connectionMode === 'none'}
+              className={`p-1.5 hover:bg-slate-800 rounded-md transition-colors hover:text-white disabled:opacity-20 ${sidebarView === 'history' ? 'text-emerald-500' : 'text-slate-400'}`}
+              title="Git history"
+            >
+              <GitBranch className="w-4 h-4" />
+            </button>
             <button 
               onClick={handleMount}
               className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white"
@@ -152,9 +1022,56 @@ export default function App() {
             >
               <Rocket className="w-4 h-4" />
             </button>
+            <button 
+              onClick={() => setShowIgnoreRules(!showIgnoreRules)}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white"
+              title="Ignore Rules"
+            >
+              <EyeOff className="w-4 h-4" />
+            </button>
+            <button 
+              onClick={() => setShowBridgeSettings(!showBridgeSettings)}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white"
+              title="Local Bridge"
+            >
+              <Server className="w-4 h-4" />
+            </button>
+            <button 
+              onClick={() => setShowWritePolicy(!showWritePolicy)}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white"
+              title="Write Policy"
+            >
+              <ShieldCheck className="w-4 h-4" />
+            </button>
           </div>
         </div>
 
+        {showIgnoreRules && (
+          <IgnoreRulesPanel
+            patterns={fsService.getIgnorePatterns()}
+            onSave={saveIgnorePatterns}
+            onClose={() => setShowIgnoreRules(false)}
+          />
+        )}
+
+        {showBridgeSettings && (
+          <BridgeSettingsPanel
+            settings={bridgeClient.getSettings()}
+            health={bridgeHealth}
+            onSave={saveBridgeSettings}
+            onClose={() => setShowBridgeSettings(false)}
+          />
+        )}
+
+        {showWritePolicy && (
+          <WritePolicyPanel
+            key={JSON.stringify(policy)}
+            policy={policy}
+            onSave={saveWritePolicy}
+            onClose={() => setShowWritePolicy(false)}
+          />
+        )}
+
         {/* Directory Info */}
         <div className="px-4 py-2 bg-slate-800/30 flex items-center justify-between">
           <div className="flex items-center gap-2 overflow-hidden">
@@ -165,11 +1082,31 @@ export default function App() {
           </div>
         </div>
 
-        <div className="flex-1 overflow-y-auto p-2 scrollbar-thin">
+        {/* Kept mounted while hidden so results survive switching back to the explorer */}
+        {connectionMode !== 'none' && (
+          <div className={sidebarView === 'search' ? 'flex-1 flex flex-col overflow-hidden' : 'hidden'}>
+            <SearchPanel key={workspace?.id} onOpenMatch={openFileAt} />
+          </div>
+        )}
+
+        {connectionMode !== 'none' && sidebarView === 'history' && (
+          <GitHistoryPanel
+            status={gitStatus}
+            settings={gitSettings}
+            refreshToken={gitLogToken}
+            onSettingsChange={updateGitSettings}
+            onRevert={revertCommit}
+          />
+        )}
+
+        <div className={`flex-1 overflow-y-auto p-2 scrollbar-thin ${sidebarView !== 'explorer' && connectionMode !== 'none' ? 'hidden' : ''}`}>
           {fileTree.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center text-center p-6 space-y-4">
               <FolderOpen className="w-10 h-10 text-slate-700" />
               <p className="text-xs text-slate-500">No workspace mounted. Use the folder icon above to start.</p>
+              {connectionMode === 'none' && (
+                <RecentWorkspaces workspaces={recentWorkspaces} onReopen={reopenWorkspace} onForget={forgetWorkspace} />
+              )}
             </div>
           ) : (
             <div className="space-y-0.5">
@@ -179,6 +1116,10 @@ export default function App() {
                   node={node} 
                   path={node.path || node.name} 
                   onFileClick={handleFileClick} 
+                  onToggleDirectory={toggleDirectory}
+                  pinnedPaths={pinnedPaths}
+                  onTogglePin={togglePin}
+                  gitFiles={gitStatus?.files ?? {}}
                 />
               ))}
             </div>
@@ -226,18 +1167,96 @@ export default function App() {
           </div>
         )}
 
+        {showAttachPicker && (
+          <QuickOpen
+            placeholder="Attach file to the message..."
+            onOpen={attachWorkspaceFile}
+            onClose={() => setShowAttachPicker(false)}
+          />
+        )}
+
+        {showQuickOpen && (
+          <QuickOpen
+            onOpen={(path) => {
+              setShowQuickOpen(false);
+              openFile(path);
+            }}
+            onClose={() => setShowQuickOpen(false)}
+          />
+        )}
+
+        {/* Per-file diff review before anything is written */}
+        {reviewTarget && (
+          <ChangeReviewModal
+            changes={reviewTarget.changes}
+            initialIndex={reviewTarget.index}
+            isApplying={changeHistory.isApplying}
+            baseHashes={reviewTarget.baseHashes}
+            reloadToken={reviewReloadToken}
+            onClose={() => setReviewTarget(null)}
+            onCommit={async (changes, expectedHashes) => {
+              const applied = await applyChanges(changes, reviewTarget.label, expectedHashes);
+              if (applied) {
+                const appliedAt = Date.now();
+                const isTarget = (m: ChatMessage) => m.timestamp === reviewTarget.messageTimestamp && m.role === 'assistant';
+                const committed = chatHistoryRef.current.find(isTarget);
+                setChatHistory(prev => prev.map(m => isTarget(m) ? { ...m, appliedAt } : m));
+                setReviewTarget(null);
+                if (gitSettings.autoCommit && gitStatus?.isRepo) {
+                  await commitChangeSet(committed?.content.trim() || reviewTarget.label, applied);
+                }
+                const checkPassed = await verifyAfterCommit(changes.map(c => c.path), committed?.verifyIteration ?? 0);
+                if (committed?.planStep) await finishPlanStep(committed.planStep, checkPassed);
+              }
+            }}
+          />
+        )}
+
         {/* Editor Tabs/Header */}
         <div className="h-12 border-b border-slate-800 flex items-center bg-slate-900/50 px-4">
-          {activeFile ? (
-            <div className="flex items-center gap-3 text-sm">
-              <div className="flex items-center gap-2 bg-slate-800 px-3 py-1.5 rounded-t-lg border-x border-t border-slate-700">
-                <FileCode className="w-3.5 h-3.5 text-blue-400" />
-                <span className="font-medium text-slate-200">{activeFile.path.split('/').pop()}</span>
-                <X 
-                  className="w-3 h-3 ml-2 cursor-pointer text-slate-500 hover:text-white" 
-                  onClick={() => setActiveFile(null)}
-                />
-              </div>
+          {openTabs.length > 0 || connectionMode !== 'none' ? (
+            <div className="flex items-end gap-1 text-sm h-full flex-1 min-w-0 overflow-x-auto">
+              {openTabs.map(tab => {
+                const isActive = tab.path === activePath && editorView === 'code';
+                const isDirty = tab.content !== tab.savedContent;
+                return (
+                  <div
+                    key={tab.path}
+                    onClick={() => { setActivePath(tab.path); setEditorView('code'); }}
+                    title={tab.path}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-t-lg border-x border-t cursor-pointer shrink-0 ${isActive ? 'bg-slate-800 border-slate-700' : 'border-transparent hover:bg-slate-800/50'}`}
+                  >
+                    <FileCode className={`w-3.5 h-3.5 ${isActive ? 'text-blue-400' : 'text-slate-500'}`} />
+                    <span className={`font-medium ${isActive ? 'text-slate-200' : 'text-slate-400'}`}>{tab.path.split('/').pop()}</span>
+                    {isDirty && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Unsaved changes" />}
+                    <X 
+                      className="w-3 h-3 ml-1 cursor-pointer text-slate-500 hover:text-white" 
+                      onClick={(e) => { e.stopPropagation(); closeTab(tab.path); }}
+                    />
+                  </div>
+                );
+              })}
+              {connectionMode !== 'none' && (
+                <div
+                  onClick={() => openPreview(activeTab?.path)}
+                  title="Preview the workspace's web pages"
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-t-lg border-x border-t cursor-pointer shrink-0 ${editorView === 'preview' ? 'bg-slate-800 border-slate-700' : 'border-transparent hover:bg-slate-800/50'}`}
+                >
+                  <Globe className={`w-3.5 h-3.5 ${editorView === 'preview' ? 'text-emerald-400' : 'text-slate-500'}`} />
+                  <span className={`font-medium ${editorView === 'preview' ? 'text-slate-200' : 'text-slate-400'}`}>Preview</span>
+                  {previewOverlay && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Showing proposed changes" />}
+                </div>
+              )}
+              {activeTab && editorView === 'code' && (
+                <button
+                  onClick={() => saveTab(activeTab.path)}
+                  disabled={activeTab.content === activeTab.savedContent}
+                  className="ml-auto self-center p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white disabled:opacity-20 shrink-0"
+                  title="Save (Ctrl+S)"
+                >
+                  <Save className="w-4 h-4" />
+                </button>
+              )}
             </div>
           ) : (
             <div className="flex items-center gap-2 text-slate-500">
@@ -249,12 +1268,37 @@ export default function App() {
 
         {/* Editor Body */}
         <div className="flex-1 overflow-hidden">
-          {activeFile ? (
-            <textarea
-              className="w-full h-full p-8 bg-transparent outline-none code-font text-[14px] leading-relaxed resize-none text-slate-300 selection:bg-emerald-500/30"
-              value={activeFile.content}
-              readOnly
-              spellCheck={false}
+          {editorView === 'preview' && connectionMode !== 'none' ? (
+            <PreviewPane
+              entry={previewEntry}
+              overlay={previewOverlay}
+              reloadToken={previewToken}
+              onEntryChange={setPreviewEntry}
+              onClearOverlay={clearOverlay}
+            />
+          ) : activeTab ? (
+            <CodeEditor
+              key={activeTab.path}
+              path={activeTab.path}
+              value={activeTab.content}
+              onChange={(content) => updateTabContent(activeTab.path, content)}
+              onSave={() => saveTab(activeTab.path)}
+              reveal={revealTarget?.path === activeTab.path ? revealTarget : undefined}
+              onInlineEdit={openInlineEdit}
+              widget={inlineEdit?.path === activeTab.path ? {
+                // Below the last selected line, not the line after a trailing newline
+                offset: inlineEdit.end > inlineEdit.start && inlineEdit.original.endsWith('\n') ? inlineEdit.end - 1 : inlineEdit.end,
+                content: (
+                  <InlineEditWidget
+                    edit={inlineEdit}
+                    onInstructionChange={(instruction) => setInlineEdit(prev => prev && { ...prev, instruction })}
+                    onSubmit={submitInlineEdit}
+                    onAccept={acceptInlineEdit}
+                    onClose={closeInlineEdit}
+                    onRevise={() => setInlineEdit(prev => prev && { ...prev, status: 'prompt', replacement: undefined })}
+                  />
+                )
+              } : undefined}
             />
           ) : (
             <div className="h-full flex flex-col items-center justify-center text-slate-700">
@@ -273,46 +1317,203 @@ export default function App() {
         {/* Console / Terminal */}
         <div className="h-56 border-t border-slate-800 flex flex-col bg-slate-900 shadow-2xl">
           <div className="h-10 flex items-center px-4 border-b border-slate-800 justify-between">
-            <div className="flex items-center gap-2">
-              <TerminalIcon className="w-3.5 h-3.5 text-emerald-500" />
-              <span className="text-[10px] font-black tracking-widest uppercase text-slate-500">Output Log</span>
+            <div className="flex items-center gap-4">
+              {(['log', 'terminal'] as const).map(panel => (
+                <button
+                  key={panel}
+                  onClick={() => setBottomPanel(panel)}
+                  className={`flex items-center gap-2 text-[10px] font-black tracking-widest uppercase ${bottomPanel === panel ? 'text-slate-300' : 'text-slate-600 hover:text-slate-400'}`}
+                >
+                  <TerminalIcon className={`w-3.5 h-3.5 ${bottomPanel === panel ? 'text-emerald-500' : ''}`} />
+                  {panel === 'log' ? 'Output Log' : 'Terminal'}
+                </button>
+              ))}
             </div>
             <div className="flex gap-4">
-               {connectionMode === 'server' && (
-                 <div className="flex items-center gap-1.5">
-                   <Server className="w-3 h-3 text-emerald-500" />
-                   <span className="text-[10px] text-emerald-500 font-bold uppercase">Bridge Active</span>
-                 </div>
+               {(connectionMode === 'server' || bridgeHealth === 'unauthorized' || bridgeHealth === 'not_bridge') && (
+                 <button
+                   onClick={() => setShowBridgeSettings(true)}
+                   className={`flex items-center gap-1.5 ${bridgeHealth === 'connected' ? 'text-emerald-500' : 'text-amber-500'}`}
+                   title={HEALTH_LABELS[bridgeHealth]}
+                 >
+                   <Server className="w-3 h-3" />
+                   <span className="text-[10px] font-bold uppercase">
+                     {bridgeHealth === 'connected' ? 'Bridge Active' : bridgeHealth === 'offline' ? 'Bridge Offline' : 'Bridge Error'}
+                   </span>
+                 </button>
                )}
             </div>
           </div>
-          <div className="flex-1 p-4 overflow-y-auto font-mono text-[11px] leading-relaxed text-slate-400 space-y-1 bg-black/20">
-            {logs.map((log, i) => (
-              <div key={i} className="flex gap-2">
-                <span className="text-slate-700">❯</span>
-                <span>{log}</span>
-              </div>
-            ))}
-            <div className="pt-2 text-slate-600 italic">...system idle</div>
-          </div>
+          {bottomPanel === 'log' ? (
+            <div className="flex-1 p-4 overflow-y-auto font-mono text-[11px] leading-relaxed text-slate-400 space-y-1 bg-black/20">
+              {logs.map((log, i) => (
+                <div key={i} className="flex gap-2">
+                  <span className="text-slate-700">❯</span>
+                  <span className="whitespace-pre-wrap">{log}</span>
+                </div>
+              ))}
+              <div className="pt-2 text-slate-600 italic">...system idle</div>
+            </div>
+          ) : (
+            <TerminalPanel
+              runs={commandRuns}
+              allowlist={fsService.getCommandAllowlist()}
+              history={commandHistory}
+              enabled={connectionMode === 'server'}
+              onRun={runCommand}
+              onKill={killCommand}
+              onClear={() => setCommandRuns(prev => prev.filter(r => r.status === 'running'))}
+            />
+          )}
         </div>
       </main>
 
       {/* Right Sidebar: AI Agent */}
-      <aside className="w-[400px] border-l border-slate-800 flex flex-col bg-slate-900 shadow-2xl">
+      <aside
+        className="relative w-[400px] border-l border-slate-800 flex flex-col bg-slate-900 shadow-2xl"
+        onDragOver={(e) => {
+          if (!isAttachDrag(e)) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+        }}
+        onDrop={handleChatDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-3 z-20 flex items-center justify-center rounded-2xl border-2 border-dashed border-emerald-500/60 bg-slate-950/80 text-sm text-emerald-400 pointer-events-none">
+            Drop to attach to your message
+          </div>
+        )}
         <div className="p-5 border-b border-slate-800 flex items-center gap-3">
           <div className="p-2 bg-emerald-500/10 rounded-lg">
             <Wand2 className="w-5 h-5 text-emerald-500" />
           </div>
-          <div>
+          <div className="flex-1">
             <h2 className="font-bold text-sm tracking-tight text-white uppercase">Architect AI</h2>
-            <div className="flex items-center gap-1.5 mt-0.5">
+            <button
+              onClick={() => setShowModelSettings(!showModelSettings)}
+              className="flex items-center gap-1.5 mt-0.5 hover:text-slate-300 text-slate-500"
+              title="Model settings"
+            >
               <span className="w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
-              <span className="text-[9px] font-bold text-slate-500">GEMINI PRO 2.5 CLOUD</span>
-            </div>
+              <span className="text-[9px] font-bold uppercase">{providers[modelSettings.provider].label} · {modelSettings.model}</span>
+              <SlidersHorizontal className="w-2.5 h-2.5" />
+            </button>
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => setShowUsage(!showUsage)}
+              className={`p-1.5 hover:bg-slate-800 rounded-md transition-colors ${usageSettings.dailyBudgetUsd > 0 && usageToday.costUsd >= usageSettings.dailyBudgetUsd ? 'text-red-400' : showUsage ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+              title={`Usage today: ${formatCost(usageToday.costUsd)}${usageSettings.dailyBudgetUsd > 0 ? ` of ${formatCost(usageSettings.dailyBudgetUsd)}` : ''}`}
+            >
+              <Coins className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowProjectSettings(!showProjectSettings)}
+              className={`p-1.5 hover:bg-slate-800 rounded-md transition-colors ${showProjectSettings ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+              title="Project rules and slash commands"
+            >
+              <BookOpen className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowVerifySettings(!showVerifySettings)}
+              className={`p-1.5 hover:bg-slate-800 rounded-md transition-colors ${verifySettings.enabled ? 'text-amber-400' : 'text-slate-400 hover:text-white'}`}
+              title={verifySettings.enabled ? `Auto-verify on: ${verifySettings.command}` : 'Auto-verify off'}
+            >
+              <FlaskConical className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowConversations(!showConversations)}
+              disabled={!workspace}
+              className={`p-1.5 hover:bg-slate-800 rounded-md transition-colors disabled:opacity-20 ${showConversations ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+              title="Conversations"
+            >
+              <History className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleNewConversation}
+              disabled={chatHistory.length === 0 || isAiLoading}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white disabled:opacity-20"
+              title="New conversation"
+            >
+              <MessageSquarePlus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={changeHistory.undo}
+              disabled={changeHistory.undoStack.length === 0 || changeHistory.isApplying}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white disabled:opacity-20"
+              title={changeHistory.undoStack.length ? `Undo: ${changeHistory.undoStack[changeHistory.undoStack.length - 1].label}` : 'Nothing to undo'}
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={changeHistory.redo}
+              disabled={changeHistory.redoStack.length === 0 || changeHistory.isApplying}
+              className="p-1.5 hover:bg-slate-800 rounded-md transition-colors text-slate-400 hover:text-white disabled:opacity-20"
+              title={changeHistory.redoStack.length ? `Redo: ${changeHistory.redoStack[changeHistory.redoStack.length - 1].label}` : 'Nothing to redo'}
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
           </div>
         </div>
 
+        {showUsage && (
+          <UsagePanel
+            settings={usageSettings}
+            today={usageToday}
+            model={modelSettings.model}
+            hasPrice={usageTracker.priceFor(modelSettings.provider, modelSettings.model) !== null}
+            onChange={updateUsageSettings}
+            onClose={() => setShowUsage(false)}
+          />
+        )}
+
+        {showProjectSettings && (
+          <ProjectSettingsPanel
+            key={workspace?.id}
+            preferences={preferences}
+            templates={templates}
+            hasWorkspace={!!workspace}
+            onPreferencesChange={updatePreferences}
+            onSaveTemplates={saveTemplates}
+            onEditRules={editRules}
+            onClose={() => setShowProjectSettings(false)}
+          />
+        )}
+
+        {showVerifySettings && (
+          <VerifySettingsPanel
+            settings={verifySettings}
+            allowlist={fsService.getCommandAllowlist()}
+            available={connectionMode === 'server'}
+            onChange={updateVerifySettings}
+            onClose={() => setShowVerifySettings(false)}
+          />
+        )}
+
+        {showConversations && (
+          <ConversationsPanel
+            conversations={conversations}
+            activeId={conversationId}
+            disabled={isAiLoading}
+            onOpen={openConversation}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+            onImport={importConversation}
+            onClose={() => setShowConversations(false)}
+          />
+        )}
+
+        {showModelSettings && (
+          <ModelSettingsPanel
+            settings={modelSettings}
+            onChange={updateModelSettings}
+            onClose={() => setShowModelSettings(false)}
+          />
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-5 space-y-6 scrollbar-thin">
           {chatHistory.length === 0 && (
@@ -329,52 +1530,208 @@ export default function App() {
             </div>
           )}
 
-          {chatHistory.map((msg, i) => (
+          {chatHistory.map((msg, i) => msg.verification ? (
+            <div key={i} className={`rounded-xl border px-4 py-2.5 text-[12px] ${msg.verification.passed ? 'border-emerald-800/60 bg-emerald-950/30 text-emerald-400' : 'border-amber-800/60 bg-amber-950/20 text-amber-400'}`}>
+              <div className="flex items-center gap-2">
+                {msg.verification.passed ? <CheckCircle2 className="w-3.5 h-3.5 shrink-0" /> : <FlaskConical className="w-3.5 h-3.5 shrink-0" />}
+                <span>{msg.content}</span>
+              </div>
+              {msg.verification.output && (
+                <details className="mt-1.5 text-[10px] text-slate-500">
+                  <summary className="cursor-pointer hover:text-slate-300">Output</summary>
+                  <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap font-mono">{msg.verification.output}</pre>
+                </details>
+              )}
+            </div>
+          ) : (
             <div key={i} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start animate-in fade-in slide-in-from-left-2'}`}>
               <div className={`max-w-[90%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
                 msg.role === 'user' 
                 ? 'bg-emerald-600 text-white rounded-tr-none shadow-lg shadow-emerald-900/20' 
                 : 'bg-slate-850 text-slate-200 rounded-tl-none border border-slate-800 shadow-xl'
               }`}>
+                {msg.thinking && (
+                  <details className="mb-2 text-[11px] text-slate-500">
+                    <summary className="cursor-pointer hover:text-slate-300">Reasoning</summary>
+                    <div className="mt-1 whitespace-pre-wrap">{msg.thinking}</div>
+                  </details>
+                )}
+                {msg.steps && msg.steps.length > 0 && <AgentSteps steps={msg.steps} />}
+                {msg.attachments && msg.attachments.length > 0 && (
+                  <div className="mb-2">
+                    <AttachmentList attachments={msg.attachments} />
+                  </div>
+                )}
                 {msg.content}
+                {msg.incomplete && (
+                  <div className="mt-2 flex items-center gap-1 text-[10px] text-amber-500">
+                    <AlertTriangle className="w-3 h-3" /> Response incomplete
+                  </div>
+                )}
+                {msg.diagnostics && msg.diagnostics.length > 0 && (
+                  <details className="mt-2 text-[10px] text-amber-500">
+                    <summary className="cursor-pointer hover:text-amber-400">
+                      Response repaired ({msg.diagnostics.length})
+                    </summary>
+                    <ul className="mt-1 space-y-0.5 list-disc pl-4 text-slate-400">
+                      {msg.diagnostics.map((d, j) => <li key={j}>{d}</li>)}
+                    </ul>
+                  </details>
+                )}
+                {msg.usage && (
+                  <div
+                    className="mt-2 text-[10px] text-slate-500"
+                    title={`${msg.usage.calls} model call(s) to ${msg.usage.model}`}
+                  >
+                    {formatTokens(msg.usage.promptTokens)} in · {formatTokens(msg.usage.outputTokens)} out
+                    {msg.usage.thinkingTokens > 0 && ` · ${formatTokens(msg.usage.thinkingTokens)} thinking`}
+                    {' · '}{formatCost(messageCost(msg.usage))}
+                  </div>
+                )}
+                {msg.verifyIteration && (
+                  <div className="mt-2 flex items-center gap-1 text-[10px] text-amber-500">
+                    <FlaskConical className="w-3 h-3" /> Auto-verify fix attempt {msg.verifyIteration}
+                  </div>
+                )}
               </div>
+
+              {msg.contextFiles && (
+                <details className="mt-1.5 max-w-[90%] text-[10px] text-slate-500">
+                  <summary className="cursor-pointer hover:text-slate-300 flex items-center gap-1 justify-end">
+                    <Paperclip className="w-3 h-3" />
+                    {msg.contextFiles.length} files in context · ~{msg.contextFiles.reduce((sum, f) => sum + f.tokens, 0)} tokens
+                  </summary>
+                  <div className="mt-1 space-y-0.5 font-mono">
+                    {msg.contextFiles.map(f => (
+                      <div key={f.path} className="flex justify-between gap-3">
+                        <span className="truncate">{f.path}{f.truncated ? ' (truncated)' : ''}</span>
+                        <span className="shrink-0 text-slate-600">{f.reason} · {f.tokens}</span>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
               
               {msg.changes && msg.changes.length > 0 && (
                 <div className="mt-4 w-full bg-slate-950 rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
                   <div className="bg-slate-800/50 px-4 py-2 text-[10px] font-black uppercase tracking-widest flex items-center justify-between border-b border-slate-800 text-slate-400">
                     <span>Proposed Local Updates</span>
-                    <span className="text-emerald-500">{msg.changes.length} Files</span>
+                    <span className="flex items-center gap-2">
+                      {msg.appliedAt && (
+                        <span className="flex items-center gap-1 text-slate-500">
+                          <CheckCircle2 className="w-3 h-3" /> Applied
+                        </span>
+                      )}
+                      <span className="text-emerald-500">{msg.changes.length} Files</span>
+                    </span>
                   </div>
                   <div className="p-3 space-y-2 max-h-48 overflow-y-auto">
-                    {msg.changes.map((change, idx) => (
-                      <div key={idx} className="flex items-center gap-2 text-[11px] text-slate-400 group">
-                        <FileCode className="w-3.5 h-3.5 shrink-0 text-blue-500" />
-                        <span className="truncate flex-1 font-mono">{change.path}</span>
-                        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                           <Save className="w-3 h-3 cursor-pointer" />
+                    {msg.changes.map((change, idx) => {
+                      const verdict = writePolicy.check(change);
+                      return (
+                        <div 
+                          key={idx} 
+                          onClick={() => openReview(i, idx)}
+                          className="text-[11px] text-slate-400 group cursor-pointer hover:text-slate-200"
+                        >
+                          <div className="flex items-center gap-2">
+                            <FileCode className="w-3.5 h-3.5 shrink-0 text-blue-500" />
+                            <span className={`truncate flex-1 font-mono ${verdict.level === 'block' ? 'line-through text-slate-600' : ''}`}>{change.path}</span>
+                            <span className="text-[9px] uppercase text-slate-600">{change.action}</span>
+                            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                               <Eye className="w-3 h-3" />
+                            </div>
+                          </div>
+                          {verdict.level !== 'allow' && (
+                            <div className={`pl-[22px] mt-0.5 flex items-center gap-1 text-[10px] ${verdict.level === 'block' ? 'text-red-400' : 'text-amber-500'}`}>
+                              <ShieldAlert className="w-3 h-3 shrink-0" />
+                              {verdict.level === 'block' ? 'Blocked: ' : ''}{verdict.reason}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
+                  {msg.changes.some(c => PREVIEWABLE_FILE.test(c.path)) && connectionMode !== 'none' && (
+                    <button
+                      onClick={() => previewChanges(msg)}
+                      className="w-full border-t border-slate-800 hover:bg-slate-800/50 py-2 text-[11px] font-bold text-slate-400 hover:text-slate-200 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Globe className="w-3.5 h-3.5" />
+                      {msg.appliedAt ? 'Preview' : 'Preview Before Committing'}
+                    </button>
+                  )}
                   <button 
-                    disabled={isApplyingChanges || connectionMode === 'none'}
-                    onClick={() => applyChanges(msg.changes!)}
+                    disabled={changeHistory.isApplying || connectionMode === 'none'}
+                    onClick={() => openReview(i, 0)}
                     className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 py-3.5 text-xs font-bold transition-all flex items-center justify-center gap-2 group"
                   >
-                    {isApplyingChanges ? (
+                    {changeHistory.isApplying ? (
                       <Activity className="w-4 h-4 animate-spin" />
                     ) : (
                       <>
-                        Commit to Disk
+                        Review & Commit
                         <Rocket className="w-3.5 h-3.5 group-hover:translate-x-1 group-hover:-translate-y-1 transition-transform" />
                       </>
                     )}
                   </button>
                 </div>
               )}
+
+              {msg.plan && (
+                <PlanCard
+                  plan={msg.plan}
+                  active={planInFlight === msg.timestamp}
+                  busy={isAiLoading || connectionMode === 'none'}
+                  onChange={(plan) => setPlan(msg.timestamp, plan)}
+                  onRun={() => runPlan(msg.timestamp)}
+                  onPause={() => setPlan(msg.timestamp, { ...msg.plan!, status: 'paused' })}
+                  onSkip={(stepId) => skipPlanStep(msg.timestamp, stepId)}
+                />
+              )}
             </div>
           ))}
 
+          {isAiLoading && streamingResponse && (
+            <div className="flex flex-col items-start">
+              <div className="max-w-[90%] rounded-2xl px-4 py-3 text-sm leading-relaxed bg-slate-850 text-slate-200 rounded-tl-none border border-slate-800 shadow-xl">
+                {streamingResponse.thinking && (
+                  <details open={!streamingResponse.message} className="mb-2 text-[11px] text-slate-500">
+                    <summary className="cursor-pointer hover:text-slate-300">Reasoning</summary>
+                    <div className="mt-1 whitespace-pre-wrap max-h-40 overflow-y-auto">{streamingResponse.thinking}</div>
+                  </details>
+                )}
+                {streamingResponse.steps && streamingResponse.steps.length > 0 && <AgentSteps steps={streamingResponse.steps} />}
+                <span className="whitespace-pre-wrap">{streamingResponse.message}</span>
+                <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-emerald-500 animate-pulse align-middle" />
+              </div>
+              {streamingResponse.changes.length > 0 && (
+                <div className="mt-4 w-full bg-slate-950 rounded-2xl border border-slate-800 overflow-hidden">
+                  <div className="bg-slate-800/50 px-4 py-2 text-[10px] font-black uppercase tracking-widest flex items-center justify-between border-b border-slate-800 text-slate-400">
+                    <span>Receiving Updates</span>
+                    <span className="text-emerald-500">{streamingResponse.changes.length} Files</span>
+                  </div>
+                  <div className="p-3 space-y-2">
+                    {streamingResponse.changes.map((change, idx) => (
+                      <div key={idx} className="flex items-center gap-2 text-[11px] text-slate-400 animate-in fade-in">
+                        <FileCode className="w-3.5 h-3.5 shrink-0 text-blue-500" />
+                        <span className="truncate flex-1 font-mono">{change.path}</span>
+                        <span className="text-[9px] uppercase text-slate-600">{change.action}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {verifyingCommand && (
+            <div className="flex gap-3 items-center text-slate-500 text-xs p-4 bg-slate-800/30 rounded-2xl border border-slate-800/50">
+              <FlaskConical className="w-4 h-4 text-amber-500 animate-pulse" />
+              <span className="flex-1">Verifying with <code className="text-slate-300">{verifyingCommand}</code>... (kill it from the Terminal tab)</span>
+            </div>
+          )}
+
           {isAiLoading && (
             <div className="flex gap-3 items-center text-slate-500 text-xs p-4 bg-slate-800/30 rounded-2xl border border-slate-800/50">
               <div className="flex gap-1.5">
@@ -382,7 +1739,13 @@ export default function App() {
                 <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-bounce delay-100"></div>
                 <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-bounce delay-200"></div>
               </div>
-              <span>Processing requirements...</span>
+              <span className="flex-1">{streamingResponse ? 'Streaming response...' : 'Processing requirements...'}</span>
+              <button
+                onClick={handleCancel}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold uppercase text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <Square className="w-3 h-3" /> Cancel
+              </button>
             </div>
           )}
           <div ref={chatEndRef} />
@@ -390,18 +1753,112 @@ export default function App() {
 
         {/* Input Bar */}
         <div className="p-5 border-t border-slate-800 bg-slate-900/50">
+          {pendingAttachments.length > 0 && (
+            <div className="mb-3">
+              <AttachmentList
+                attachments={pendingAttachments}
+                onRemove={(id) => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-2 mb-2 flex-wrap">
+            <button
+              onClick={() => attachInputRef.current?.click()}
+              className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-slate-800"
+              title="Attach images or text files (or paste / drop them)"
+            >
+              <Paperclip className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setShowAttachPicker(true)}
+              disabled={connectionMode === 'none'}
+              className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-slate-800 disabled:opacity-30"
+              title="Attach a workspace file"
+            >
+              <FilePlus2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setPlanMode(!planMode)}
+              className={`flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-bold ${planMode ? 'bg-emerald-500/10 text-emerald-400' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+              title="Plan first: get an editable list of steps, then run them one at a time"
+            >
+              <ListChecks className="w-3.5 h-3.5" /> Plan
+            </button>
+            <input
+              ref={attachInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files) attachFiles(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+            />
+            {pinnedPaths.map(path => (
+              <span key={path} className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded-md px-2 py-0.5 text-[10px] font-mono text-slate-300">
+                <Pin className="w-2.5 h-2.5 text-amber-500" />
+                {path.split('/').pop()}
+                <X className="w-2.5 h-2.5 cursor-pointer text-slate-500 hover:text-white" onClick={() => togglePin(path)} />
+              </span>
+            ))}
+            {sessionUsage !== EMPTY_USAGE && (
+              <span className="text-[10px] text-slate-500" title="Tokens and estimated cost of this conversation">
+                {formatTokens(sessionUsage.promptTokens + sessionUsage.outputTokens + sessionUsage.thinkingTokens)} tokens · {formatCost(sessionCost)}
+              </span>
+            )}
+            <select
+              value={tokenBudget}
+              onChange={(e) => setTokenBudget(Number(e.target.value))}
+              className="ml-auto bg-slate-950 border border-slate-800 rounded-md px-1.5 py-0.5 text-[10px] text-slate-400 focus:outline-none"
+              title="Context token budget"
+            >
+              {[8000, 16000, 32000, 64000, 128000, 256000].map(n => (
+                <option key={n} value={n}>{n / 1000}k context</option>
+              ))}
+            </select>
+          </div>
           <div className="relative">
+            {suggestions.length > 0 && (
+              <div className="absolute bottom-full mb-2 left-0 right-0 bg-slate-950 border border-slate-800 rounded-xl shadow-2xl overflow-hidden z-10">
+                {suggestions.map((template, i) => (
+                  <button
+                    key={template.command}
+                    onMouseDown={(e) => { e.preventDefault(); completeSuggestion(template); }}
+                    className={`w-full flex items-baseline gap-2 px-4 py-2 text-left text-[12px] ${i === selectedSuggestion % suggestions.length ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}
+                  >
+                    <span className="font-mono text-emerald-400">/{template.command}</span>
+                    <span className="text-slate-500 truncate">{template.description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
             <textarea
               rows={3}
               value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
+              onChange={(e) => { setInputValue(e.target.value); setSelectedSuggestion(0); }}
+              onPaste={(e) => {
+                const files = Array.from<File>(e.clipboardData.files);
+                if (files.length === 0) return;
+                e.preventDefault();
+                attachFiles(files);
+              }}
               onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
+                if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+                  e.preventDefault();
+                  setSelectedSuggestion(s => (s + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length);
+                } else if (suggestions.length > 0 && (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey))) {
+                  e.preventDefault();
+                  completeSuggestion(suggestions[selectedSuggestion % suggestions.length]);
+                } else if (e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault();
                   handleSendMessage();
                 }
               }}
-              placeholder={connectionMode !== 'none' ? "Describe the app you want to build..." : "Mount workspace to start..."}
+              placeholder={connectionMode === 'none'
+                ? "Mount workspace to start..."
+                : planMode
+                  ? "Describe the task to plan... (steps can be edited before they run)"
+                  : "Describe the app you want to build... (@path to include a file, / for commands)"}
               disabled={connectionMode === 'none' || isAiLoading}
               className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-5 py-4 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all resize-none pr-14 disabled:opacity-50 text-slate-200 placeholder:text-slate-700"
             />
@@ -419,26 +1876,77 @@ export default function App() {
   );
 }
 
+function newWorkspace(id: string, name: string, mode: 'server' | 'browser'): WorkspaceSession {
+  return { id, name, mode, lastOpened: Date.now(), openPaths: [], activePath: null, logs: [] };
+}
+
+function conversationTitle(history: ChatMessage[]): string {
+  const first = history.find(m => m.role === 'user')?.content.split('\n')[0].trim() ?? '';
+  return first.length > 60 ? `${first.slice(0, 57)}...` : first || 'Untitled conversation';
+}
+
+function changeSetLabel(msg: ChatMessage): string {
+  const firstLine = msg.content.split('\n')[0].trim();
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine || `${msg.changes?.length ?? 0} file change(s)`;
+}
+
+// Hashes of the files the AI was shown for the request that produced history[index].
+function contextHashes(history: ChatMessage[], index: number): Record<string, string> {
+  for (let i = index - 1; i >= 0; i--) {
+    if (history[i].role !== 'user') continue;
+    const hashes: Record<string, string> = {};
+    for (const file of history[i].contextFiles ?? []) {
+      if (file.hash) hashes[file.path] = file.hash;
+    }
+    return hashes;
+  }
+  return {};
+}
+
 // Sub-component for File Tree Nodes
 interface FileTreeNodeProps {
   node: FileNode;
   path: string;
   onFileClick: (node: FileNode, path: string) => void;
+  onToggleDirectory: (node: FileNode) => void;
+  pinnedPaths: string[];
+  onTogglePin: (path: string) => void;
+  gitFiles: Record<string, GitFileStatus>;
 }
 
-const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, path, onFileClick }) => {
-  const [isOpen, setIsOpen] = useState(false);
+const GIT_MARKERS: Record<GitFileStatus, { letter: string; className: string }> = {
+  modified: { letter: 'M', className: 'text-amber-400' },
+  added: { letter: 'A', className: 'text-emerald-400' },
+  deleted: { letter: 'D', className: 'text-red-400' },
+  renamed: { letter: 'R', className: 'text-sky-400' },
+  untracked: { letter: 'U', className: 'text-emerald-500' },
+  conflicted: { letter: '!', className: 'text-red-500' }
+};
+
+// Files inside an untracked directory are only reported as the directory.
+function gitStatusOf(files: Record<string, GitFileStatus>, path: string): GitFileStatus | undefined {
+  if (files[path]) return files[path];
+  const parts = path.split('/');
+  for (let i = parts.length - 1; i > 0; i--) {
+    if (files[parts.slice(0, i).join('/')] === 'untracked') return 'untracked';
+  }
+  return undefined;
+}
 
+const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, path, onFileClick, onToggleDirectory, pinnedPaths, onTogglePin, gitFiles }) => {
   if (node.kind === 'directory') {
+    const isOpen = !!node.isOpen;
+    const hasChanges = !!gitStatusOf(gitFiles, path) || Object.keys(gitFiles).some(p => p.startsWith(`${path}/`));
     return (
       <div className="select-none">
         <div 
-          onClick={() => setIsOpen(!isOpen)}
+          onClick={() => onToggleDirectory(node)}
           className="flex items-center gap-2 px-3 py-2 hover:bg-slate-800 rounded-lg cursor-pointer transition-all group"
         >
           {isOpen ? <ChevronDown className="w-3.5 h-3.5 text-slate-600" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-600" />}
           <FolderOpen className={`w-4 h-4 ${isOpen ? 'text-amber-500' : 'text-slate-500 group-hover:text-amber-400'}`} />
           <span className={`text-[13px] font-medium transition-colors ${isOpen ? 'text-slate-200' : 'text-slate-400 group-hover:text-slate-200'}`}>{node.name}</span>
+          {hasChanges && <span className="w-1.5 h-1.5 rounded-full bg-amber-400/70" title="Contains changes" />}
         </div>
         {isOpen && node.children && (
           <div className="ml-5 border-l border-slate-800/50 pl-2 mt-1 space-y-0.5">
@@ -448,6 +1956,10 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, path, onFileClick })
                 node={child} 
                 path={child.path || `${path}/${child.name}`} 
                 onFileClick={onFileClick} 
+                onToggleDirectory={onToggleDirectory}
+                pinnedPaths={pinnedPaths}
+                onTogglePin={onTogglePin}
+                gitFiles={gitFiles}
               />
             ))}
           </div>
@@ -456,14 +1968,33 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, path, onFileClick })
     );
   }
 
+  const isPinned = pinnedPaths.includes(path);
+  const status = gitStatusOf(gitFiles, path);
+
   return (
     <div 
       onClick={() => onFileClick(node, path)}
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData(WORKSPACE_PATH_DRAG_TYPE, path)}
       className="flex items-center gap-2 px-3 py-2 hover:bg-slate-800 rounded-lg cursor-pointer transition-all group"
     >
       <div className="w-3.5" /> {/* Align with folder chevrons */}
       <FileCode className="w-4 h-4 text-blue-500/70 group-hover:text-blue-400" />
-      <span className="text-[13px] text-slate-400 group-hover:text-slate-200 transition-colors">{node.name}</span>
+      <span className={`flex-1 truncate text-[13px] transition-colors ${status ? GIT_MARKERS[status].className : 'text-slate-400 group-hover:text-slate-200'}`}>{node.name}</span>
+      {status && (
+        <span className={`text-[10px] font-bold font-mono ${GIT_MARKERS[status].className}`} title={status}>{GIT_MARKERS[status].letter}</span>
+      )}
+      <Pin
+        onClick={(e) => { e.stopPropagation(); onTogglePin(path); }}
+        className={`w-3 h-3 shrink-0 transition-opacity ${isPinned ? 'text-amber-500' : 'text-slate-600 hover:text-white opacity-0 group-hover:opacity-100'}`}
+      >
+        <title>{isPinned ? 'Unpin from AI context' : 'Pin to AI context'}</title>
+      </Pin>
     </div>
   );
 };
+
+// Priced with the current settings, so edited prices apply to past messages too.
+function messageCost(usage: MessageUsage): number | null {
+  return usageTracker.costOf(usage, usage.provider, usage.model);
+}
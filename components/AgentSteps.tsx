@@ -0,0 +1,36 @@
+
+import React from 'react';
+import { Wrench, AlertTriangle } from 'lucide-react';
+import { AgentStep } from '../types';
+
+// The argument worth showing in the collapsed row for each tool.
+function describe({ name, args }: AgentStep['call']): string {
+  switch (name) {
+    case 'read_file':
+      return args.startLine ? `${args.path}:${args.startLine}-${args.endLine ?? ''}` : String(args.path ?? '');
+    case 'search':
+      return JSON.stringify(args.query ?? '');
+    case 'propose_change':
+      return `${args.action} ${args.path}`;
+    default:
+      return String(args.path ?? '');
+  }
+}
+
+/** Tool calls made while answering, one collapsible row per call with its output. */
+export const AgentSteps: React.FC<{ steps: AgentStep[] }> = ({ steps }) => (
+  <div className="mb-2 space-y-1">
+    {steps.map((step, i) => (
+      <details key={`${step.call.id}-${i}`} className="text-[11px] text-slate-500">
+        <summary className={`cursor-pointer flex items-center gap-1.5 ${step.isError ? 'text-amber-500' : 'hover:text-slate-300'}`}>
+          {step.isError ? <AlertTriangle className="w-3 h-3 shrink-0" /> : <Wrench className="w-3 h-3 shrink-0" />}
+          <span className="font-mono text-slate-400">{step.call.name}</span>
+          <span className="font-mono truncate">{describe(step.call)}</span>
+        </summary>
+        <pre className={`mt-1 max-h-48 overflow-auto whitespace-pre-wrap font-mono rounded-lg bg-slate-950 p-2 ${step.isError ? 'text-amber-400' : 'text-slate-400'}`}>
+          {step.output}
+        </pre>
+      </details>
+    ))}
+  </div>
+);
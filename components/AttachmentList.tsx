@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { attachmentDataUrl } from '../utils/attachments';
+import { Attachment } from '../types';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Shown as a remove button on each attachment when set
+  onRemove?: (id: string) => void;
+}
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map(attachment => (
+      <div key={attachment.id} className="relative group" title={attachment.path ?? attachment.name}>
+        {attachment.kind === 'image' ? (
+          <img
+            src={attachmentDataUrl(attachment)}
+            alt={attachment.name}
+            className="h-14 max-w-[120px] object-cover rounded-lg border border-slate-700 bg-slate-950"
+          />
+        ) : (
+          <div className="flex items-center gap-1.5 h-7 max-w-[180px] px-2 rounded-lg border border-slate-700 bg-slate-950 text-[10px] font-mono text-slate-300">
+            <FileText className="w-3 h-3 shrink-0 text-sky-400" />
+            <span className="truncate">{attachment.name}</span>
+          </div>
+        )}
+        {onRemove && (
+          <button
+            onClick={() => onRemove(attachment.id)}
+            className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-800 border border-slate-600 text-slate-400 hover:text-white opacity-0 group-hover:opacity-100"
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
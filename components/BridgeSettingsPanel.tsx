@@ -0,0 +1,55 @@
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { BridgeHealth } from '../services/bridgeClient';
+import { BridgeSettings } from '../types';
+
+interface BridgeSettingsPanelProps {
+  settings: BridgeSettings;
+  health: BridgeHealth;
+  onSave: (settings: BridgeSettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1';
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[12px] text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+
+export const HEALTH_LABELS: Record<BridgeHealth, string> = {
+  unknown: 'Not checked yet',
+  connected: 'Connected',
+  offline: 'Not reachable',
+  unauthorized: 'Token rejected',
+  not_bridge: 'Something else is listening on this address'
+};
+
+export const BridgeSettingsPanel: React.FC<BridgeSettingsPanelProps> = ({ settings, health, onSave, onClose }) => {
+  const [url, setUrl] = useState(settings.url);
+  const [token, setToken] = useState(settings.token);
+
+  return (
+    <div className="p-3 border-b border-slate-800 bg-slate-950/60 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Local Bridge</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+      <p className={`text-[10px] ${health === 'connected' ? 'text-emerald-500' : 'text-amber-500'}`}>{HEALTH_LABELS[health]}</p>
+      <div>
+        <label className={labelClass}>URL</label>
+        <input value={url} onChange={(e) => setUrl(e.target.value)} spellCheck={false} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Token</label>
+        <input type="password" value={token} onChange={(e) => setToken(e.target.value)} className={inputClass} />
+        <p className="mt-1 text-[10px] text-slate-500 leading-relaxed">Printed by server.py when it starts, or set with --token.</p>
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSave({ url: url.trim(), token: token.trim() })}
+          className="bg-emerald-600 hover:bg-emerald-500 px-3 py-1 rounded-md text-[10px] font-bold"
+        >
+          Save & Connect
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,338 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Activity, Check, X, FileCode, Pencil, Rocket, Columns2, Rows3, AlertTriangle, GitMerge, ShieldAlert } from 'lucide-react';
+import { fsService } from '../services/fileSystemService';
+import { writePolicy } from '../services/writePolicy';
+import { fileVersions } from '../services/fileVersionTracker';
+import { diffLines, buildHunks, applyHunkSelection } from '../utils/diff';
+import { describeFailures } from '../utils/patch';
+import { hashContent } from '../utils/hash';
+import { merge3 } from '../utils/merge';
+import { DiffViewer } from './DiffViewer';
+import { FileChange, PolicyVerdict } from '../types';
+
+interface FileReview {
+  change: FileChange;
+  original: string | null;
+  status: 'accepted' | 'rejected';
+  rejectedHunks: number[];
+  editedContent?: string;
+  // For 'patch' changes: the file with the hunks applied, plus any that failed
+  patched?: string;
+  patchError?: string;
+  // Set when the file changed on disk after the AI read it; base is what the AI saw, if still known
+  conflict?: { base: string | null };
+  resolution?: ConflictResolution;
+  verdict: PolicyVerdict;
+}
+
+type ConflictResolution = 'disk' | 'base' | 'ai' | 'merge';
+
+interface ChangeReviewModalProps {
+  changes: FileChange[];
+  initialIndex?: number;
+  isApplying: boolean;
+  // Hash of each file as included in the AI's context, keyed by path
+  baseHashes?: Record<string, string>;
+  // Bumped by the parent to re-read files from disk, e.g. after a stale-write rejection
+  reloadToken?: number;
+  // expectedHashes: what each written path held when reviewed (null if absent)
+  onCommit: (changes: FileChange[], expectedHashes: Record<string, string | null>) => void;
+  onClose: () => void;
+}
+
+function proposedContent(review: FileReview): string {
+  if (review.change.action === 'delete') return '';
+  return review.editedContent ?? review.patched ?? review.change.content;
+}
+
+// Turns a review into the change that will actually be written, or null when nothing should be.
+function resolveReview(review: FileReview): FileChange | null {
+  if (review.status === 'rejected' || review.verdict.level === 'block') return null;
+  if (review.change.action === 'delete') {
+    return review.original === null ? null : review.change;
+  }
+  if (review.patchError && review.editedContent === undefined) return null;
+
+  let content = proposedContent(review);
+  if (review.rejectedHunks.length > 0) {
+    const lines = diffLines(review.original ?? '', content);
+    content = applyHunkSelection(lines, buildHunks(lines), new Set(review.rejectedHunks));
+  }
+  if (content === review.original) return null;
+  return { path: review.change.path, content, action: review.original === null ? 'create' : 'update' };
+}
+
+function detectConflict(path: string, original: string | null, baseHashes?: Record<string, string>): FileReview['conflict'] {
+  const baseHash = baseHashes?.[path];
+  if (!baseHash) return undefined;
+  if (original !== null && hashContent(original) === baseHash) return undefined;
+  return { base: fileVersions.get(baseHash) ?? null };
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  disk: 'Keep mine',
+  base: 'Base',
+  ai: 'AI version',
+  merge: 'Merge'
+};
+
+export const ChangeReviewModal: React.FC<ChangeReviewModalProps> = ({
+  changes, initialIndex = 0, isApplying, baseHashes, reloadToken = 0, onCommit, onClose
+}) => {
+  const [reviews, setReviews] = useState<FileReview[] | null>(null);
+  const [selected, setSelected] = useState(initialIndex);
+  const [viewMode, setViewMode] = useState<'unified' | 'split'>('unified');
+  const [isEditing, setIsEditing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(changes.map(async (change): Promise<FileReview> => {
+      const verdict = writePolicy.check(change);
+      // Blocked paths may point outside the workspace, so don't even read them.
+      if (verdict.level === 'block') return { change, original: null, status: 'rejected', rejectedHunks: [], verdict };
+
+      const original = await fsService.tryReadFile(change.path);
+      const conflict = detectConflict(change.path, original, baseHashes);
+      // Conflicting and confirm-only files stay unselected until the user decides.
+      const status = conflict || verdict.level === 'confirm' ? 'rejected' : 'accepted';
+      const review: FileReview = { change, original, status, rejectedHunks: [], conflict, verdict };
+      if (change.action !== 'patch') return review;
+
+      const result = await fsService.applyPatch(change.path, change.hunks ?? [], original);
+      const sizeVerdict = writePolicy.checkContent(result.content);
+      if (sizeVerdict.level === 'block') return { ...review, patched: result.content, status: 'rejected', verdict: sizeVerdict };
+      if (result.failures.length === 0) return { ...review, patched: result.content };
+      // Show what did apply, but don't commit a partial patch unless the user edits it.
+      return { ...review, patched: result.content, patchError: describeFailures(change.path, result.failures), status: 'rejected' };
+    })).then(loaded => {
+      if (!cancelled) {
+        setReviews(loaded);
+        setLoadError(null);
+        setIsEditing(false);
+      }
+    }, err => {
+      if (!cancelled) setLoadError(err.message);
+    });
+    return () => { cancelled = true; };
+  }, [changes, reloadToken]);
+
+  const current = reviews?.[selected];
+
+  const { hunks } = useMemo(() => {
+    if (!current) return { hunks: [] };
+    const lines = diffLines(current.original ?? '', proposedContent(current));
+    return { hunks: buildHunks(lines) };
+  }, [current?.original, current?.change, current?.patched, current?.editedContent]);
+
+  const resolved = useMemo(
+    () => (reviews ?? []).map(resolveReview).filter((c): c is FileChange => c !== null),
+    [reviews]
+  );
+
+  const updateCurrent = (patch: Partial<FileReview>) => {
+    setReviews(prev => prev && prev.map((r, i) => (i === selected ? { ...r, ...patch } : r)));
+  };
+
+  const toggleHunk = (id: number) => {
+    if (!current) return;
+    const rejectedHunks = current.rejectedHunks.includes(id)
+      ? current.rejectedHunks.filter(h => h !== id)
+      : [...current.rejectedHunks, id];
+    updateCurrent({ rejectedHunks });
+  };
+
+  const startEditing = () => {
+    if (!current) return;
+    const resolvedChange = resolveReview({ ...current, status: 'accepted', patchError: undefined });
+    updateCurrent({ editedContent: resolvedChange ? resolvedChange.content : current.original ?? '', rejectedHunks: [], status: 'accepted' });
+    setIsEditing(true);
+  };
+
+  const resolveConflict = (resolution: ConflictResolution) => {
+    if (!current?.conflict) return;
+    const { base } = current.conflict;
+    setIsEditing(false);
+    if (resolution === 'disk') {
+      updateCurrent({ resolution, status: 'rejected', editedContent: undefined, rejectedHunks: [] });
+    } else if (resolution === 'ai') {
+      updateCurrent({ resolution, status: 'accepted', editedContent: undefined, rejectedHunks: [] });
+    } else if (resolution === 'base' && base !== null) {
+      updateCurrent({ resolution, status: 'accepted', editedContent: base, rejectedHunks: [] });
+    } else if (resolution === 'merge' && base !== null) {
+      const merged = merge3(base, current.original ?? '', proposedContent({ ...current, editedContent: undefined }), {
+        ours: 'mine (disk)',
+        theirs: 'AI proposal'
+      });
+      updateCurrent({ resolution, status: 'accepted', editedContent: merged.content, rejectedHunks: [] });
+      // Conflict markers have to be cleaned up by hand before committing.
+      if (merged.conflicts > 0) setIsEditing(true);
+    }
+  };
+
+  const commit = () => {
+    const expectedHashes: Record<string, string | null> = {};
+    for (const review of reviews ?? []) {
+      expectedHashes[review.change.path] = review.original === null ? null : hashContent(review.original);
+    }
+    onCommit(resolved, expectedHashes);
+  };
+
+  const selectFile = (index: number) => {
+    setSelected(index);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-950/95 backdrop-blur-sm flex flex-col">
+      <div className="h-12 border-b border-slate-800 flex items-center justify-between px-4 bg-slate-900">
+        <span className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Review Proposed Changes</span>
+        <X className="w-4 h-4 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+
+      {loadError ? (
+        <div className="flex-1 flex items-center justify-center text-amber-400 text-xs gap-2">
+          <AlertTriangle className="w-4 h-4" /> Could not read current files: {loadError}
+        </div>
+      ) : !reviews || !current ? (
+        <div className="flex-1 flex items-center justify-center text-slate-500 text-xs gap-2">
+          <Activity className="w-4 h-4 animate-spin" /> Reading current files...
+        </div>
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          {/* File list */}
+          <div className="w-64 border-r border-slate-800 overflow-y-auto p-2 space-y-0.5">
+            {reviews.map((review, i) => (
+              <div
+                key={review.change.path}
+                onClick={() => selectFile(i)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer text-[12px] ${i === selected ? 'bg-slate-800 text-slate-200' : 'text-slate-400 hover:bg-slate-800/50'}`}
+              >
+                {review.status === 'accepted'
+                  ? <Check className="w-3.5 h-3.5 shrink-0 text-emerald-500" />
+                  : <X className="w-3.5 h-3.5 shrink-0 text-red-500" />}
+                <span className={`truncate flex-1 font-mono ${review.status === 'rejected' ? 'line-through' : ''}`}>{review.change.path}</span>
+                {review.conflict && !review.resolution && <GitMerge className="w-3 h-3 shrink-0 text-amber-500" />}
+                {review.verdict.level !== 'allow' && (
+                  <ShieldAlert className={`w-3 h-3 shrink-0 ${review.verdict.level === 'block' ? 'text-red-500' : 'text-amber-500'}`} />
+                )}
+                <span className="text-[9px] uppercase text-slate-600">{review.change.action}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="h-10 border-b border-slate-800 flex items-center justify-between px-4 gap-2">
+              <div className="flex items-center gap-2 text-[12px] text-slate-300 min-w-0">
+                <FileCode className="w-3.5 h-3.5 text-blue-400 shrink-0" />
+                <span className="font-mono truncate">{current.change.path}</span>
+                {current.editedContent !== undefined && <span className="text-[9px] uppercase text-amber-500">edited</span>}
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setViewMode(viewMode === 'unified' ? 'split' : 'unified')}
+                  className="p-1.5 hover:bg-slate-800 rounded-md text-slate-400 hover:text-white"
+                  title={viewMode === 'unified' ? 'Side-by-side view' : 'Unified view'}
+                >
+                  {viewMode === 'unified' ? <Columns2 className="w-3.5 h-3.5" /> : <Rows3 className="w-3.5 h-3.5" />}
+                </button>
+                {current.change.action !== 'delete' && current.verdict.level !== 'block' && (
+                  <button
+                    onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+                    className={`p-1.5 hover:bg-slate-800 rounded-md ${isEditing ? 'text-amber-400' : 'text-slate-400 hover:text-white'}`}
+                    title={isEditing ? 'Back to diff' : 'Edit before committing'}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => updateCurrent({ status: 'accepted' })}
+                  disabled={current.verdict.level === 'block' || (!!current.patchError && current.editedContent === undefined)}
+                  className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase ${current.status === 'accepted' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => updateCurrent({ status: 'rejected' })}
+                  className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase ${current.status === 'rejected' ? 'bg-red-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+
+            {current.verdict.level !== 'allow' && (
+              <div className={`flex items-center gap-2 px-4 py-2 border-b text-[11px] ${current.verdict.level === 'block' ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-amber-500/10 border-amber-500/20 text-amber-400'}`}>
+                <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+                <span>
+                  {current.verdict.reason}.
+                  {current.verdict.level === 'block' ? ' This change cannot be written.' : ' Accept it explicitly to include it in the commit.'}
+                </span>
+              </div>
+            )}
+
+            {current.conflict && (
+              <div className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 border-b border-amber-500/20 text-[11px] text-amber-400">
+                <GitMerge className="w-3.5 h-3.5 shrink-0" />
+                <span className="flex-1">
+                  {current.original === null ? 'Deleted' : 'Changed'} on disk since the AI read it.
+                  {current.conflict.base === null && ' The version the AI saw is no longer available, so only a two-way choice is possible.'}
+                </span>
+                {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[])
+                  .filter(r => current.conflict!.base !== null || r === 'disk' || r === 'ai')
+                  .filter(r => current.change.action !== 'delete' || r === 'disk' || r === 'ai')
+                  .map(r => (
+                    <button
+                      key={r}
+                      onClick={() => resolveConflict(r)}
+                      className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase ${current.resolution === r ? 'bg-amber-600 text-white' : 'hover:bg-amber-500/20'}`}
+                    >
+                      {RESOLUTION_LABELS[r]}
+                    </button>
+                  ))}
+              </div>
+            )}
+
+            {current.patchError && current.editedContent === undefined && (
+              <div className="flex items-start gap-2 px-4 py-2 bg-amber-500/10 border-b border-amber-500/20 text-[11px] text-amber-400">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                <span>{current.patchError}. Edit the file to fix it up before committing.</span>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto">
+              {isEditing ? (
+                <textarea
+                  className="w-full h-full p-6 bg-transparent outline-none code-font text-[13px] leading-relaxed resize-none text-slate-300"
+                  value={current.editedContent ?? ''}
+                  onChange={(e) => updateCurrent({ editedContent: e.target.value })}
+                  spellCheck={false}
+                />
+              ) : (
+                <DiffViewer
+                  hunks={hunks}
+                  mode={viewMode}
+                  rejectedHunks={current.rejectedHunks}
+                  onToggleHunk={current.change.action === 'delete' || current.status === 'rejected' ? undefined : toggleHunk}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="h-14 border-t border-slate-800 flex items-center justify-end gap-3 px-4 bg-slate-900">
+        <span className="text-[11px] text-slate-500">{resolved.length} of {changes.length} files will be written</span>
+        <button
+          disabled={!reviews || !!loadError || isApplying || resolved.length === 0}
+          onClick={commit}
+          className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 px-5 py-2 rounded-lg text-xs font-bold flex items-center gap-2"
+        >
+          {isApplying ? <Activity className="w-4 h-4 animate-spin" /> : <>Commit to Disk <Rocket className="w-3.5 h-3.5" /></>}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { detectLanguage, tokenize, TokenType } from '../utils/syntax';
+
+interface CodeEditorProps {
+  path: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSave: () => void;
+  // Scrolls to and selects a range (1-based line/column); change nonce to reveal the same spot again
+  reveal?: { line: number; column: number; length: number; nonce: number };
+  // Ctrl/Cmd+K with the selection's character offsets
+  onInlineEdit?: (start: number, end: number) => void;
+  // Shown below the line where `offset` falls; the text is read-only meanwhile
+  widget?: { offset: number; content: React.ReactNode };
+}
+
+const tokenClass: Record<TokenType, string> = {
+  comment: 'text-slate-600 italic',
+  string: 'text-amber-300',
+  keyword: 'text-fuchsia-400',
+  number: 'text-orange-400',
+  tag: 'text-sky-400',
+  attr: 'text-emerald-400',
+  punctuation: 'text-slate-500',
+  heading: 'text-sky-300 font-bold',
+  plain: 'text-slate-300'
+};
+
+// Shared by the highlight layer and the textarea so glyphs line up exactly.
+const textLayout = 'code-font text-[14px] leading-[1.7] whitespace-pre p-6 pl-4 m-0';
+// The same layout in pixels, for placing the widget: 14px × 1.7 per line, p-6 above
+const LINE_HEIGHT_PX = 23.8;
+const PADDING_TOP_PX = 24;
+
+/**
+ * Plain textarea layered over a highlighted <pre>. Both sit in one scroll container and
+ * never wrap, so they stay aligned without any scroll syncing.
+ */
+export const CodeEditor: React.FC<CodeEditorProps> = ({ path, value, onChange, onSave, reveal, onInlineEdit, widget }) => {
+  const language = useMemo(() => detectLanguage(path), [path]);
+  const tokens = useMemo(() => tokenize(value, language), [value, language]);
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const container = scrollRef.current;
+    if (!reveal || !textarea || !container) return;
+
+    const lines = value.split('\n');
+    const line = Math.min(Math.max(reveal.line, 1), lines.length);
+    let offset = 0;
+    for (let i = 0; i < line - 1; i++) offset += lines[i].length + 1;
+    offset += Math.min(reveal.column - 1, lines[line - 1].length);
+
+    // The textarea never scrolls itself, so position the shared container by line height.
+    const style = getComputedStyle(textarea);
+    const lineHeight = parseFloat(style.lineHeight);
+    container.scrollTop = (line - 1) * lineHeight + parseFloat(style.paddingTop) - container.clientHeight / 3;
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(offset, offset + reveal.length);
+  }, [reveal?.nonce]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave();
+    } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k' && onInlineEdit) {
+      e.preventDefault();
+      onInlineEdit(e.currentTarget.selectionStart, e.currentTarget.selectionEnd);
+    } else if (e.key === 'Tab' && !e.shiftKey && !widget) {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+      requestAnimationFrame(() => {
+        el.selectionStart = el.selectionEnd = selectionStart + 2;
+      });
+    }
+  };
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-auto relative">
+      <div className="flex min-h-full w-max min-w-full">
+        <div className={`${textLayout} pr-3 text-right text-slate-700 select-none sticky left-0 bg-slate-950 z-10`} aria-hidden>
+          {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+        </div>
+        <div className="relative flex-1">
+          <pre className={textLayout} aria-hidden>
+            {tokens.map((token, i) => <span key={i} className={tokenClass[token.type]}>{token.text}</span>)}
+            {/* Keeps a trailing newline visible so the caret has a line to sit on */}
+            {'\n'}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            readOnly={!!widget}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            className={`${textLayout} absolute inset-0 w-full h-full bg-transparent text-transparent caret-slate-200 outline-none resize-none overflow-hidden selection:bg-emerald-500/30`}
+          />
+          {widget && (
+            <div
+              className="absolute left-4 z-20"
+              style={{ top: PADDING_TOP_PX + value.slice(0, widget.offset).split('\n').length * LINE_HEIGHT_PX + 4 }}
+            >
+              {widget.content}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+
+import React, { useRef, useState } from 'react';
+import { X, Pencil, Trash2, FileJson, FileText, Upload, Check } from 'lucide-react';
+import { conversationToJson, conversationToMarkdown } from '../utils/conversationExport';
+import { SavedConversation } from '../types';
+
+interface ConversationsPanelProps {
+  conversations: SavedConversation[];
+  activeId: string | null;
+  disabled: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+function download(fileName: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'conversation';
+}
+
+export const ConversationsPanel: React.FC<ConversationsPanelProps> = ({
+  conversations, activeId, disabled, onOpen, onRename, onDelete, onImport, onClose
+}) => {
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commitRename = () => {
+    if (renaming && renaming.title.trim()) onRename(renaming.id, renaming.title.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="p-4 border-b border-slate-800 bg-slate-950/60 space-y-2 max-h-80 flex flex-col">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Conversations</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-white disabled:opacity-30"
+            title="Import a conversation exported as JSON or Markdown"
+          >
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.md,.markdown,application/json,text/markdown"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="overflow-y-auto space-y-0.5 scrollbar-thin">
+        {conversations.length === 0 && (
+          <p className="text-[11px] text-slate-600 py-2">No saved conversations for this workspace yet.</p>
+        )}
+        {conversations.map(c => (
+          <div
+            key={c.id}
+            className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg text-[12px] ${c.id === activeId ? 'bg-slate-800 text-slate-200' : 'text-slate-400 hover:bg-slate-800/50'}`}
+          >
+            {renaming?.id === c.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={renaming.title}
+                  onChange={(e) => setRenaming({ id: c.id, title: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-[12px] focus:outline-none"
+                />
+                <Check className="w-3.5 h-3.5 cursor-pointer text-emerald-500" onClick={commitRename} />
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => onOpen(c.id)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                >
+                  <div className="truncate">{c.title}</div>
+                  <div className="text-[10px] text-slate-600">
+                    {c.messages.length} messages · {new Date(c.updatedAt).toLocaleString()}
+                  </div>
+                </button>
+                <div className="flex items-center gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity text-slate-500">
+                  <Pencil className="w-3 h-3 cursor-pointer hover:text-white" onClick={() => setRenaming({ id: c.id, title: c.title })} />
+                  <FileJson
+                    className="w-3 h-3 cursor-pointer hover:text-white"
+                    onClick={() => download(`${fileSlug(c.title)}.json`, conversationToJson(c), 'application/json')}
+                  />
+                  <FileText
+                    className="w-3 h-3 cursor-pointer hover:text-white"
+                    onClick={() => download(`${fileSlug(c.title)}.md`, conversationToMarkdown(c), 'text/markdown')}
+                  />
+                  <Trash2
+                    className="w-3 h-3 cursor-pointer hover:text-red-400"
+                    onClick={() => window.confirm(`Delete "${c.title}"?`) && onDelete(c.id)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
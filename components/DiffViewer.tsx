@@ -0,0 +1,114 @@
+
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { DiffLine, DiffHunk } from '../types';
+
+interface DiffViewerProps {
+  hunks: DiffHunk[];
+  mode: 'unified' | 'split';
+  rejectedHunks: number[];
+  onToggleHunk?: (id: number) => void;
+}
+
+const lineClass: Record<DiffLine['type'], string> = {
+  context: 'text-slate-400',
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300'
+};
+
+const linePrefix: Record<DiffLine['type'], string> = {
+  context: ' ',
+  added: '+',
+  removed: '-'
+};
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({ hunks, mode, rejectedHunks, onToggleHunk }) => {
+  if (hunks.length === 0) {
+    return <div className="p-8 text-center text-xs text-slate-500">No differences from the file on disk.</div>;
+  }
+
+  return (
+    <div className="code-font text-[12px] leading-relaxed">
+      {hunks.map(hunk => {
+        const isRejected = rejectedHunks.includes(hunk.id);
+        return (
+          <div key={hunk.id} className={`border-b border-slate-800 ${isRejected ? 'opacity-40' : ''}`}>
+            <div className="flex items-center justify-between px-4 py-1.5 bg-slate-800/40 text-[10px] text-slate-500 sticky top-0">
+              <span>@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</span>
+              {onToggleHunk && (
+                <button
+                  onClick={() => onToggleHunk(hunk.id)}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded font-bold uppercase ${isRejected ? 'text-red-400 hover:text-red-300' : 'text-emerald-400 hover:text-emerald-300'}`}
+                >
+                  {isRejected ? <X className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                  {isRejected ? 'Rejected' : 'Accepted'}
+                </button>
+              )}
+            </div>
+            {mode === 'unified' ? <UnifiedHunk hunk={hunk} /> : <SplitHunk hunk={hunk} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const UnifiedHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => (
+  <div>
+    {hunk.lines.map((line, i) => (
+      <div key={i} className={`flex ${lineClass[line.type]}`}>
+        <span className="w-10 shrink-0 text-right pr-2 text-slate-700 select-none">{line.oldNumber ?? ''}</span>
+        <span className="w-10 shrink-0 text-right pr-2 text-slate-700 select-none">{line.newNumber ?? ''}</span>
+        <span className="w-4 shrink-0 select-none">{linePrefix[line.type]}</span>
+        <span className="whitespace-pre-wrap break-all flex-1">{line.text}</span>
+      </div>
+    ))}
+  </div>
+);
+
+type SplitRow = { left?: DiffLine; right?: DiffLine };
+
+function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') removed.push(line);
+    else if (line.type === 'added') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
+const SplitCell: React.FC<{ line?: DiffLine; side: 'left' | 'right' }> = ({ line, side }) => (
+  <div className={`flex flex-1 min-w-0 ${line ? lineClass[line.type] : 'bg-slate-900/60'}`}>
+    <span className="w-10 shrink-0 text-right pr-2 text-slate-700 select-none">
+      {line ? (side === 'left' ? line.oldNumber : line.newNumber) : ''}
+    </span>
+    <span className="whitespace-pre-wrap break-all flex-1">{line?.text ?? ''}</span>
+  </div>
+);
+
+const SplitHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => (
+  <div>
+    {toSplitRows(hunk.lines).map((row, i) => (
+      <div key={i} className="flex divide-x divide-slate-800">
+        <SplitCell line={row.left} side="left" />
+        <SplitCell line={row.right} side="right" />
+      </div>
+    ))}
+  </div>
+);
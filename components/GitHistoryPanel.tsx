@@ -0,0 +1,106 @@
+
+import React, { useEffect, useState } from 'react';
+import { Activity, GitBranch, GitCommitHorizontal, Undo2, Wand2 } from 'lucide-react';
+import { gitService } from '../services/gitService';
+import { GitCommit, GitSettings, GitStatus } from '../types';
+
+interface GitHistoryPanelProps {
+  status: GitStatus | null;
+  settings: GitSettings;
+  // Bumped by the parent after commits, reverts and branch switches so the log reloads
+  refreshToken: number;
+  onSettingsChange: (patch: Partial<GitSettings>) => void;
+  onRevert: (commit: GitCommit) => void;
+}
+
+function timeAgo(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
+export const GitHistoryPanel: React.FC<GitHistoryPanelProps> = ({ status, settings, refreshToken, onSettingsChange, onRevert }) => {
+  const [commits, setCommits] = useState<GitCommit[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!status?.isRepo) return;
+    let cancelled = false;
+    gitService.log().then(
+      log => { if (!cancelled) { setCommits(log); setError(null); } },
+      err => { if (!cancelled) setError(err.message); }
+    );
+    return () => { cancelled = true; };
+  }, [status?.isRepo, status?.branch, refreshToken]);
+
+  if (!status?.isRepo) {
+    return (
+      <div className="p-6 text-center text-xs text-slate-500">
+        {status ? 'The workspace is not a git repository.' : 'Git history needs the local bridge.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="p-3 border-b border-slate-800 space-y-2">
+        <div className="flex items-center gap-1.5 text-[11px] text-slate-300 font-mono">
+          <GitBranch className="w-3.5 h-3.5 text-emerald-500" />
+          {status.branch ?? '(detached HEAD)'}
+        </div>
+        <label className="flex items-center gap-2 text-[12px] text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.autoCommit}
+            onChange={(e) => onSettingsChange({ autoCommit: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          Commit each applied change set
+        </label>
+        <label className="flex items-center gap-2 text-[12px] text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.branchPerTask}
+            onChange={(e) => onSettingsChange({ branchPerTask: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          New branch for each conversation
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+        {error && <p className="p-2 text-[11px] text-amber-500">{error}</p>}
+        {!commits && !error && (
+          <div className="flex items-center justify-center gap-2 p-6 text-xs text-slate-500">
+            <Activity className="w-4 h-4 animate-spin" /> Loading history...
+          </div>
+        )}
+        {commits?.length === 0 && <p className="p-6 text-center text-xs text-slate-500">No commits yet.</p>}
+        {commits?.map(commit => (
+          <div key={commit.sha} className="group flex items-start gap-2 px-3 py-2 rounded-lg hover:bg-slate-800/50">
+            {commit.changeSetId
+              ? <Wand2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-emerald-500" />
+              : <GitCommitHorizontal className="w-3.5 h-3.5 mt-0.5 shrink-0 text-slate-600" />}
+            <div className="flex-1 min-w-0">
+              <div className="text-[12px] text-slate-300 truncate" title={commit.subject}>{commit.subject}</div>
+              <div className="text-[10px] text-slate-600 font-mono">
+                {commit.sha.slice(0, 7)} · {commit.author} · {timeAgo(commit.timestamp)}
+              </div>
+            </div>
+            {commit.changeSetId && (
+              <button
+                onClick={() => onRevert(commit)}
+                className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-slate-700 opacity-0 group-hover:opacity-100"
+                title="Revert this AI commit"
+              >
+                <Undo2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { DEFAULT_IGNORE_PATTERNS } from '../services/fileSystemService';
+
+interface IgnoreRulesPanelProps {
+  patterns: string[];
+  onSave: (patterns: string[]) => void;
+  onClose: () => void;
+}
+
+export const IgnoreRulesPanel: React.FC<IgnoreRulesPanelProps> = ({ patterns, onSave, onClose }) => {
+  const [text, setText] = useState(patterns.join('\n'));
+
+  return (
+    <div className="p-3 border-b border-slate-800 bg-slate-950/60 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Ignore Rules</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        One .gitignore-style pattern per line. The workspace's root .gitignore is always applied as well.
+      </p>
+      <textarea
+        rows={6}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 code-font text-[11px] text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 resize-none"
+      />
+      <div className="flex justify-between">
+        <button onClick={() => setText(DEFAULT_IGNORE_PATTERNS.join('\n'))} className="text-[10px] text-slate-500 hover:text-white underline decoration-slate-700">
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => onSave(text.split('\n').map(l => l.trim()).filter(Boolean))}
+          className="bg-emerald-600 hover:bg-emerald-500 px-3 py-1 rounded-md text-[10px] font-bold"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
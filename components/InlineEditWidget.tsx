@@ -0,0 +1,109 @@
+
+import React, { useMemo } from 'react';
+import { Activity, Check, Sparkles, X } from 'lucide-react';
+import { diffLines } from '../utils/diff';
+import { DiffLine } from '../types';
+
+export interface InlineEditState {
+  path: string;
+  // Character offsets of the selection in the tab's content; equal for an insert at the cursor
+  start: number;
+  end: number;
+  original: string;
+  instruction: string;
+  status: 'prompt' | 'loading' | 'review';
+  replacement?: string;
+  error?: string;
+}
+
+interface InlineEditWidgetProps {
+  edit: InlineEditState;
+  onInstructionChange: (instruction: string) => void;
+  onSubmit: () => void;
+  onAccept: () => void;
+  // Discards the edit, or cancels the request while it runs
+  onClose: () => void;
+  onRevise: () => void;
+}
+
+const lineClass: Record<DiffLine['type'], string> = {
+  context: 'text-slate-500',
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300'
+};
+
+const linePrefix: Record<DiffLine['type'], string> = { context: ' ', added: '+', removed: '-' };
+
+/** Instruction box and inline diff for an AI edit of the editor selection, shown under it. */
+export const InlineEditWidget: React.FC<InlineEditWidgetProps> = ({ edit, onInstructionChange, onSubmit, onAccept, onClose, onRevise }) => {
+  const lines = useMemo(
+    () => (edit.replacement === undefined ? [] : diffLines(edit.original, edit.replacement)),
+    [edit.original, edit.replacement]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter' && !e.shiftKey && edit.status === 'review') {
+      e.preventDefault();
+      onAccept();
+    }
+  };
+
+  return (
+    <div
+      tabIndex={-1}
+      ref={(el) => { if (el && edit.status === 'review') el.focus({ preventScroll: true }); }}
+      onKeyDown={handleKeyDown}
+      className="w-[560px] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden outline-none"
+    >
+      {edit.status === 'review' ? (
+        <>
+          <div className="px-3 py-1.5 flex items-center gap-2 border-b border-slate-800 text-[11px] text-slate-400">
+            <Sparkles className="w-3.5 h-3.5 text-emerald-500 shrink-0" />
+            <span className="flex-1 truncate">{edit.instruction}</span>
+          </div>
+          <pre className="code-font text-[12px] leading-relaxed max-h-64 overflow-auto py-1">
+            {lines.map((line, i) => (
+              <div key={i} className={`px-3 ${lineClass[line.type]}`}>{linePrefix[line.type]} {line.text}</div>
+            ))}
+          </pre>
+          <div className="flex items-center gap-2 px-3 py-1.5 border-t border-slate-800">
+            <button onClick={onAccept} className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-500 px-2.5 py-1 rounded-md text-[11px] font-bold">
+              <Check className="w-3 h-3" /> Accept <span className="font-normal opacity-70">Enter</span>
+            </button>
+            <button onClick={onClose} className="flex items-center gap-1 px-2.5 py-1 rounded-md text-[11px] font-bold text-slate-300 hover:bg-slate-800">
+              <X className="w-3 h-3" /> Reject <span className="font-normal opacity-70">Esc</span>
+            </button>
+            <button onClick={onRevise} className="ml-auto text-[11px] text-slate-500 hover:text-white">
+              Change instruction
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center gap-2 px-3 py-2">
+          {edit.status === 'loading'
+            ? <Activity className="w-3.5 h-3.5 text-emerald-500 animate-spin shrink-0" />
+            : <Sparkles className="w-3.5 h-3.5 text-emerald-500 shrink-0" />}
+          <input
+            autoFocus
+            value={edit.instruction}
+            onChange={(e) => onInstructionChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && edit.instruction.trim() && edit.status === 'prompt') {
+                e.preventDefault();
+                onSubmit();
+              }
+            }}
+            disabled={edit.status === 'loading'}
+            placeholder={edit.start === edit.end ? 'Describe the code to insert here...' : 'Edit selection: e.g. add error handling'}
+            className="flex-1 bg-transparent text-[12px] text-slate-200 placeholder:text-slate-600 focus:outline-none disabled:opacity-60"
+          />
+          <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white shrink-0" onClick={onClose} />
+        </div>
+      )}
+      {edit.error && <p className="px-3 pb-2 text-[11px] text-red-400">{edit.error}</p>}
+    </div>
+  );
+};
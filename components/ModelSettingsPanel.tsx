@@ -0,0 +1,112 @@
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { providers } from '../services/aiService';
+import { ModelSettings, ProviderId } from '../types';
+
+interface ModelSettingsPanelProps {
+  settings: ModelSettings;
+  onChange: (patch: Partial<ModelSettings>) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1';
+
+export const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const provider = providers[settings.provider];
+
+  const selectProvider = (id: ProviderId) => {
+    onChange({ provider: id, model: providers[id].defaultModel, baseUrl: undefined, apiKey: undefined });
+  };
+
+  return (
+    <div className="p-5 border-b border-slate-800 bg-slate-950/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Model Settings</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+
+      <div>
+        <label className={labelClass}>Provider</label>
+        <select value={settings.provider} onChange={(e) => selectProvider(e.target.value as ProviderId)} className={inputClass}>
+          {Object.values(providers).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClass}>Model</label>
+        <input
+          list="model-suggestions"
+          value={settings.model}
+          onChange={(e) => onChange({ model: e.target.value })}
+          className={inputClass}
+        />
+        <datalist id="model-suggestions">
+          {provider.suggestedModels.map(m => <option key={m} value={m} />)}
+        </datalist>
+      </div>
+
+      <div>
+        <label className={labelClass}>Temperature: {settings.temperature.toFixed(1)}</label>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings.temperature}
+          onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+          className="w-full accent-emerald-500"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-[12px] text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.useTools !== false}
+          onChange={(e) => onChange({ useTools: e.target.checked })}
+          className="accent-emerald-500"
+        />
+        Let the model read and search files itself (tool calling)
+      </label>
+
+      {settings.provider === 'gemini' && (
+        <div>
+          <label className={labelClass}>Thinking budget (tokens)</label>
+          <input
+            type="number"
+            min={0}
+            step={500}
+            value={settings.thinkingBudget}
+            onChange={(e) => onChange({ thinkingBudget: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {(settings.provider === 'openai' || settings.provider === 'ollama') && (
+        <div>
+          <label className={labelClass}>Base URL</label>
+          <input
+            value={settings.baseUrl ?? ''}
+            placeholder={settings.provider === 'openai' ? 'https://api.openai.com/v1' : 'http://localhost:11434'}
+            onChange={(e) => onChange({ baseUrl: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {(settings.provider === 'openai' || settings.provider === 'gemini') && (
+        <div>
+          <label className={labelClass}>API key {settings.provider === 'gemini' && '(defaults to GEMINI_API_KEY)'}</label>
+          <input
+            type="password"
+            value={settings.apiKey ?? ''}
+            onChange={(e) => onChange({ apiKey: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
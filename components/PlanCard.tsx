@@ -0,0 +1,166 @@
+
+import React from 'react';
+import { Activity, ArrowDown, ArrowUp, CheckCircle2, Circle, CircleDot, ListChecks, Pause, Play, Plus, SkipForward, Trash2 } from 'lucide-react';
+import { isSettled, newPlanStep, proposedStep } from '../utils/plan';
+import { PlanStep, TaskPlan } from '../types';
+
+interface PlanCardProps {
+  plan: TaskPlan;
+  // One of this plan's steps is being requested right now
+  active: boolean;
+  // Another request is in flight
+  busy: boolean;
+  onChange: (plan: TaskPlan) => void;
+  onRun: () => void;
+  onPause: () => void;
+  onSkip: (stepId: string) => void;
+}
+
+const inputClass = 'w-full bg-slate-900 border border-slate-800 rounded-md px-2 py-1 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+
+function StatusIcon({ step, active }: { step: PlanStep; active: boolean }) {
+  if (step.status === 'running' && active) return <Activity className="w-3.5 h-3.5 shrink-0 animate-spin text-emerald-400" />;
+  if (step.status === 'proposed') return <CircleDot className="w-3.5 h-3.5 shrink-0 text-amber-400" />;
+  if (step.status === 'done') return <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-emerald-500" />;
+  if (step.status === 'skipped') return <SkipForward className="w-3.5 h-3.5 shrink-0 text-slate-600" />;
+  return <Circle className="w-3.5 h-3.5 shrink-0 text-slate-600" />;
+}
+
+/**
+ * Plan mode: the proposed steps, editable until they run, with the controls to run the
+ * plan one step at a time. A running plan continues by itself once a step's changes are
+ * committed; one interrupted by a reload or an error shows Resume.
+ */
+export const PlanCard: React.FC<PlanCardProps> = ({ plan, active, busy, onChange, onRun, onPause, onSkip }) => {
+  const updateStep = (id: string, patch: Partial<PlanStep>) => {
+    onChange({ ...plan, steps: plan.steps.map(s => (s.id === id ? { ...s, ...patch } : s)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...plan.steps];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    onChange({ ...plan, steps });
+  };
+
+  const settled = plan.steps.filter(isSettled).length;
+  const waiting = proposedStep(plan);
+  const canEdit = !active && plan.status !== 'done';
+  const runnable = plan.steps.some(s => !isSettled(s)) && plan.steps.every(s => s.title.trim());
+  const continues = plan.status === 'running' && (active || !!waiting);
+
+  return (
+    <div className="mt-4 w-full bg-slate-950 rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="bg-slate-800/50 px-4 py-2 text-[10px] font-black uppercase tracking-widest flex items-center justify-between border-b border-slate-800 text-slate-400">
+        <span className="flex items-center gap-1.5"><ListChecks className="w-3.5 h-3.5" /> Plan</span>
+        <span className={plan.status === 'done' ? 'text-emerald-500' : 'text-slate-500'}>
+          {settled}/{plan.steps.length} steps{plan.status === 'paused' ? ' · paused' : ''}
+        </span>
+      </div>
+
+      <div className="p-3 space-y-2 max-h-96 overflow-y-auto">
+        {plan.steps.map((step, i) => {
+          const editable = canEdit && (step.status === 'pending' || step.status === 'running');
+          return (
+            <div key={step.id} className="flex gap-2 text-[11px]">
+              <div className="pt-1"><StatusIcon step={step} active={active} /></div>
+              <div className="flex-1 min-w-0 space-y-1">
+                {editable ? (
+                  <>
+                    <input
+                      value={step.title}
+                      onChange={(e) => updateStep(step.id, { title: e.target.value })}
+                      placeholder={`Step ${i + 1}`}
+                      className={`${inputClass} font-medium`}
+                    />
+                    <textarea
+                      rows={2}
+                      value={step.description}
+                      onChange={(e) => updateStep(step.id, { description: e.target.value })}
+                      placeholder="What this step does"
+                      className={`${inputClass} resize-none text-[11px]`}
+                    />
+                    <input
+                      key={`${step.id}-${step.files.join(',')}`}
+                      defaultValue={step.files.join(', ')}
+                      onBlur={(e) => updateStep(step.id, { files: e.target.value.split(',').map(f => f.trim()).filter(Boolean) })}
+                      placeholder="Files, comma-separated"
+                      spellCheck={false}
+                      className={`${inputClass} font-mono text-[10px]`}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <div className={`font-medium ${step.status === 'skipped' ? 'line-through text-slate-600' : 'text-slate-200'}`}>
+                      {i + 1}. {step.title}
+                    </div>
+                    {step.description && <div className="text-slate-500 whitespace-pre-wrap">{step.description}</div>}
+                    {step.files.length > 0 && (
+                      <div className="font-mono text-[10px] text-slate-500 truncate" title={step.files.join('\n')}>{step.files.join(', ')}</div>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="flex flex-col gap-1 pt-1 text-slate-500">
+                {editable && (
+                  <>
+                    {i > 0 && plan.steps[i - 1].status === 'pending' && (
+                      <ArrowUp className="w-3 h-3 cursor-pointer hover:text-white" onClick={() => moveStep(i, -1)} />
+                    )}
+                    {i < plan.steps.length - 1 && plan.steps[i + 1].status === 'pending' && (
+                      <ArrowDown className="w-3 h-3 cursor-pointer hover:text-white" onClick={() => moveStep(i, 1)} />
+                    )}
+                    <Trash2
+                      className="w-3 h-3 cursor-pointer hover:text-red-400"
+                      onClick={() => onChange({ ...plan, steps: plan.steps.filter(s => s.id !== step.id) })}
+                    />
+                  </>
+                )}
+                {plan.status !== 'draft' && (step.status === 'proposed' || editable) && (
+                  <SkipForward className="w-3 h-3 cursor-pointer hover:text-white" onClick={() => onSkip(step.id)}>
+                    <title>Skip this step</title>
+                  </SkipForward>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {waiting && plan.status !== 'done' && (
+        <p className="px-4 pb-2 text-[10px] text-amber-500">
+          Commit or skip step {plan.steps.indexOf(waiting) + 1} to continue.
+        </p>
+      )}
+
+      {plan.status !== 'done' && (
+        <div className="flex border-t border-slate-800">
+          {canEdit && (
+            <button
+              onClick={() => onChange({ ...plan, steps: [...plan.steps, newPlanStep()] })}
+              className="flex-1 py-2 text-[11px] font-bold text-slate-400 hover:text-slate-200 hover:bg-slate-800/50 flex items-center justify-center gap-1.5"
+            >
+              <Plus className="w-3.5 h-3.5" /> Add Step
+            </button>
+          )}
+          {continues || active ? (
+            <button
+              onClick={onPause}
+              disabled={plan.status === 'paused'}
+              className="flex-1 py-2.5 text-[11px] font-bold text-slate-300 hover:bg-slate-800/50 disabled:opacity-40 flex items-center justify-center gap-1.5"
+            >
+              <Pause className="w-3.5 h-3.5" /> {plan.status === 'paused' ? 'Pausing after this step' : 'Pause'}
+            </button>
+          ) : (
+            <button
+              onClick={onRun}
+              disabled={busy || !runnable}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 py-2.5 text-[11px] font-bold flex items-center justify-center gap-1.5"
+            >
+              <Play className="w-3.5 h-3.5" /> {plan.status === 'draft' ? 'Run Plan' : 'Resume'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
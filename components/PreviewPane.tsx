@@ -0,0 +1,116 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity, AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { fsService } from '../services/fileSystemService';
+import { PreviewBuilder, PREVIEW_MESSAGE_KEY, resolveReference } from '../services/previewService';
+import { FileChange } from '../types';
+
+export interface PreviewOverlay {
+  changes: FileChange[];
+  label: string;
+}
+
+interface PreviewPaneProps {
+  entry: string;
+  // Proposed changes shown in place of the files on disk, before they are committed
+  overlay: PreviewOverlay | null;
+  // Bumped by the parent whenever the workspace changes so the page rebuilds
+  reloadToken: number;
+  onEntryChange: (entry: string) => void;
+  onClearOverlay: () => void;
+}
+
+const isHtml = (path: string) => /\.html?$/i.test(path);
+
+export const PreviewPane: React.FC<PreviewPaneProps> = ({ entry, overlay, reloadToken, onEntryChange, onClearOverlay }) => {
+  const [htmlFiles, setHtmlFiles] = useState<string[]>([]);
+  const [srcDoc, setSrcDoc] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [nonce, setNonce] = useState(0);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fsService.listFiles().then(files => {
+      if (cancelled) return;
+      const created = overlay?.changes.filter(c => c.action !== 'delete').map(c => c.path) ?? [];
+      setHtmlFiles(Array.from(new Set([...files, ...created])).filter(isHtml).sort());
+    }).catch(() => {
+      if (!cancelled) setHtmlFiles([]);
+    });
+    return () => { cancelled = true; };
+  }, [overlay, reloadToken]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsBuilding(true);
+    (async () => {
+      const builder = overlay ? await PreviewBuilder.fromChanges(overlay.changes) : new PreviewBuilder();
+      return builder.build(entry);
+    })().then(
+      html => { if (!cancelled) { setSrcDoc(html); setError(null); } },
+      err => { if (!cancelled) { setSrcDoc(null); setError(err.message); } }
+    ).finally(() => { if (!cancelled) setIsBuilding(false); });
+    return () => { cancelled = true; };
+  }, [entry, overlay, reloadToken, nonce]);
+
+  // Relative links clicked inside the page open the linked workspace file here.
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== iframeRef.current?.contentWindow || e.data?.[PREVIEW_MESSAGE_KEY] !== 'navigate') return;
+      const target = resolveReference(entry.split('/').slice(0, -1).join('/'), String(e.data.href));
+      if (target) onEntryChange(isHtml(target) ? target : `${target.replace(/\/$/, '')}/index.html`);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [entry, onEntryChange]);
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900">
+      <div className="h-9 flex items-center gap-2 px-3 border-b border-slate-800 text-[11px]">
+        <select
+          value={entry}
+          onChange={(e) => onEntryChange(e.target.value)}
+          className="bg-slate-950 border border-slate-800 rounded-md px-2 py-0.5 font-mono text-slate-300 focus:outline-none"
+        >
+          {!htmlFiles.includes(entry) && <option value={entry}>{entry}</option>}
+          {htmlFiles.map(path => <option key={path} value={path}>{path}</option>)}
+        </select>
+        <button
+          onClick={() => setNonce(n => n + 1)}
+          className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-800"
+          title="Reload preview"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isBuilding ? 'animate-spin' : ''}`} />
+        </button>
+        {overlay && (
+          <span className="ml-auto flex items-center gap-2 px-2 py-0.5 rounded-md bg-amber-500/10 text-amber-400">
+            Proposed changes, not yet written: {overlay.label}
+            <X className="w-3 h-3 cursor-pointer hover:text-white" onClick={onClearOverlay} />
+          </span>
+        )}
+      </div>
+      <div className="flex-1 relative bg-white">
+        {error ? (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 bg-slate-950 text-xs text-amber-500">
+            <AlertTriangle className="w-4 h-4" /> {error}
+          </div>
+        ) : srcDoc === null ? (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 bg-slate-950 text-xs text-slate-500">
+            <Activity className="w-4 h-4 animate-spin" /> Building preview...
+          </div>
+        ) : (
+          // No allow-same-origin: the page can run scripts but can't reach the app, its storage or the bridge token
+          <iframe
+            ref={iframeRef}
+            srcDoc={srcDoc}
+            sandbox="allow-scripts allow-forms allow-modals allow-popups"
+            title="Preview"
+            className="absolute inset-0 w-full h-full border-0"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
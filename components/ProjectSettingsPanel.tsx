@@ -0,0 +1,136 @@
+
+import React, { useState } from 'react';
+import { FileText, Plus, Trash2, X } from 'lucide-react';
+import { RULES_PATH } from '../services/projectRules';
+import { DEFAULT_PROMPT_TEMPLATES, isValidCommand } from '../services/promptTemplates';
+import { ProjectPreferences, PromptTemplate } from '../types';
+
+interface ProjectSettingsPanelProps {
+  preferences: ProjectPreferences;
+  templates: PromptTemplate[];
+  // False until a workspace is mounted; preferences are saved with it
+  hasWorkspace: boolean;
+  onPreferencesChange: (patch: Partial<ProjectPreferences>) => void;
+  onSaveTemplates: (templates: PromptTemplate[]) => void;
+  onEditRules: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1';
+
+const PREFERENCE_FIELDS: { key: keyof ProjectPreferences; label: string; placeholder: string }[] = [
+  { key: 'language', label: 'Language', placeholder: 'TypeScript' },
+  { key: 'framework', label: 'Framework', placeholder: 'React 19 + Tailwind' },
+  { key: 'style', label: 'Code Style', placeholder: 'Functional components, no default exports' }
+];
+
+export const ProjectSettingsPanel: React.FC<ProjectSettingsPanelProps> = ({
+  preferences, templates, hasWorkspace, onPreferencesChange, onSaveTemplates, onEditRules, onClose
+}) => {
+  const [drafts, setDrafts] = useState<PromptTemplate[]>(templates);
+
+  const updateDraft = (index: number, patch: Partial<PromptTemplate>) => {
+    setDrafts(prev => prev.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  };
+
+  const commands = drafts.map(t => t.command.toLowerCase());
+  const invalid = drafts.some((t, i) => !isValidCommand(t.command) || commands.indexOf(t.command.toLowerCase()) !== i);
+
+  return (
+    <div className="p-5 border-b border-slate-800 bg-slate-950/60 space-y-3 max-h-[60vh] overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Project Instructions</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+
+      <button
+        onClick={onEditRules}
+        disabled={!hasWorkspace}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-800 text-[12px] text-slate-300 hover:border-emerald-500 disabled:opacity-30"
+      >
+        <FileText className="w-3.5 h-3.5 text-emerald-500" />
+        Edit <span className="font-mono">{RULES_PATH}</span>
+      </button>
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        The rules file and the preferences below are sent with every request in this workspace.
+      </p>
+
+      {PREFERENCE_FIELDS.map(field => (
+        <div key={field.key}>
+          <label className={labelClass}>{field.label}</label>
+          <input
+            value={preferences[field.key]}
+            onChange={(e) => onPreferencesChange({ [field.key]: e.target.value })}
+            placeholder={field.placeholder}
+            disabled={!hasWorkspace}
+            className={`${inputClass} disabled:opacity-30`}
+          />
+        </div>
+      ))}
+
+      <div className="pt-2 border-t border-slate-800">
+        <label className={labelClass}>Slash Commands</label>
+        <p className="text-[10px] text-slate-500 leading-relaxed mb-2">
+          Type <span className="font-mono">/command</span> in the chat. <span className="font-mono">{'{{input}}'}</span> is the text after it, <span className="font-mono">{'{{file}}'}</span> the open file.
+        </p>
+        <div className="space-y-2">
+          {drafts.map((template, i) => (
+            <div key={i} className="p-2 rounded-lg border border-slate-800 space-y-1.5">
+              <div className="flex items-center gap-1.5">
+                <span className="text-slate-500 font-mono text-[12px]">/</span>
+                <input
+                  value={template.command}
+                  onChange={(e) => updateDraft(i, { command: e.target.value.trim() })}
+                  placeholder="command"
+                  spellCheck={false}
+                  className={`${inputClass} font-mono w-28 px-2 py-1`}
+                />
+                <input
+                  value={template.description}
+                  onChange={(e) => updateDraft(i, { description: e.target.value })}
+                  placeholder="Description"
+                  className={`${inputClass} flex-1 px-2 py-1`}
+                />
+                <Trash2
+                  className="w-3.5 h-3.5 shrink-0 cursor-pointer text-slate-500 hover:text-red-400"
+                  onClick={() => setDrafts(prev => prev.filter((_, j) => j !== i))}
+                />
+              </div>
+              <textarea
+                rows={2}
+                value={template.prompt}
+                onChange={(e) => updateDraft(i, { prompt: e.target.value })}
+                className={`${inputClass} resize-none text-[11px]`}
+              />
+            </div>
+          ))}
+        </div>
+        {invalid && <p className="mt-1 text-[10px] text-red-400">Commands must be unique letters, digits, - or _.</p>}
+        <div className="flex items-center justify-between mt-2">
+          <div className="flex gap-3">
+            <button
+              onClick={() => setDrafts(prev => [...prev, { command: '', description: '', prompt: '' }])}
+              className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white"
+            >
+              <Plus className="w-3 h-3" /> Add
+            </button>
+            <button
+              onClick={() => setDrafts(DEFAULT_PROMPT_TEMPLATES)}
+              className="text-[10px] text-slate-500 hover:text-white underline decoration-slate-700"
+            >
+              Reset to defaults
+            </button>
+          </div>
+          <button
+            onClick={() => onSaveTemplates(drafts)}
+            disabled={invalid}
+            className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 px-3 py-1 rounded-md text-[10px] font-bold"
+          >
+            Save Commands
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
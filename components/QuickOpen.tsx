@@ -0,0 +1,87 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Activity, FileCode, Search } from 'lucide-react';
+import { fsService } from '../services/fileSystemService';
+import { fuzzySearch, FuzzyMatch } from '../utils/fuzzy';
+
+interface QuickOpenProps {
+  onOpen: (path: string) => void;
+  onClose: () => void;
+  placeholder?: string;
+}
+
+function highlight(match: FuzzyMatch): React.ReactNode {
+  const marked = new Set(match.positions);
+  return match.path.split('').map((ch, i) => (marked.has(i) ? <b key={i} className="text-emerald-400">{ch}</b> : ch));
+}
+
+export const QuickOpen: React.FC<QuickOpenProps> = ({ onOpen, onClose, placeholder = 'Go to file...' }) => {
+  const [paths, setPaths] = useState<string[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fsService.listFiles().then(files => {
+      if (!cancelled) setPaths(files);
+    }).catch(() => {
+      if (!cancelled) setPaths([]);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const matches = useMemo(() => fuzzySearch(query, paths ?? []), [query, paths]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected(s => (matches.length === 0 ? 0 : (s + step + matches.length) % matches.length));
+    } else if (e.key === 'Enter' && matches[selected]) {
+      onOpen(matches[selected].path);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex justify-center pt-24 bg-slate-950/60" onMouseDown={onClose}>
+      <div
+        className="w-[560px] max-h-[420px] flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-slate-800">
+          <Search className="w-4 h-4 text-slate-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            className="flex-1 bg-transparent py-3 text-sm text-slate-200 focus:outline-none"
+          />
+          {paths === null && <Activity className="w-3.5 h-3.5 animate-spin text-slate-500" />}
+        </div>
+        <div className="overflow-y-auto py-1">
+          {paths !== null && matches.length === 0 && (
+            <p className="px-4 py-3 text-[12px] text-slate-500">No matching files.</p>
+          )}
+          {matches.map((match, i) => (
+            <div
+              key={match.path}
+              onMouseEnter={() => setSelected(i)}
+              onClick={() => onOpen(match.path)}
+              className={`flex items-center gap-2 px-4 py-1.5 cursor-pointer text-[12px] font-mono ${i === selected ? 'bg-slate-800 text-slate-200' : 'text-slate-400'}`}
+            >
+              <FileCode className="w-3.5 h-3.5 shrink-0 text-blue-400" />
+              <span className="truncate">{highlight(match)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+
+import React from 'react';
+import { FolderOpen, Server, X } from 'lucide-react';
+import { WorkspaceSession } from '../types';
+
+interface RecentWorkspacesProps {
+  workspaces: WorkspaceSession[];
+  onReopen: (workspace: WorkspaceSession) => void;
+  onForget: (id: string) => void;
+}
+
+export const RecentWorkspaces: React.FC<RecentWorkspacesProps> = ({ workspaces, onReopen, onForget }) => {
+  if (workspaces.length === 0) return null;
+
+  return (
+    <div className="w-full space-y-1 text-left">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500 px-1">Recent</p>
+      {workspaces.map(ws => (
+        <div key={ws.id} className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-800/50">
+          <button onClick={() => onReopen(ws)} className="flex-1 min-w-0 flex items-center gap-2 text-left" title={`Reopen ${ws.name}`}>
+            {ws.mode === 'server'
+              ? <Server className="w-3.5 h-3.5 shrink-0 text-blue-400" />
+              : <FolderOpen className="w-3.5 h-3.5 shrink-0 text-amber-500" />}
+            <div className="min-w-0">
+              <div className="text-[12px] text-slate-300 truncate">{ws.name}</div>
+              <div className="text-[10px] text-slate-600">{new Date(ws.lastOpened).toLocaleString()}</div>
+            </div>
+          </button>
+          <X
+            className="w-3 h-3 shrink-0 cursor-pointer text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+            onClick={() => onForget(ws.id)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
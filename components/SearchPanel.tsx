@@ -0,0 +1,133 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity, ChevronDown, ChevronRight, FileCode, CaseSensitive, Regex, Search } from 'lucide-react';
+import { searchService, compileQuery, FileSearchResult, SearchOptions, SearchSummary } from '../services/searchService';
+
+interface SearchPanelProps {
+  onOpenMatch: (path: string, line: number, column: number, length: number) => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ onOpenMatch }) => {
+  const [options, setOptions] = useState<SearchOptions>({ query: '', regex: false, caseSensitive: false, include: '', exclude: '' });
+  const [results, setResults] = useState<FileSearchResult[]>([]);
+  const [summary, setSummary] = useState<SearchSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const runSearch = async () => {
+    controllerRef.current?.abort();
+    setResults([]);
+    setSummary(null);
+    setCollapsed(new Set());
+    if (!options.query) return;
+
+    try {
+      compileQuery(options);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    setError(null);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsSearching(true);
+    try {
+      const done = await searchService.search(
+        options,
+        result => setResults(prev => [...prev, result]),
+        controller.signal
+      );
+      if (!controller.signal.aborted) setSummary(done);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (controllerRef.current === controller) setIsSearching(false);
+    }
+  };
+
+  const update = (patch: Partial<SearchOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const toggleClass = (active: boolean) => `p-1 rounded ${active ? 'bg-emerald-600/30 text-emerald-400' : 'text-slate-500 hover:text-white'}`;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <form
+        className="p-3 space-y-2 border-b border-slate-800"
+        onSubmit={(e) => {
+          e.preventDefault();
+          runSearch();
+        }}
+      >
+        <div className="relative">
+          <input
+            autoFocus
+            value={options.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search"
+            className={`${inputClass} pr-16`}
+          />
+          <div className="absolute right-1 top-1 flex gap-0.5">
+            <button type="button" onClick={() => update({ caseSensitive: !options.caseSensitive })} className={toggleClass(options.caseSensitive)} title="Match case">
+              <CaseSensitive className="w-3.5 h-3.5" />
+            </button>
+            <button type="button" onClick={() => update({ regex: !options.regex })} className={toggleClass(options.regex)} title="Use regular expression">
+              <Regex className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+        <input value={options.include} onChange={(e) => update({ include: e.target.value })} placeholder="files to include, e.g. src/**, *.ts" className={inputClass} />
+        <input value={options.exclude} onChange={(e) => update({ exclude: e.target.value })} placeholder="files to exclude" className={inputClass} />
+        <button type="submit" className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 py-1.5 rounded-lg text-[11px] font-bold">
+          {isSearching ? <Activity className="w-3.5 h-3.5 animate-spin" /> : <Search className="w-3.5 h-3.5" />} Search
+        </button>
+        {error && <p className="text-[11px] text-red-400">{error}</p>}
+        {summary && (
+          <p className="text-[10px] text-slate-500">
+            {summary.matches} results in {summary.files} files{summary.truncated ? ' (stopped early; narrow the search)' : ''}
+          </p>
+        )}
+      </form>
+
+      <div className="flex-1 overflow-y-auto p-2 scrollbar-thin">
+        {results.map(result => (
+          <div key={result.path}>
+            <div
+              onClick={() => toggleCollapsed(result.path)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md cursor-pointer hover:bg-slate-800 text-[12px] text-slate-300"
+            >
+              {collapsed.has(result.path) ? <ChevronRight className="w-3.5 h-3.5 text-slate-500" /> : <ChevronDown className="w-3.5 h-3.5 text-slate-500" />}
+              <FileCode className="w-3.5 h-3.5 text-blue-400 shrink-0" />
+              <span className="truncate flex-1 font-mono">{result.path}</span>
+              <span className="text-[10px] text-slate-500">{result.matches.length}</span>
+            </div>
+            {!collapsed.has(result.path) && result.matches.map((match, i) => (
+              <div
+                key={i}
+                onClick={() => onOpenMatch(result.path, match.line, match.column, match.length)}
+                className="flex gap-2 pl-8 pr-2 py-0.5 rounded-md cursor-pointer hover:bg-slate-800 text-[11px] font-mono text-slate-400"
+              >
+                <span className="text-slate-600 shrink-0">{match.line}</span>
+                <span className="truncate whitespace-pre">{match.preview.trimStart()}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
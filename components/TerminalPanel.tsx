@@ -0,0 +1,125 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Square, Trash2, ShieldCheck } from 'lucide-react';
+import { isCommandAllowed } from '../utils/commands';
+import { CommandRun } from '../types';
+
+interface TerminalPanelProps {
+  runs: CommandRun[];
+  allowlist: string[];
+  history: string[];
+  // False outside server mode, where there is no bridge to run commands
+  enabled: boolean;
+  onRun: (command: string) => void;
+  onKill: (run: CommandRun) => void;
+  onClear: () => void;
+}
+
+function statusLabel(run: CommandRun): { text: string; className: string } {
+  switch (run.status) {
+    case 'running': return { text: 'running', className: 'text-sky-400 animate-pulse' };
+    case 'killed': return { text: 'killed', className: 'text-amber-500' };
+    case 'failed': return { text: 'failed to start', className: 'text-red-400' };
+    default: return run.exitCode === 0
+      ? { text: 'exit 0', className: 'text-emerald-500' }
+      : { text: `exit ${run.exitCode}`, className: 'text-red-400' };
+  }
+}
+
+export const TerminalPanel: React.FC<TerminalPanelProps> = ({ runs, allowlist, history, enabled, onRun, onKill, onClear }) => {
+  const [input, setInput] = useState('');
+  // Position while browsing history with the arrow keys; history.length means "not browsing"
+  const [historyIndex, setHistoryIndex] = useState(history.length);
+  const [showAllowlist, setShowAllowlist] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [runs]);
+
+  useEffect(() => {
+    setHistoryIndex(history.length);
+  }, [history.length]);
+
+  const isRunning = runs.some(r => r.status === 'running');
+  const allowed = !input.trim() || isCommandAllowed(input, allowlist);
+
+  const submit = () => {
+    const command = input.trim();
+    if (!command || !enabled || isRunning) return;
+    onRun(command);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      submit();
+    } else if (e.key === 'ArrowUp' && historyIndex > 0) {
+      e.preventDefault();
+      setHistoryIndex(historyIndex - 1);
+      setInput(history[historyIndex - 1]);
+    } else if (e.key === 'ArrowDown' && historyIndex < history.length) {
+      e.preventDefault();
+      setHistoryIndex(historyIndex + 1);
+      setInput(history[historyIndex + 1] ?? '');
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div ref={scrollRef} className="flex-1 p-4 overflow-y-auto font-mono text-[11px] leading-relaxed text-slate-400 space-y-3 bg-black/20">
+        {!enabled && <div className="text-slate-600 italic">Commands run through the local bridge. Start it with `python server.py` to use the terminal.</div>}
+        {runs.map((run, i) => {
+          const status = statusLabel(run);
+          return (
+            <div key={i}>
+              <div className="flex items-center gap-2">
+                <span className="text-emerald-600">$</span>
+                <span className="text-slate-200 flex-1">{run.command}</span>
+                <span className={`text-[10px] ${status.className}`}>{status.text}</span>
+                {run.status === 'running' && run.id && (
+                  <button onClick={() => onKill(run)} className="flex items-center gap-1 text-[10px] text-red-400 hover:text-red-300" title="Kill">
+                    <Square className="w-2.5 h-2.5" /> Kill
+                  </button>
+                )}
+              </div>
+              {run.output.map((chunk, j) => (
+                <span key={j} className={`whitespace-pre-wrap break-all ${chunk.stream === 'stderr' ? 'text-red-400/90' : ''}`}>{chunk.text}</span>
+              ))}
+              {run.error && <div className="text-red-400">{run.error}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      {showAllowlist && (
+        <div className="px-4 py-2 border-t border-slate-800 text-[10px] text-slate-500 font-mono">
+          Allowed: {allowlist.length ? allowlist.join(' · ') : 'nothing (the bridge reported no allowlist)'}
+        </div>
+      )}
+
+      <div className="h-9 border-t border-slate-800 flex items-center gap-2 px-4 font-mono text-[11px]">
+        <span className="text-emerald-600">$</span>
+        <input
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHistoryIndex(history.length);
+          }}
+          onKeyDown={handleKeyDown}
+          disabled={!enabled}
+          placeholder={isRunning ? 'Waiting for the current command...' : 'npm test'}
+          spellCheck={false}
+          className={`flex-1 bg-transparent focus:outline-none disabled:opacity-30 ${allowed ? 'text-slate-200' : 'text-red-400'}`}
+        />
+        {!allowed && <span className="text-[10px] text-red-400">not allowlisted</span>}
+        <ShieldCheck
+          className={`w-3.5 h-3.5 cursor-pointer ${showAllowlist ? 'text-emerald-400' : 'text-slate-600 hover:text-white'}`}
+          onClick={() => setShowAllowlist(!showAllowlist)}
+        />
+        <Trash2 className="w-3.5 h-3.5 cursor-pointer text-slate-600 hover:text-white" onClick={onClear} />
+      </div>
+    </div>
+  );
+};
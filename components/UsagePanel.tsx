@@ -0,0 +1,151 @@
+
+import React, { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { DEFAULT_USAGE_SETTINGS, formatCost, formatTokens } from '../services/usageTracker';
+import { DailyUsage, ModelPricing, UsageSettings } from '../types';
+
+interface UsagePanelProps {
+  settings: UsageSettings;
+  today: DailyUsage;
+  // The selected model, flagged when it has no price
+  model: string;
+  hasPrice: boolean;
+  onChange: (patch: Partial<UsageSettings>) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1';
+
+type PriceRow = { model: string } & ModelPricing;
+
+const toRows = (pricing: Record<string, ModelPricing>): PriceRow[] =>
+  Object.entries(pricing).map(([model, price]) => ({ model, ...price }));
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, today, model, hasPrice, onChange, onClose }) => {
+  const [rows, setRows] = useState<PriceRow[]>(() => toRows(settings.pricing));
+
+  const updateRow = (index: number, patch: Partial<PriceRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const savePricing = () => {
+    const pricing: Record<string, ModelPricing> = {};
+    for (const row of rows) {
+      if (!row.model.trim()) continue;
+      pricing[row.model.trim()] = { inputPerMillion: Math.max(0, row.inputPerMillion), outputPerMillion: Math.max(0, row.outputPerMillion) };
+    }
+    onChange({ pricing });
+  };
+
+  const overBudget = settings.dailyBudgetUsd > 0 && today.costUsd >= settings.dailyBudgetUsd;
+
+  return (
+    <div className="p-5 border-b border-slate-800 bg-slate-950/60 space-y-3 max-h-[60vh] overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Usage & Cost</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {[
+          ['Today', formatCost(today.costUsd)],
+          ['Tokens', formatTokens(today.promptTokens + today.outputTokens + today.thinkingTokens)],
+          ['Calls', String(today.calls)]
+        ].map(([label, value]) => (
+          <div key={label} className="p-2 rounded-lg border border-slate-800">
+            <div className={`text-sm font-bold ${label === 'Today' && overBudget ? 'text-red-400' : 'text-slate-200'}`}>{value}</div>
+            <div className="text-[9px] uppercase tracking-widest text-slate-500">{label}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        {formatTokens(today.promptTokens)} prompt · {formatTokens(today.outputTokens)} output · {formatTokens(today.thinkingTokens)} thinking.
+        Costs are estimates from the prices below.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Daily Budget ($)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={settings.dailyBudgetUsd}
+            onChange={(e) => onChange({ dailyBudgetUsd: Math.max(0, Number(e.target.value)) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Warn Above (tokens)</label>
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={settings.contextWarningTokens}
+            onChange={(e) => onChange({ contextWarningTokens: Math.max(0, Number(e.target.value)) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-500">0 turns off the budget cap or the context warning.</p>
+
+      <div className="pt-2 border-t border-slate-800">
+        <label className={labelClass}>Prices (USD per 1M tokens)</label>
+        {!hasPrice && (
+          <p className="mb-2 text-[10px] text-amber-500">No price for <span className="font-mono">{model}</span>; its cost isn't counted.</p>
+        )}
+        <div className="space-y-1">
+          <div className="flex gap-1.5 text-[9px] uppercase tracking-widest text-slate-600">
+            <span className="flex-1">Model</span><span className="w-16">Input</span><span className="w-16">Output</span><span className="w-3.5" />
+          </div>
+          {rows.map((row, i) => (
+            <div key={i} className="flex items-center gap-1.5">
+              <input
+                value={row.model}
+                onChange={(e) => updateRow(i, { model: e.target.value })}
+                spellCheck={false}
+                className={`${inputClass} flex-1 font-mono px-2 py-1`}
+              />
+              <input
+                type="number" min={0} step={0.01}
+                value={row.inputPerMillion}
+                onChange={(e) => updateRow(i, { inputPerMillion: Number(e.target.value) })}
+                className={`${inputClass} w-16 px-2 py-1`}
+              />
+              <input
+                type="number" min={0} step={0.01}
+                value={row.outputPerMillion}
+                onChange={(e) => updateRow(i, { outputPerMillion: Number(e.target.value) })}
+                className={`${inputClass} w-16 px-2 py-1`}
+              />
+              <Trash2
+                className="w-3.5 h-3.5 shrink-0 cursor-pointer text-slate-500 hover:text-red-400"
+                onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <div className="flex gap-3">
+            <button
+              onClick={() => setRows(prev => [...prev, { model: hasPrice ? '' : model, inputPerMillion: 0, outputPerMillion: 0 }])}
+              className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white"
+            >
+              <Plus className="w-3 h-3" /> Add
+            </button>
+            <button
+              onClick={() => setRows(toRows(DEFAULT_USAGE_SETTINGS.pricing))}
+              className="text-[10px] text-slate-500 hover:text-white underline decoration-slate-700"
+            >
+              Reset to defaults
+            </button>
+          </div>
+          <button onClick={savePricing} className="bg-emerald-600 hover:bg-emerald-500 px-3 py-1 rounded-md text-[10px] font-bold">
+            Save Prices
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
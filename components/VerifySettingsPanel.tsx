@@ -0,0 +1,67 @@
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { isCommandAllowed } from '../utils/commands';
+import { VerifySettings } from '../types';
+
+interface VerifySettingsPanelProps {
+  settings: VerifySettings;
+  allowlist: string[];
+  // Checks need the local bridge to run commands
+  available: boolean;
+  onChange: (patch: Partial<VerifySettings>) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-[12px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-emerald-500/50';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1';
+
+export const VerifySettingsPanel: React.FC<VerifySettingsPanelProps> = ({ settings, allowlist, available, onChange, onClose }) => {
+  const commandAllowed = !settings.command.trim() || isCommandAllowed(settings.command, allowlist);
+
+  return (
+    <div className="p-5 border-b border-slate-800 bg-slate-950/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Auto-Verify</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+
+      <label className="flex items-center gap-2 text-[12px] text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="accent-emerald-500"
+        />
+        Run a check after each commit and ask for fixes when it fails
+      </label>
+      {!available && (
+        <p className="text-[10px] text-amber-500">Checks run through the local bridge, which is not connected.</p>
+      )}
+
+      <div>
+        <label className={labelClass}>Check Command</label>
+        <input
+          value={settings.command}
+          onChange={(e) => onChange({ command: e.target.value })}
+          placeholder="npm test"
+          spellCheck={false}
+          className={`${inputClass} font-mono`}
+        />
+        {!commandAllowed && <p className="mt-1 text-[10px] text-red-400">Not in the bridge allowlist.</p>}
+      </div>
+
+      <div>
+        <label className={labelClass}>Max Fix Attempts: {settings.maxIterations}</label>
+        <input
+          type="range"
+          min={1}
+          max={10}
+          value={settings.maxIterations}
+          onChange={(e) => onChange({ maxIterations: Number(e.target.value) })}
+          className="w-full accent-emerald-500"
+        />
+      </div>
+    </div>
+  );
+};
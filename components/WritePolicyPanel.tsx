@@ -0,0 +1,69 @@
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { DEFAULT_WRITE_POLICY } from '../services/writePolicy';
+import { WritePolicy } from '../types';
+
+interface WritePolicyPanelProps {
+  policy: WritePolicy;
+  onSave: (policy: WritePolicy) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1';
+const textareaClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 code-font text-[11px] text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 resize-none';
+
+const toLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+export const WritePolicyPanel: React.FC<WritePolicyPanelProps> = ({ policy, onSave, onClose }) => {
+  const [deny, setDeny] = useState(policy.deny.join('\n'));
+  const [confirm, setConfirm] = useState(policy.confirm.join('\n'));
+  const [maxKb, setMaxKb] = useState(Math.round(policy.maxFileBytes / 1024));
+
+  const reset = () => {
+    setDeny(DEFAULT_WRITE_POLICY.deny.join('\n'));
+    setConfirm(DEFAULT_WRITE_POLICY.confirm.join('\n'));
+    setMaxKb(Math.round(DEFAULT_WRITE_POLICY.maxFileBytes / 1024));
+  };
+
+  return (
+    <div className="p-3 border-b border-slate-800 bg-slate-950/60 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Write Policy</span>
+        <X className="w-3.5 h-3.5 cursor-pointer text-slate-500 hover:text-white" onClick={onClose} />
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        .gitignore-style patterns checked before AI changes are written. Paths outside the workspace are always blocked.
+      </p>
+      <div>
+        <label className={labelClass}>Never write</label>
+        <textarea rows={4} value={deny} onChange={(e) => setDeny(e.target.value)} spellCheck={false} className={textareaClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Ask before writing</label>
+        <textarea rows={4} value={confirm} onChange={(e) => setConfirm(e.target.value)} spellCheck={false} className={textareaClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Max file size (KB)</label>
+        <input
+          type="number"
+          min={1}
+          value={maxKb}
+          onChange={(e) => setMaxKb(Number(e.target.value))}
+          className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[12px] text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+        />
+      </div>
+      <div className="flex justify-between">
+        <button onClick={reset} className="text-[10px] text-slate-500 hover:text-white underline decoration-slate-700">
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => onSave({ deny: toLines(deny), confirm: toLines(confirm), maxFileBytes: Math.max(1, maxKb) * 1024 })}
+          className="bg-emerald-600 hover:bg-emerald-500 px-3 py-1 rounded-md text-[10px] font-bold"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
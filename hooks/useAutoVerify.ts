@@ -0,0 +1,92 @@
+
+import { useState } from 'react';
+import { ChatMessage, CommandRun, VerifySettings } from '../types';
+import { fsService } from '../services/fileSystemService';
+import { outputTail } from '../utils/commands';
+import { loadJson, saveJson } from '../utils/storage';
+
+const VERIFY_SETTINGS_KEY = 'forgeai.verifySettings';
+const DEFAULT_VERIFY_SETTINGS: VerifySettings = { enabled: false, command: 'npm test', maxIterations: 3 };
+// How much failing check output is sent back to the model
+const VERIFY_OUTPUT_CHARS = 8000;
+
+interface AutoVerifyOptions {
+  runCommand: (command: string) => Promise<CommandRun>;
+  askAssistant: (
+    userMessage: ChatMessage,
+    prompt: string,
+    options: { requiredPaths?: string[]; verifyIteration?: number }
+  ) => Promise<ChatMessage | null>;
+  setChatHistory: (update: (prev: ChatMessage[]) => ChatMessage[]) => void;
+}
+
+/**
+ * Auto-verify: runs the check command after a commit. On failure the output and touched
+ * files go back to the model for a fix, which is reviewed and committed like any other
+ * change and verified again, until the check passes or maxIterations fixes were tried.
+ */
+export function useAutoVerify({ runCommand, askAssistant, setChatHistory }: AutoVerifyOptions) {
+  const [verifySettings, setVerifySettings] = useState<VerifySettings>(
+    () => ({ ...DEFAULT_VERIFY_SETTINGS, ...loadJson<Partial<VerifySettings>>(VERIFY_SETTINGS_KEY, {}) })
+  );
+  // The check command while it runs
+  const [verifyingCommand, setVerifyingCommand] = useState<string | null>(null);
+
+  const updateVerifySettings = (patch: Partial<VerifySettings>) => {
+    setVerifySettings(prev => {
+      const next = { ...prev, ...patch };
+      saveJson(VERIFY_SETTINGS_KEY, next);
+      return next;
+    });
+  };
+
+  // Resolves true only when this run passed.
+  const verifyCommit = async (touchedPaths: string[], previousAttempt: number): Promise<boolean> => {
+    const { command, maxIterations } = verifySettings;
+    setVerifyingCommand(command);
+    const run = await runCommand(command);
+    setVerifyingCommand(null);
+
+    const passed = run.status === 'exited' && run.exitCode === 0;
+    const attempt = previousAttempt + 1;
+    const canRetry = run.status === 'exited' && !passed && attempt <= maxIterations;
+    const output = outputTail(run.output, VERIFY_OUTPUT_CHARS);
+
+    let summary: string;
+    if (passed) {
+      summary = `Check passed: \`${command}\``;
+    } else if (run.status !== 'exited') {
+      summary = `Check \`${command}\` ${run.status === 'killed' ? 'was killed' : `could not run: ${run.error}`}. Auto-verify stopped.`;
+    } else if (canRetry) {
+      summary = `Check \`${command}\` failed with exit code ${run.exitCode}. Asking for a fix (attempt ${attempt} of ${maxIterations}).`;
+    } else {
+      summary = `Check \`${command}\` still fails after ${maxIterations} fix attempts. Auto-verify stopped.`;
+    }
+
+    const report: ChatMessage = {
+      role: 'user',
+      content: summary,
+      timestamp: Date.now(),
+      verification: { command, passed, exitCode: run.exitCode, output }
+    };
+    if (!canRetry) {
+      setChatHistory(prev => [...prev, report]);
+      return passed;
+    }
+
+    const prompt = `After applying your changes, the check command \`${command}\` failed with exit code ${run.exitCode}.\n\n`
+      + `Output:\n\`\`\`\n${output}\n\`\`\`\n\n`
+      + `Files changed in the last commit: ${touchedPaths.join(', ')}.\n`
+      + `Find the cause and propose the smallest change that makes the check pass.`;
+    await askAssistant(report, prompt, { requiredPaths: touchedPaths, verifyIteration: attempt });
+    return false;
+  };
+
+  // Counts as passed when auto-verify is off or can't run outside the bridge.
+  const verifyAfterCommit = async (touchedPaths: string[], previousAttempt: number): Promise<boolean> => {
+    if (!verifySettings.enabled || !verifySettings.command.trim() || fsService.getMode() !== 'server') return true;
+    return verifyCommit(touchedPaths, previousAttempt);
+  };
+
+  return { verifySettings, updateVerifySettings, verifyingCommand, verifyAfterCommit };
+}
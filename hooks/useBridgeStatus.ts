@@ -0,0 +1,34 @@
+
+import { useEffect, useRef, useState } from 'react';
+import { bridgeClient, BridgeHealth } from '../services/bridgeClient';
+
+interface BridgeStatusOptions {
+  // Called with the new and the previous health, once at mount and after every change
+  onHealthChange: (health: BridgeHealth, previous: BridgeHealth) => void;
+}
+
+/**
+ * Health of the bridge, from periodic /status checks and the outcome of every request.
+ * Monitoring runs while the component is mounted.
+ */
+export function useBridgeStatus({ onHealthChange }: BridgeStatusOptions) {
+  const [bridgeHealth, setBridgeHealth] = useState<BridgeHealth>(() => bridgeClient.getHealth());
+  const previousHealthRef = useRef<BridgeHealth>(bridgeHealth);
+
+  useEffect(() => {
+    const unsubscribe = bridgeClient.onHealthChange(setBridgeHealth);
+    const stopMonitoring = bridgeClient.startMonitoring();
+    return () => {
+      unsubscribe();
+      stopMonitoring();
+    };
+  }, []);
+
+  useEffect(() => {
+    const previous = previousHealthRef.current;
+    previousHealthRef.current = bridgeHealth;
+    onHealthChange(bridgeHealth, previous);
+  }, [bridgeHealth]);
+
+  return { bridgeHealth };
+}
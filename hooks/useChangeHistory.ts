@@ -0,0 +1,73 @@
+
+import { useState } from 'react';
+import { AppliedChangeSet } from '../types';
+import { fsService, StaleWriteError } from '../services/fileSystemService';
+
+interface ChangeHistoryOptions {
+  addLog: (msg: string) => void;
+  // Reloads whatever shows the reverted paths
+  onReverted: (paths: string[]) => Promise<void>;
+}
+
+/**
+ * Undo/redo stacks of applied change sets, and the flag that keeps two writes from running
+ * at once. Undo and redo both revert the set on top of one stack and push the result onto
+ * the other. Files edited since the set was written are only overwritten once confirmed.
+ */
+export function useChangeHistory({ addLog, onReverted }: ChangeHistoryOptions) {
+  const [undoStack, setUndoStack] = useState<AppliedChangeSet[]>([]);
+  const [redoStack, setRedoStack] = useState<AppliedChangeSet[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // A newly applied set starts a new branch of history.
+  const record = (set: AppliedChangeSet) => {
+    setUndoStack(prev => [...prev, set]);
+    setRedoStack([]);
+  };
+
+  const clear = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  const revertTopSet = async (direction: 'Undo' | 'Redo') => {
+    const [stack, setFrom, setTo] = direction === 'Undo'
+      ? [undoStack, setUndoStack, setRedoStack]
+      : [redoStack, setRedoStack, setUndoStack];
+    const set = stack[stack.length - 1];
+    if (!set || isApplying) return;
+    setIsApplying(true);
+    try {
+      let reverted: AppliedChangeSet;
+      try {
+        reverted = await fsService.revertChangeSet(set);
+      } catch (err) {
+        if (!(err instanceof StaleWriteError)) throw err;
+        if (!window.confirm(`${err.message}. ${direction} anyway and discard those edits?`)) {
+          addLog(`${err.message}. Nothing was written.`);
+          return;
+        }
+        reverted = await fsService.revertChangeSet(set, true);
+      }
+      setFrom(prev => prev.slice(0, -1));
+      setTo(prev => [...prev, reverted]);
+      await onReverted(set.before.map(s => s.path));
+      addLog(`${direction === 'Undo' ? 'Undid' : 'Redid'}: ${set.label}`);
+    } catch (err: any) {
+      addLog(`${direction} Error: ${err.message}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return {
+    undoStack,
+    redoStack,
+    isApplying,
+    setIsApplying,
+    record,
+    clear,
+    undo: () => revertTopSet('Undo'),
+    redo: () => revertTopSet('Redo')
+  };
+}
@@ -0,0 +1,101 @@
+
+import { useState } from 'react';
+import { ChatMessage, TaskPlan } from '../types';
+import { nextStep, planStepPrompt, proposedStep, updateStep } from '../utils/plan';
+
+type PlanStepRef = NonNullable<ChatMessage['planStep']>;
+
+interface PlanRunnerOptions {
+  // Read through a ref, since a running plan outlives the render that started it
+  chatHistoryRef: { current: ChatMessage[] };
+  setChatHistory: (update: (prev: ChatMessage[]) => ChatMessage[]) => void;
+  askAssistant: (
+    userMessage: ChatMessage,
+    prompt: string,
+    options: { requiredPaths?: string[]; planStep?: PlanStepRef }
+  ) => Promise<ChatMessage | null>;
+  addLog: (msg: string) => void;
+  isAiLoading: boolean;
+}
+
+/**
+ * Plan mode: plans live on the assistant message that proposed them, keyed by its
+ * timestamp. Running one requests its steps in order. A step that proposes changes stops
+ * the loop until they are committed (see finishPlanStep); one that fails or is cancelled
+ * pauses the plan so it can be resumed.
+ */
+export function usePlanRunner({ chatHistoryRef, setChatHistory, askAssistant, addLog, isAiLoading }: PlanRunnerOptions) {
+  // Timestamp of the plan whose step is being requested
+  const [planInFlight, setPlanInFlight] = useState<number | null>(null);
+
+  const findPlan = (planTimestamp: number): TaskPlan | undefined =>
+    chatHistoryRef.current.find(m => m.timestamp === planTimestamp && m.plan)?.plan;
+
+  // Returns the plan, so flows that continue in the same tick don't read it back from stale state.
+  const setPlan = (planTimestamp: number, plan: TaskPlan): TaskPlan => {
+    setChatHistory(prev => prev.map(m => (m.timestamp === planTimestamp && m.plan ? { ...m, plan } : m)));
+    return plan;
+  };
+
+  const continuePlan = async (planTimestamp: number, plan: TaskPlan) => {
+    let current = plan;
+    while (current.status === 'running' && !proposedStep(current)) {
+      const step = nextStep(current);
+      if (!step) {
+        setPlan(planTimestamp, { ...current, status: 'done' });
+        addLog("Plan complete.");
+        return;
+      }
+      const number = current.steps.indexOf(step) + 1;
+      current = setPlan(planTimestamp, updateStep(current, step.id, { status: 'running' }));
+      const planStep = { planTimestamp, stepId: step.id };
+
+      setPlanInFlight(planTimestamp);
+      const reply = await askAssistant(
+        { role: 'user', content: `Plan step ${number} of ${current.steps.length}: ${step.title}`, timestamp: Date.now(), planStep },
+        planStepPrompt(current, step),
+        { requiredPaths: step.files, planStep }
+      );
+      setPlanInFlight(null);
+
+      // Picks up a pause or edits made while the step ran
+      const latest = findPlan(planTimestamp) ?? current;
+      if (!reply) {
+        setPlan(planTimestamp, { ...updateStep(latest, step.id, { status: 'pending' }), status: 'paused' });
+        addLog(`Plan paused: step ${number} did not finish.`);
+        return;
+      }
+      current = setPlan(planTimestamp, updateStep(latest, step.id, {
+        status: reply.changes?.length ? 'proposed' : 'done',
+        messageTimestamp: reply.timestamp
+      }));
+    }
+  };
+
+  const runPlan = (planTimestamp: number) => {
+    const plan = findPlan(planTimestamp);
+    if (!plan || isAiLoading) return;
+    continuePlan(planTimestamp, setPlan(planTimestamp, { ...plan, status: 'running' }));
+  };
+
+  const skipPlanStep = (planTimestamp: number, stepId: string) => {
+    const plan = findPlan(planTimestamp);
+    if (!plan) return;
+    const next = setPlan(planTimestamp, updateStep(plan, stepId, { status: 'skipped' }));
+    if (!isAiLoading) continuePlan(planTimestamp, next);
+  };
+
+  // Called once a step's changes are committed; a failed auto-verify check pauses the plan.
+  const finishPlanStep = async ({ planTimestamp, stepId }: PlanStepRef, checkPassed: boolean) => {
+    const plan = findPlan(planTimestamp);
+    if (!plan) return;
+    let next = updateStep(plan, stepId, { status: 'done' });
+    if (!checkPassed && plan.status === 'running') {
+      next = { ...next, status: 'paused' };
+      addLog("Plan paused: the check failed after this step. Resume once it passes.");
+    }
+    await continuePlan(planTimestamp, setPlan(planTimestamp, next));
+  };
+
+  return { planInFlight, setPlan, runPlan, skipPlanStep, finishPlanStep };
+}
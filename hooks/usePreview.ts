@@ -0,0 +1,58 @@
+
+import { useState } from 'react';
+import { FileChange } from '../types';
+import { PreviewOverlay } from '../components/PreviewPane';
+
+const HTML_FILE = /\.html?$/i;
+
+/**
+ * Editor view and preview state: which page the preview shows, the uncommitted changes
+ * laid over the workspace, and a token bumped whenever files change on disk so the
+ * preview rebuilds.
+ */
+export function usePreview() {
+  const [editorView, setEditorView] = useState<'code' | 'preview'>('code');
+  const [previewEntry, setPreviewEntry] = useState('index.html');
+  const [previewOverlay, setPreviewOverlay] = useState<PreviewOverlay | null>(null);
+  const [previewToken, setPreviewToken] = useState(0);
+
+  const reloadPreview = () => setPreviewToken(t => t + 1);
+
+  const clearOverlay = () => setPreviewOverlay(null);
+
+  // Back to the code view of a freshly opened workspace
+  const resetPreview = () => {
+    setEditorView('code');
+    setPreviewEntry('index.html');
+    setPreviewOverlay(null);
+  };
+
+  // Shows the edited HTML file, or whatever page was last previewed.
+  const openPreview = (activePath?: string) => {
+    if (!previewOverlay && activePath && HTML_FILE.test(activePath)) setPreviewEntry(activePath);
+    setEditorView('preview');
+  };
+
+  // Previews changes on top of the workspace without writing anything. Without a label they are already on disk.
+  const previewChanges = (changes: FileChange[], label: string | null) => {
+    const pages = changes.filter(c => c.action !== 'delete' && HTML_FILE.test(c.path)).map(c => c.path);
+    const entry = pages.find(p => p.split('/').pop() === 'index.html') ?? pages[0];
+    if (entry) setPreviewEntry(entry);
+    setPreviewOverlay(label === null ? null : { changes, label });
+    setEditorView('preview');
+  };
+
+  return {
+    editorView,
+    setEditorView,
+    previewEntry,
+    setPreviewEntry,
+    previewOverlay,
+    previewToken,
+    reloadPreview,
+    clearOverlay,
+    resetPreview,
+    openPreview,
+    previewChanges
+  };
+}
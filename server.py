@@ -0,0 +1,468 @@
+"""
+ForgeAI local bridge.
+
+Serves a workspace directory to the browser app over HTTP so files can be read and
+written without the File System Access API, and runs allowlisted commands with their
+output streamed back. Standard library only:
+
+    python server.py [workspace] [--port 8000] [--token SECRET] [--allow "npm test" --allow pytest]
+
+Every request must carry the token as "Authorization: Bearer <token>". Without --token
+(or FORGEAI_BRIDGE_TOKEN) a random one is generated and printed at startup.
+"""
+
+import argparse
+import codecs
+import hmac
+import json
+import os
+import secrets
+import shlex
+import signal
+import subprocess
+import threading
+import traceback
+import uuid
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from urllib.parse import parse_qs, urlparse
+
+# Command prefixes that may run when no --allow flags are given.
+DEFAULT_ALLOWLIST = [
+    "npm test", "npm run", "npx tsc", "npx vitest", "npx jest", "npx eslint",
+    "yarn test", "pnpm test", "pytest", "python -m pytest", "python -m unittest",
+    "cargo test", "cargo check", "go test", "go vet", "make test", "git status", "git diff",
+]
+
+# Directories that are never listed.
+HIDDEN = {".git", "node_modules", "__pycache__", ".venv", "venv"}
+
+# Sent in /status so the app can tell this bridge apart from whatever else is on the port.
+BRIDGE_ID = "forgeai-bridge"
+PROTOCOL_VERSION = 2
+
+ROOT = os.getcwd()
+ALLOWLIST = DEFAULT_ALLOWLIST
+TOKEN = ""
+RUNNING = {}  # run id -> Popen
+RUNNING_LOCK = threading.Lock()
+
+
+ERROR_CODES = {
+    400: "bad_request", 401: "unauthorized", 403: "forbidden", 404: "not_found", 409: "conflict", 500: "server_error",
+}
+
+# Marks commits made for an applied AI change set; the history view offers to revert these.
+CHANGE_SET_TRAILER = "ForgeAI-Change-Set"
+
+# Porcelain v1 status letters, reduced to what the explorer shows.
+GIT_STATUS = {"M": "modified", "T": "modified", "A": "added", "D": "deleted", "R": "renamed", "C": "added"}
+
+
+class BridgeError(Exception):
+    def __init__(self, status, message):
+        super().__init__(message)
+        self.status = status
+        self.message = message
+
+
+def resolve(path):
+    """Maps a workspace-relative path to an absolute one, refusing anything outside ROOT."""
+    if path is not None and not isinstance(path, str):
+        raise BridgeError(400, f"Path must be a string, got {type(path).__name__}")
+    full = os.path.realpath(os.path.join(ROOT, path or "."))
+    if full != ROOT and not full.startswith(ROOT + os.sep):
+        raise BridgeError(403, f"Path escapes the workspace: {path}")
+    return full
+
+
+def relative(full):
+    return os.path.relpath(full, ROOT).replace(os.sep, "/")
+
+
+def kill(process):
+    """Kills the command and anything it spawned (npm test runs its own children)."""
+    try:
+        if os.name == "posix":
+            os.killpg(process.pid, signal.SIGKILL)
+        else:
+            process.kill()
+    except ProcessLookupError:
+        pass
+
+
+def run_git(*args, check=True):
+    """Runs git in the workspace. Failures become a 400 with git's own message."""
+    try:
+        result = subprocess.run(["git", *args], cwd=ROOT, capture_output=True, text=True, encoding="utf-8", errors="replace")
+    except FileNotFoundError:
+        raise BridgeError(400, "git is not installed")
+    if check and result.returncode != 0:
+        raise BridgeError(400, (result.stderr or result.stdout).strip() or f"git {args[0]} failed")
+    return result
+
+
+def require_repo():
+    if run_git("rev-parse", "--is-inside-work-tree", check=False).returncode != 0:
+        raise BridgeError(400, "The workspace is not a git repository")
+
+
+def parse_status(output, prefix):
+    """
+    Parses `git status --porcelain=v1 -z` into {path: status}. Git reports paths from the
+    repository root; prefix is the workspace's place in it, and anything outside is dropped.
+    """
+    files = {}
+    entries = iter(output.split("\0"))
+    for entry in entries:
+        if len(entry) < 4:
+            continue
+        code, path = entry[:2], entry[3:]
+        if code[0] in "RC":
+            next(entries, None)  # the rename source follows as its own entry
+        if not path.startswith(prefix):
+            continue
+        path = path[len(prefix):].rstrip("/")
+        if code == "??":
+            files[path] = "untracked"
+        elif "U" in code or code in ("AA", "DD"):
+            files[path] = "conflicted"
+        else:
+            files[path] = GIT_STATUS.get(code[0] if code[0] != " " else code[1], "modified")
+    return files
+
+
+def is_allowed(argv):
+    """A command is allowed when its leading words match an allowlist entry."""
+    for entry in ALLOWLIST:
+        prefix = shlex.split(entry)
+        if prefix and argv[: len(prefix)] == prefix:
+            return True
+    return False
+
+
+class BridgeHandler(BaseHTTPRequestHandler):
+    # Responses without Content-Length end when the connection closes, which keeps
+    # streamed command output simple.
+    protocol_version = "HTTP/1.0"
+
+    def log_message(self, format, *args):
+        pass
+
+    def send_cors(self):
+        self.send_header("Access-Control-Allow-Origin", "*")
+        self.send_header("Access-Control-Allow-Headers", "Content-Type, Authorization")
+        self.send_header("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+
+    def send_json(self, status, data):
+        body = json.dumps(data).encode("utf-8")
+        self.send_response(status)
+        self.send_cors()
+        self.send_header("Content-Type", "application/json")
+        self.send_header("Content-Length", str(len(body)))
+        self.end_headers()
+        self.wfile.write(body)
+
+    def send_error_json(self, status, message):
+        self.send_json(status, {"error": message, "code": ERROR_CODES.get(status, "server_error")})
+
+    def read_json(self):
+        length = int(self.headers.get("Content-Length") or 0)
+        try:
+            data = json.loads(self.rfile.read(length) or b"{}")
+        except (json.JSONDecodeError, UnicodeDecodeError):
+            raise BridgeError(400, "Request body is not valid JSON")
+        if not isinstance(data, dict):
+            raise BridgeError(400, "Request body must be a JSON object")
+        return data
+
+    def do_OPTIONS(self):
+        self.send_response(204)
+        self.send_cors()
+        self.end_headers()
+
+    def do_GET(self):
+        self.dispatch({
+            "/status": self.handle_status,
+            "/ls": self.handle_ls,
+            "/read": self.handle_read,
+            "/raw": self.handle_raw,
+            "/git/status": self.handle_git_status,
+            "/git/log": self.handle_git_log,
+        })
+
+    def do_POST(self):
+        self.dispatch({
+            "/write": self.handle_write,
+            "/delete": self.handle_delete,
+            "/exec": self.handle_exec,
+            "/exec/kill": self.handle_kill,
+            "/git/branch": self.handle_git_branch,
+            "/git/commit": self.handle_git_commit,
+            "/git/revert": self.handle_git_revert,
+        })
+
+    def check_token(self):
+        header = self.headers.get("Authorization") or ""
+        supplied = header[len("Bearer "):] if header.startswith("Bearer ") else ""
+        if not hmac.compare_digest(supplied.encode("utf-8"), TOKEN.encode("utf-8")):
+            raise BridgeError(401, "Missing or wrong bridge token")
+
+    def dispatch(self, routes):
+        url = urlparse(self.path)
+        handler = routes.get(url.path)
+        try:
+            self.check_token()
+            if handler is None:
+                raise BridgeError(404, f"Unknown endpoint: {url.path}")
+            handler({k: v[0] for k, v in parse_qs(url.query).items()})
+        except BridgeError as e:
+            self.send_error_json(e.status, e.message)
+        except (BrokenPipeError, ConnectionResetError):
+            pass
+        except OSError as e:
+            self.send_error_json(500, str(e))
+        except Exception as e:
+            # Answer anyway: a dropped connection looks to the client like the bridge is down
+            traceback.print_exc()
+            self.send_error_json(500, f"Internal bridge error: {e}")
+
+    def handle_status(self, query):
+        self.send_json(200, {
+            "status": "ok", "bridge": BRIDGE_ID, "version": PROTOCOL_VERSION, "root": ROOT, "allowlist": ALLOWLIST,
+        })
+
+    def handle_ls(self, query):
+        full = resolve(query.get("path", "."))
+        if not os.path.isdir(full):
+            raise BridgeError(404, f"Not a directory: {query.get('path')}")
+        items = []
+        for entry in os.scandir(full):
+            if entry.name in HIDDEN:
+                continue
+            items.append({
+                "name": entry.name,
+                "kind": "directory" if entry.is_dir() else "file",
+                "path": relative(entry.path),
+            })
+        self.send_json(200, items)
+
+    def handle_read(self, query):
+        full = resolve(query.get("path"))
+        if not os.path.isfile(full):
+            raise BridgeError(404, f"No such file: {query.get('path')}")
+        with open(full, "r", encoding="utf-8", errors="replace", newline="") as f:
+            self.send_json(200, {"content": f.read()})
+
+    def handle_raw(self, query):
+        """Serves a file's bytes unchanged, for binary assets such as images and fonts."""
+        full = resolve(query.get("path"))
+        if not os.path.isfile(full):
+            raise BridgeError(404, f"No such file: {query.get('path')}")
+        with open(full, "rb") as f:
+            body = f.read()
+        self.send_response(200)
+        self.send_cors()
+        self.send_header("Content-Type", "application/octet-stream")
+        self.send_header("Content-Length", str(len(body)))
+        self.end_headers()
+        self.wfile.write(body)
+
+    def handle_write(self, query):
+        data = self.read_json()
+        full = resolve(data.get("path"))
+        os.makedirs(os.path.dirname(full), exist_ok=True)
+        with open(full, "w", encoding="utf-8", newline="") as f:
+            f.write(data.get("content", ""))
+        self.send_json(200, {"ok": True})
+
+    def handle_delete(self, query):
+        full = resolve(self.read_json().get("path"))
+        if not os.path.isfile(full):
+            raise BridgeError(404, "No such file")
+        os.remove(full)
+        self.send_json(200, {"ok": True})
+
+    def handle_kill(self, query):
+        run_id = self.read_json().get("id")
+        with RUNNING_LOCK:
+            process = RUNNING.get(run_id)
+        if process is None:
+            raise BridgeError(404, "No such running command")
+        kill(process)
+        self.send_json(200, {"ok": True})
+
+    def handle_git_status(self, query):
+        if run_git("rev-parse", "--is-inside-work-tree", check=False).returncode != 0:
+            self.send_json(200, {"isRepo": False, "branch": None, "files": {}})
+            return
+        branch = run_git("branch", "--show-current").stdout.strip() or None
+        prefix = run_git("rev-parse", "--show-prefix").stdout.strip()
+        status = run_git("status", "--porcelain=v1", "-z", "--untracked-files=normal", "--", ".").stdout
+        self.send_json(200, {"isRepo": True, "branch": branch, "files": parse_status(status, prefix)})
+
+    def handle_git_log(self, query):
+        require_repo()
+        try:
+            limit = max(1, min(int(query.get("limit", 50)), 500))
+        except ValueError:
+            raise BridgeError(400, "limit must be a number")
+        fmt = f"%H%x1f%s%x1f%an%x1f%at%x1f%(trailers:key={CHANGE_SET_TRAILER},valueonly,separator=%x2c)%x1e"
+        result = run_git("log", f"-{limit}", f"--format={fmt}", check=False)
+        commits = []
+        # A repository without commits yet has no log; that's an empty history, not an error.
+        for record in result.stdout.split("\x1e") if result.returncode == 0 else []:
+            fields = record.strip("\n").split("\x1f")
+            if len(fields) < 5:
+                continue
+            sha, subject, author, timestamp, change_set = fields
+            commits.append({
+                "sha": sha, "subject": subject, "author": author,
+                "timestamp": int(timestamp) * 1000, "changeSetId": change_set.strip() or None,
+            })
+        self.send_json(200, commits)
+
+    def handle_git_branch(self, query):
+        require_repo()
+        name = (self.read_json().get("name") or "").strip()
+        if not name or run_git("check-ref-format", "--branch", name, check=False).returncode != 0:
+            raise BridgeError(400, f"Invalid branch name: {name}")
+        exists = run_git("rev-parse", "--verify", "--quiet", f"refs/heads/{name}", check=False).returncode == 0
+        # Uncommitted changes carry over to the new branch, as with `git switch -c`.
+        if exists:
+            run_git("switch", name)
+        else:
+            run_git("switch", "-c", name)
+        self.send_json(200, {"branch": name, "created": not exists})
+
+    def handle_git_commit(self, query):
+        """Commits only the given paths, so unrelated work in the tree stays uncommitted."""
+        require_repo()
+        data = self.read_json()
+        message = (data.get("message") or "").strip()
+        paths = [relative(resolve(p)) for p in data.get("paths") or []]
+        if not message or not paths:
+            raise BridgeError(400, "A commit needs a message and at least one path")
+        if data.get("changeSetId"):
+            message += f"\n\n{CHANGE_SET_TRAILER}: {data['changeSetId']}"
+        # A file that was created and deleted again is neither on disk nor tracked; git add would reject it.
+        # One whose deletion is already staged is only in HEAD, and just needs committing.
+        tracked = set(run_git("ls-files", "-z", "--", *paths).stdout.split("\0"))
+        in_head = set(run_git("ls-tree", "-r", "-z", "--name-only", "HEAD", "--", *paths, check=False).stdout.split("\0"))
+        addable = [p for p in paths if p in tracked or os.path.lexists(os.path.join(ROOT, p))]
+        paths = [p for p in paths if p in addable or p in in_head]
+        if not paths:
+            raise BridgeError(409, "Nothing to commit: none of the files exist or are tracked")
+        if addable:
+            run_git("add", "-A", "--", *addable)
+        if run_git("diff", "--cached", "--quiet", "--", *paths, check=False).returncode == 0:
+            raise BridgeError(409, "Nothing to commit: the files match the last commit")
+        run_git("commit", "-m", message, "--", *paths)
+        self.send_json(200, {"sha": run_git("rev-parse", "HEAD").stdout.strip()})
+
+    def handle_git_revert(self, query):
+        require_repo()
+        sha = (self.read_json().get("sha") or "").strip()
+        if run_git("rev-parse", "--verify", "--quiet", f"{sha}^{{commit}}", check=False).returncode != 0:
+            raise BridgeError(404, f"No such commit: {sha}")
+        result = run_git("revert", "--no-edit", sha, check=False)
+        if result.returncode != 0:
+            # Leave the tree as it was rather than half-reverted with conflict markers.
+            run_git("revert", "--abort", check=False)
+            raise BridgeError(409, f"Could not revert {sha[:7]} cleanly; later commits changed the same lines")
+        self.send_json(200, {"sha": run_git("rev-parse", "HEAD").stdout.strip()})
+
+    def handle_exec(self, query):
+        """Runs a command and streams NDJSON events: start, stdout, stderr, then exit."""
+        data = self.read_json()
+        try:
+            argv = shlex.split(data.get("command", ""))
+        except ValueError as e:
+            raise BridgeError(400, f"Could not parse command: {e}")
+        if not argv:
+            raise BridgeError(400, "Empty command")
+        if not is_allowed(argv):
+            raise BridgeError(403, f"Command not in allowlist: {argv[0]}")
+        cwd = resolve(data.get("cwd", "."))
+
+        # No shell, so "&&", pipes and redirects can't smuggle in other commands.
+        try:
+            process = subprocess.Popen(
+                argv, cwd=cwd, stdout=subprocess.PIPE, stderr=subprocess.PIPE, bufsize=0,
+                start_new_session=os.name == "posix",
+            )
+        except FileNotFoundError:
+            raise BridgeError(400, f"Command not found: {argv[0]}")
+        run_id = uuid.uuid4().hex
+        with RUNNING_LOCK:
+            RUNNING[run_id] = process
+
+        self.send_response(200)
+        self.send_cors()
+        self.send_header("Content-Type", "application/x-ndjson")
+        self.end_headers()
+
+        write_lock = threading.Lock()
+
+        def send(event):
+            line = (json.dumps(event) + "\n").encode("utf-8")
+            with write_lock:
+                self.wfile.write(line)
+                self.wfile.flush()
+
+        def pump(stream, name):
+            # Incremental so multi-byte characters split across reads decode correctly.
+            decoder = codecs.getincrementaldecoder("utf-8")(errors="replace")
+            try:
+                for chunk in iter(lambda: stream.read(4096), b""):
+                    send({"type": name, "data": decoder.decode(chunk)})
+            except (BrokenPipeError, ConnectionResetError):
+                # The client went away; don't leave the command running unattended.
+                kill(process)
+
+        try:
+            send({"type": "start", "id": run_id})
+            readers = [
+                threading.Thread(target=pump, args=(process.stdout, "stdout")),
+                threading.Thread(target=pump, args=(process.stderr, "stderr")),
+            ]
+            for reader in readers:
+                reader.start()
+            for reader in readers:
+                reader.join()
+            send({"type": "exit", "code": process.wait()})
+        except (BrokenPipeError, ConnectionResetError):
+            kill(process)
+        finally:
+            process.wait()
+            with RUNNING_LOCK:
+                RUNNING.pop(run_id, None)
+
+
+def main():
+    global ROOT, ALLOWLIST, TOKEN
+    parser = argparse.ArgumentParser(description="ForgeAI local bridge")
+    parser.add_argument("workspace", nargs="?", default=".", help="directory to serve (default: current)")
+    parser.add_argument("--host", default="127.0.0.1")
+    parser.add_argument("--port", type=int, default=8000)
+    parser.add_argument("--allow", action="append", help="command prefix that may be run; repeatable")
+    parser.add_argument("--token", default=os.environ.get("FORGEAI_BRIDGE_TOKEN"), help="shared secret clients must send")
+    args = parser.parse_args()
+
+    ROOT = os.path.realpath(args.workspace)
+    if args.allow:
+        ALLOWLIST = args.allow
+    TOKEN = args.token or secrets.token_urlsafe(18)
+
+    server = ThreadingHTTPServer((args.host, args.port), BridgeHandler)
+    print(f"Bridge serving {ROOT} on http://{args.host}:{args.port}")
+    print("Allowed commands: " + ", ".join(ALLOWLIST))
+    if not args.token:
+        print(f"Bridge token (enter it in the app's bridge settings): {TOKEN}")
+    try:
+        server.serve_forever()
+    except KeyboardInterrupt:
+        pass
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,162 @@
+
+import { spawn, spawnSync, ChildProcess } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { bridgeClient, BridgeError } from './services/bridgeClient';
+import { CommandEvent, FileSystemService } from './services/fileSystemService';
+import { gitService } from './services/gitService';
+
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+const TOKEN = 'test-token';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as { port: number };
+      probe.close(() => resolve(port));
+    }).on('error', reject);
+  });
+}
+
+// Starts server.py on a fresh port for the workspace and points the shared client at it.
+async function startBridge(workspace: string, args: string[] = []): Promise<ChildProcess> {
+  const port = await freePort();
+  const bridge = spawn('python3', ['-u', join(__dirname, 'server.py'), workspace, '--port', String(port), '--token', TOKEN, ...args], {
+    env: { ...process.env, GIT_AUTHOR_NAME: 'Test', GIT_AUTHOR_EMAIL: 'test@example.com', GIT_COMMITTER_NAME: 'Test', GIT_COMMITTER_EMAIL: 'test@example.com' }
+  });
+  await new Promise<void>((resolve, reject) => {
+    bridge.stdout!.on('data', (chunk: Buffer) => { if (chunk.toString().includes('Bridge serving')) resolve(); });
+    bridge.on('exit', code => reject(new Error(`server.py exited with ${code}`)));
+  });
+  bridgeClient.updateSettings({ url: `http://127.0.0.1:${port}`, token: TOKEN });
+  return bridge;
+}
+
+describe.skipIf(!hasPython)('server.py', () => {
+  let workspace: string;
+  let bridge: ChildProcess;
+
+  beforeAll(async () => {
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+    workspace = mkdtempSync(join(tmpdir(), 'forgeai-bridge-'));
+    bridge = await startBridge(workspace, ['--allow', 'python3 -c']);
+  });
+
+  afterAll(() => {
+    bridge?.kill();
+    rmSync(workspace, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it('answers /status only with the right token', async () => {
+    expect(await bridgeClient.checkHealth()).toEqual({ health: 'connected', allowlist: ['python3 -c'] });
+    bridgeClient.updateSettings({ token: 'wrong' });
+    try {
+      expect(await bridgeClient.checkHealth()).toMatchObject({ health: 'unauthorized' });
+    } finally {
+      bridgeClient.updateSettings({ token: TOKEN });
+    }
+  });
+
+  it('writes, reads and deletes files inside the workspace only', async () => {
+    await bridgeClient.request('/write', { method: 'POST', body: { path: 'src/a.ts', content: 'é\r\n' } });
+    expect(readFileSync(join(workspace, 'src/a.ts'), 'utf-8')).toBe('é\r\n');
+    expect(await bridgeClient.request('/read', { query: { path: 'src/a.ts' } })).toEqual({ content: 'é\r\n' });
+
+    await bridgeClient.request('/delete', { method: 'POST', body: { path: 'src/a.ts' } });
+    await expect(bridgeClient.request('/read', { query: { path: 'src/a.ts' } })).rejects.toMatchObject({ code: 'not_found' });
+    await expect(bridgeClient.request('/read', { query: { path: '../etc/passwd' } })).rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('answers malformed requests with 400', async () => {
+    const resp = await fetch(`${bridgeClient.getSettings().url}/write`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}` },
+      body: '{"path":'
+    });
+    expect(resp.status).toBe(400);
+    expect(await resp.json()).toEqual({ error: 'Request body is not valid JSON', code: 'bad_request' });
+    await expect(bridgeClient.request('/write', { method: 'POST', body: { path: 42 } }))
+      .rejects.toEqual(new BridgeError('bad_request', 'Path must be a string, got int', 400));
+  });
+
+  it('streams allowlisted commands and refuses others', async () => {
+    const fs = new FileSystemService();
+    expect(await fs.checkConnection()).toBe(true);
+
+    const events: CommandEvent[] = [];
+    const code = await fs.execCommand('python3 -c "import sys; print(\'out\'); sys.exit(3)"', event => events.push(event));
+    expect(code).toBe(3);
+    expect(events[0].type).toBe('start');
+    expect(events.filter(e => e.type === 'stdout').map(e => (e as { data: string }).data).join('')).toBe('out\n');
+
+    await expect(fs.execCommand('rm -rf .', () => {})).rejects.toMatchObject({ code: 'forbidden', message: 'Command not in allowlist: rm' });
+  });
+});
+
+describe.skipIf(!hasPython)('server.py git', () => {
+  let repo: string;
+  let bridge: ChildProcess;
+  const git = (...args: string[]) => spawnSync('git', args, { cwd: repo, encoding: 'utf-8' }).stdout.trim();
+  const write = (path: string, content: string) => writeFileSync(join(repo, path), content);
+
+  beforeAll(async () => {
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+    repo = mkdtempSync(join(tmpdir(), 'forgeai-git-'));
+    mkdirSync(join(repo, 'app'));
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    write('root.txt', 'root');
+    write('app/kept.ts', 'kept');
+    write('app/edited.ts', 'one');
+    write('app/removed.ts', 'gone');
+    write('app/old.ts', 'renamed');
+    git('add', '-A');
+    git('commit', '-qm', 'init');
+    // Serve a subdirectory, so paths come back relative to it
+    bridge = await startBridge(join(repo, 'app'));
+  });
+
+  afterAll(() => {
+    bridge?.kill();
+    rmSync(repo, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it('reports file status relative to the workspace', async () => {
+    write('app/edited.ts', 'two');
+    write('app/new file.ts', 'new');
+    write('root.txt', 'outside the workspace');
+    git('rm', '-q', 'app/removed.ts');
+    git('mv', 'app/old.ts', 'app/new.ts');
+
+    const status = await gitService.status();
+    expect(status).toEqual({
+      isRepo: true,
+      branch: git('branch', '--show-current'),
+      files: { 'edited.ts': 'modified', 'new file.ts': 'untracked', 'removed.ts': 'deleted', 'new.ts': 'renamed' }
+    });
+  });
+
+  it('commits only the given paths and tags them with the change set id', async () => {
+    const sha = await gitService.commit('Edit', ['edited.ts', 'new file.ts'], 'set-1');
+    expect(git('log', '-1', '--format=%B')).toBe('Edit\n\nForgeAI-Change-Set: set-1');
+    expect(git('show', '--name-only', '--format=', sha).split('\n')).toEqual(['app/edited.ts', 'app/new file.ts']);
+
+    await gitService.commit('Manual', ['removed.ts', 'new.ts', 'old.ts']);
+    const [manual, edit, init] = await gitService.log();
+    expect([manual.subject, manual.changeSetId]).toEqual(['Manual', null]);
+    expect([edit.sha, edit.subject, edit.author, edit.changeSetId]).toEqual([sha, 'Edit', 'Test', 'set-1']);
+    expect(init.subject).toBe('init');
+    expect((await gitService.status()).files).toEqual({});
+  });
+
+  it('refuses commits with nothing to record', async () => {
+    await expect(gitService.commit('Again', ['edited.ts'])).rejects.toMatchObject({ code: 'conflict', message: 'Nothing to commit: the files match the last commit' });
+    await expect(gitService.commit('Ghost', ['missing.ts'])).rejects.toMatchObject({ code: 'conflict' });
+  });
+});
@@ -0,0 +1,108 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentToolbox, MAX_READ_CHARS, MAX_TOOL_CALLS, MAX_TOTAL_READ_CHARS } from './agentTools';
+
+const files = new Map<string, string>();
+
+vi.mock('./fileSystemService', () => ({
+  fsService: {
+    scanDirectory: async (path: string) => [...files.keys()]
+      .filter(p => path === '.' ? !p.includes('/') : p.startsWith(`${path}/`) && !p.slice(path.length + 1).includes('/'))
+      .map(p => ({ name: p.split('/').pop(), path: p, kind: 'file' })),
+    tryReadFile: async (path: string) => files.get(path) ?? null
+  }
+}));
+
+vi.mock('./searchService', () => ({
+  searchService: {
+    search: async ({ query }: { query: string }, onResult: (result: any) => void, signal: AbortSignal) => {
+      for (const [path, content] of files) {
+        if (signal.aborted) return;
+        const matches = content.split('\n')
+          .map((text, i) => ({ line: i + 1, preview: text }))
+          .filter(m => m.preview.includes(query));
+        if (matches.length > 0) onResult({ path, matches });
+      }
+    }
+  }
+}));
+
+let id = 0;
+const call = (name: string, args: Record<string, any>) => ({ id: `call_${++id}`, name, args });
+
+describe('AgentToolbox', () => {
+  let toolbox: AgentToolbox;
+
+  beforeEach(() => {
+    files.clear();
+    files.set('README.md', 'hello\nworld\n');
+    files.set('src/app.ts', 'const a = 1;\nconst b = 2;\nconst c = 3;');
+    toolbox = new AgentToolbox();
+  });
+
+  it('lists directories and reads line ranges', async () => {
+    expect((await toolbox.execute(call('list_dir', { path: './src/' }))).output).toBe('app.ts');
+    expect((await toolbox.execute(call('list_dir', { path: './' }))).output).toBe('README.md');
+    const step = await toolbox.execute(call('read_file', { path: 'src/app.ts', startLine: 2, endLine: 3 }));
+    expect(step.output).toBe('[src/app.ts lines 2-3 of 3]\nconst b = 2;\nconst c = 3;');
+  });
+
+  it('reports bad paths and unknown tools as errors for the model', async () => {
+    expect(await toolbox.execute(call('read_file', { path: '../etc/passwd' }))).toMatchObject({ isError: true, output: '../etc/passwd is outside the workspace' });
+    expect(await toolbox.execute(call('read_file', { path: 'missing.ts' }))).toMatchObject({ isError: true, output: 'missing.ts does not exist' });
+    expect(await toolbox.execute(call('rm_rf', {}))).toMatchObject({ isError: true, output: 'Unknown tool: rm_rf' });
+  });
+
+  it('returns search matches as path:line: text', async () => {
+    expect((await toolbox.execute(call('search', { query: 'const b' }))).output).toBe('src/app.ts:2: const b = 2;');
+    expect((await toolbox.execute(call('search', { query: 'nothing' }))).output).toBe('No matches.');
+  });
+
+  it(`stops after ${MAX_TOOL_CALLS} calls`, async () => {
+    for (let i = 0; i < MAX_TOOL_CALLS; i++) {
+      expect((await toolbox.execute(call('list_dir', { path: '.' }))).isError).toBeUndefined();
+    }
+    const over = await toolbox.execute(call('list_dir', { path: '.' }));
+    expect(over.isError).toBe(true);
+    expect(over.output).toContain(`Tool call limit (${MAX_TOOL_CALLS}) reached`);
+  });
+
+  it('truncates single reads and enforces the total read budget', async () => {
+    files.set('big.txt', 'x'.repeat(MAX_READ_CHARS * 2));
+    const first = await toolbox.execute(call('read_file', { path: 'big.txt' }));
+    expect(first.output).toContain(`truncated at ${MAX_READ_CHARS} characters`);
+
+    const reads = MAX_TOTAL_READ_CHARS / MAX_READ_CHARS;
+    for (let i = 1; i < reads; i++) await toolbox.execute(call('read_file', { path: 'big.txt' }));
+    expect(await toolbox.execute(call('read_file', { path: 'README.md' }))).toMatchObject({
+      isError: true,
+      output: 'Read budget for this request is used up.'
+    });
+  });
+
+  it('records proposed changes, replacing full rewrites and accumulating patches', async () => {
+    await toolbox.execute(call('propose_change', { path: 'new.ts', action: 'create', content: 'one' }));
+    await toolbox.execute(call('propose_change', { path: './new.ts', action: 'update', content: 'two' }));
+    await toolbox.execute(call('propose_change', { path: 'src/app.ts', action: 'patch', hunks: [{ search: 'a = 1', replace: 'a = 10' }] }));
+    const step = await toolbox.execute(call('propose_change', { path: 'src/app.ts', action: 'patch', hunks: [{ startLine: 3, replace: 'const c = 30;' }] }));
+
+    expect(step.output).toBe('Recorded patch for src/app.ts.');
+    expect(toolbox.changes).toEqual([
+      { path: 'new.ts', action: 'update', content: 'two', hunks: undefined },
+      { path: 'src/app.ts', action: 'patch', content: '', hunks: [{ search: 'a = 1', replace: 'a = 10' }, { startLine: 3, endLine: 3, replace: 'const c = 30;' }] }
+    ]);
+  });
+
+  it('rejects malformed proposals without recording them', async () => {
+    const badHunks = await toolbox.execute(call('propose_change', { path: 'a.ts', action: 'patch', hunks: [{ search: 'x' }, { replace: 'y' }] }));
+    expect(badHunks.isError).toBe(true);
+    expect(badHunks.output).toBe([
+      'a.ts hunk 1: "replace" must be a string (use "" to delete text).',
+      'a.ts hunk 2: needs a non-empty "search" string or a 1-based "startLine".'
+    ].join('\n'));
+    expect((await toolbox.execute(call('propose_change', { path: 'a.ts', action: 'create' }))).output).toBe('create needs the full file content');
+    expect((await toolbox.execute(call('propose_change', { path: 'a.ts', action: 'rename' }))).output).toBe('Unknown action: rename');
+    expect((await toolbox.execute(call('propose_change', { path: '.env', action: 'update', content: 'KEY=1' }))).output).toContain('.env cannot be written');
+    expect(toolbox.changes).toEqual([]);
+  });
+});
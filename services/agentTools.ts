@@ -0,0 +1,201 @@
+
+import { fsService } from './fileSystemService';
+import { searchService } from './searchService';
+import { normalizeWorkspacePath, writePolicy } from './writePolicy';
+import { ToolDeclaration } from './providers/llmProvider';
+import { validateHunks } from '../utils/responseValidation';
+import { AgentStep, FileChange, PatchHunk, ToolCall } from '../types';
+
+// Per-request caps so one question can't read the whole repository into the model.
+export const MAX_TOOL_CALLS = 25;
+export const MAX_READ_CHARS = 20000;
+export const MAX_TOTAL_READ_CHARS = 200000;
+const MAX_LIST_ENTRIES = 500;
+const MAX_SEARCH_MATCHES = 50;
+
+export const TOOL_DECLARATIONS: ToolDeclaration[] = [
+  {
+    name: 'list_dir',
+    description: 'List the files and subdirectories of a workspace directory. Directories end with "/".',
+    parameters: {
+      type: 'object',
+      properties: { path: { type: 'string', description: 'Workspace-relative directory; "." for the root.' } },
+      required: ['path']
+    }
+  },
+  {
+    name: 'read_file',
+    description: `Read a text file, optionally a 1-based inclusive line range. Output is capped at ${MAX_READ_CHARS} characters.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Workspace-relative file path.' },
+        startLine: { type: 'integer' },
+        endLine: { type: 'integer' }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'search',
+    description: `Search file contents across the workspace. Returns up to ${MAX_SEARCH_MATCHES} matching lines as path:line: text.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        regex: { type: 'boolean', description: 'Treat query as a regular expression.' },
+        include: { type: 'string', description: 'Comma-separated globs to limit the search, e.g. "src/**, *.ts".' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'propose_change',
+    description: 'Record a file change for the user to review. Nothing is written until they approve it. '
+      + 'Prefer action "patch" with hunks copied exactly from the file for edits; use full content for new files.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        action: { type: 'string', enum: ['create', 'update', 'delete', 'patch'] },
+        content: { type: 'string', description: 'Full file content for create and update.' },
+        hunks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              search: { type: 'string', description: 'Exact existing text to replace.' },
+              startLine: { type: 'integer' },
+              endLine: { type: 'integer' },
+              replace: { type: 'string' }
+            },
+            required: ['replace']
+          }
+        }
+      },
+      required: ['path', 'action']
+    }
+  }
+];
+
+class ToolError extends Error {}
+
+// Only list_dir takes the workspace root, written as "." or left empty.
+function toolPath(path: unknown, allowRoot = false): string {
+  if (typeof path !== 'string') throw new ToolError('path must be a string');
+  if (allowRoot && /^\.?\/?$/.test(path.trim())) return '.';
+  const normalized = normalizeWorkspacePath(path);
+  if (normalized === null) throw new ToolError(`${path} is outside the workspace`);
+  return normalized;
+}
+
+/**
+ * Executes tool calls for a single request, enforcing the call and read caps and
+ * collecting proposed changes.
+ */
+export class AgentToolbox {
+  readonly changes: FileChange[] = [];
+  private calls = 0;
+  private readChars = 0;
+
+  async execute(call: ToolCall): Promise<AgentStep> {
+    this.calls++;
+    if (this.calls > MAX_TOOL_CALLS) {
+      return { call, output: `Tool call limit (${MAX_TOOL_CALLS}) reached. Give your final answer now without calling tools.`, isError: true };
+    }
+    try {
+      return { call, output: await this.run(call) };
+    } catch (err: any) {
+      return { call, output: err instanceof ToolError ? err.message : `Failed: ${err.message}`, isError: true };
+    }
+  }
+
+  private async run({ name, args }: ToolCall): Promise<string> {
+    switch (name) {
+      case 'list_dir': return this.listDir(toolPath(args.path ?? '.', true));
+      case 'read_file': return this.readFile(toolPath(args.path), args.startLine, args.endLine);
+      case 'search': return this.search(args);
+      case 'propose_change': return this.proposeChange(args);
+      default: throw new ToolError(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async listDir(path: string): Promise<string> {
+    const nodes = await fsService.scanDirectory(path);
+    if (nodes.length === 0) return '(empty or missing directory)';
+    const names = nodes.slice(0, MAX_LIST_ENTRIES).map(n => (n.kind === 'directory' ? `${n.name}/` : n.name));
+    if (nodes.length > MAX_LIST_ENTRIES) names.push(`... ${nodes.length - MAX_LIST_ENTRIES} more`);
+    return names.join('\n');
+  }
+
+  private async readFile(path: string, startLine?: number, endLine?: number): Promise<string> {
+    const remaining = MAX_TOTAL_READ_CHARS - this.readChars;
+    if (remaining <= 0) throw new ToolError('Read budget for this request is used up.');
+
+    const content = await fsService.tryReadFile(path);
+    if (content === null) throw new ToolError(`${path} does not exist`);
+    if (content.includes('\0')) throw new ToolError(`${path} is a binary file`);
+
+    const lines = content.split('\n');
+    const from = Math.max(1, Math.floor(startLine ?? 1));
+    const to = Math.min(lines.length, Math.floor(endLine ?? lines.length));
+    let text = lines.slice(from - 1, to).join('\n');
+    const limit = Math.min(MAX_READ_CHARS, remaining);
+    let note = `${path} lines ${from}-${to} of ${lines.length}`;
+    if (text.length > limit) {
+      text = text.slice(0, limit);
+      note += `; truncated at ${limit} characters, read a narrower line range for the rest`;
+    }
+    this.readChars += text.length;
+    return `[${note}]\n${text}`;
+  }
+
+  private async search(args: Record<string, any>): Promise<string> {
+    if (typeof args.query !== 'string' || !args.query) throw new ToolError('query is required');
+    const lines: string[] = [];
+    const controller = new AbortController();
+    await searchService.search(
+      { query: args.query, regex: !!args.regex, caseSensitive: false, include: args.include ?? '', exclude: '' },
+      result => {
+        for (const match of result.matches) {
+          if (lines.length >= MAX_SEARCH_MATCHES) {
+            controller.abort();
+            return;
+          }
+          lines.push(`${result.path}:${match.line}: ${match.preview.trim()}`);
+        }
+      },
+      controller.signal
+    );
+    if (lines.length === 0) return 'No matches.';
+    return lines.join('\n') + (controller.signal.aborted ? `\n(stopped at ${MAX_SEARCH_MATCHES} matches)` : '');
+  }
+
+  private proposeChange(args: Record<string, any>): string {
+    const path = toolPath(args.path);
+    const action = args.action as FileChange['action'];
+    if (!['create', 'update', 'delete', 'patch'].includes(action)) throw new ToolError(`Unknown action: ${args.action}`);
+
+    let hunks: PatchHunk[] | undefined;
+    if (action === 'patch') {
+      const problems: string[] = [];
+      hunks = validateHunks(args.hunks, path, problems) ?? undefined;
+      if (!hunks) throw new ToolError(problems.join('\n'));
+    } else if ((action === 'create' || action === 'update') && typeof args.content !== 'string') {
+      throw new ToolError(`${action} needs the full file content`);
+    }
+
+    // Tell the model now rather than leaving a change the user can't apply.
+    const verdict = writePolicy.check({ path, action, content: typeof args.content === 'string' ? args.content : '', hunks });
+    if (verdict.level === 'block') throw new ToolError(`${path} cannot be written: ${verdict.reason}`);
+
+    // A later proposal for the same file replaces the earlier one, except patches, which accumulate.
+    const index = this.changes.findIndex(c => c.path === path);
+    const previous = this.changes[index];
+    const change: FileChange = previous?.action === 'patch' && action === 'patch'
+      ? { ...previous, hunks: [...(previous.hunks ?? []), ...hunks!] }
+      : { path, action, content: typeof args.content === 'string' ? args.content : '', hunks };
+    if (index === -1) this.changes.push(change); else this.changes[index] = change;
+    return `Recorded ${action} for ${path}.`;
+  }
+}
@@ -0,0 +1,141 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIResponse } from '../types';
+import { aiService, providers } from './aiService';
+import { MockProvider } from './providers/mockProvider';
+
+vi.mock('./fileSystemService', () => ({
+  fsService: {
+    scanDirectory: async () => [{ name: 'README.md', path: 'README.md', kind: 'file' }],
+    tryReadFile: async () => null
+  }
+}));
+
+const mock = providers.mock as MockProvider;
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value)
+  });
+  vi.restoreAllMocks();
+  mock.setScript([]);
+  aiService.updateSettings({ provider: 'mock', model: 'scripted', useTools: true });
+});
+
+describe('tool loop', () => {
+  it('streams each step and returns the tool steps and proposed changes', async () => {
+    const partials: AIResponse[] = [];
+    const response = await aiService.generateCode('Add docs', 'ctx', [], { onPartial: p => partials.push(p) });
+
+    expect(response.steps?.map(s => s.call.name)).toEqual(['list_dir', 'propose_change']);
+    expect(response.changes).toEqual([{ path: 'mock/add-docs.md', action: 'create', content: '# Add docs\n', hunks: undefined }]);
+    expect(response.message).toBe('Mock response for: Add docs');
+    expect(response.thinking).toBe('Mock provider, tool round 1.\n\nMock provider, tool round 2.\n\nMock provider, tool round 3.');
+    expect(response.usage?.calls).toBe(3);
+
+    // The final text arrives as a delta before the step finishes
+    const streamed = partials.find(p => p.message === 'Mock response for: Add docs');
+    expect(streamed?.steps).toHaveLength(2);
+    expect(partials[0].thinking).toBe('Mock provider, tool round 1.');
+  });
+
+  it('keeps the steps so far when cancelled', async () => {
+    const controller = new AbortController();
+    const step = providers.mock.step!.bind(providers.mock);
+    vi.spyOn(providers.mock, 'step').mockImplementation(async (request, options) => {
+      if (request.messages.some(m => m.role === 'tool')) controller.abort();
+      return step(request, options);
+    });
+
+    const response = await aiService.generateCode('Add docs', 'ctx', [], { signal: controller.signal });
+    expect(response.incomplete).toBe(true);
+    expect(response.steps).toHaveLength(1);
+  });
+
+  it('reports other failures instead of a partial reply', async () => {
+    const step = providers.mock.step!.bind(providers.mock);
+    vi.spyOn(providers.mock, 'step').mockImplementation(async (request, options) => {
+      if (request.messages.some(m => m.role === 'tool')) throw new Error('401 Unauthorized');
+      return step(request, options);
+    });
+
+    await expect(aiService.generateCode('Add docs', 'ctx')).rejects.toThrow('401 Unauthorized');
+  });
+});
+
+describe('invalid responses', () => {
+  beforeEach(() => {
+    aiService.updateSettings({ useTools: false });
+  });
+
+  it('asks again once with the problems listed', async () => {
+    mock.setScript(['Sure, here is the code.', { thinking: '', message: 'Fixed', changes: [] }]);
+    const generate = vi.spyOn(mock, 'generate');
+
+    const response = await aiService.generateCode('Add docs', 'ctx');
+    expect(response.message).toBe('Fixed');
+    expect(response.diagnostics?.[0]).toContain('The first response was invalid and was requested again');
+    expect(response.usage?.calls).toBe(2);
+
+    const retryTurns = generate.mock.calls[1][0].turns;
+    expect(retryTurns[retryTurns.length - 2]).toEqual({ role: 'assistant', text: 'Sure, here is the code.' });
+    expect(retryTurns[retryTurns.length - 1].text).toContain('Your last response could not be used:');
+  });
+
+  it('reports a second invalid response', async () => {
+    mock.setScript(['not json', '{"changes": "none"}']);
+    await expect(aiService.generateCode('Add docs', 'ctx')).rejects.toMatchObject({
+      name: 'InvalidResponseError',
+      retried: true,
+      problems: ['"changes" must be an array, got string.']
+    });
+  });
+});
+
+describe('retries', () => {
+  const failure = (status: number, retryAfterMs?: number) => Object.assign(new Error(`HTTP ${status}`), { status, retryAfterMs });
+
+  beforeEach(() => {
+    aiService.updateSettings({ useTools: false });
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially unless the API says how long to wait', async () => {
+    mock.setScript([failure(429), failure(503), failure(503, 5000), { thinking: '', message: 'Done', changes: [] }]);
+    const onRetry = vi.fn();
+
+    const promise = aiService.generateCode('Add docs', 'ctx', [], { onRetry });
+    await vi.runAllTimersAsync();
+    expect((await promise).message).toBe('Done');
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.delayMs])).toEqual([[1, 1000], [2, 2000], [3, 5000]]);
+  });
+
+  it('gives up after three retries', async () => {
+    mock.setScript([failure(500), failure(500), failure(500), failure(500), { thinking: '', message: 'Too late', changes: [] }]);
+    const promise = aiService.generateCode('Add docs', 'ctx');
+    const settled = expect(promise).rejects.toThrow('HTTP 500');
+    await vi.runAllTimersAsync();
+    await settled;
+  });
+
+  it('does not retry client errors', async () => {
+    mock.setScript([failure(400)]);
+    const onRetry = vi.fn();
+    await expect(aiService.generateCode('Add docs', 'ctx', [], { onRetry })).rejects.toThrow('HTTP 400');
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting when cancelled', async () => {
+    mock.setScript([failure(429)]);
+    const controller = new AbortController();
+    const promise = aiService.generateCode('Add docs', 'ctx', [], { signal: controller.signal, onRetry: () => queueMicrotask(() => controller.abort()) });
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,389 @@
+
+import { AIResponse, AgentStep, Attachment, ChatMessage, InlineEditResult, MessageUsage, ModelSettings, ProviderId, TokenUsage } from '../types';
+import { buildConversation, appendUserTurn, ConversationTurn } from '../utils/conversation';
+import { LLMProvider, GenerateOptions, GenerateRequest, AgentMessage, RESPONSE_FORMAT_INSTRUCTIONS, PLAN_FORMAT_INSTRUCTIONS, InvalidResponseError } from './providers/llmProvider';
+import { AgentToolbox, MAX_TOOL_CALLS, TOOL_DECLARATIONS } from './agentTools';
+import { usageTracker, addUsage, EMPTY_USAGE, BudgetExceededError } from './usageTracker';
+import { inlineEditPrompt, extractReplacement, SELECTION_START, SELECTION_END, CURSOR } from '../utils/inlineEdit';
+import { loadJson, saveJson } from '../utils/storage';
+import { GeminiProvider } from './providers/geminiProvider';
+import { OpenAICompatibleProvider } from './providers/openAIProvider';
+import { OllamaProvider } from './providers/ollamaProvider';
+import { MockProvider } from './providers/mockProvider';
+
+const SETTINGS_KEY = 'forgeai.modelSettings';
+
+export const providers: Record<ProviderId, LLMProvider> = {
+  gemini: new GeminiProvider(),
+  openai: new OpenAICompatibleProvider(),
+  ollama: new OllamaProvider(),
+  mock: new MockProvider()
+};
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  provider: 'gemini',
+  model: providers.gemini.defaultModel,
+  temperature: 0.7,
+  thinkingBudget: 4000,
+  useTools: true
+};
+
+// Model turns allowed past the tool-call cap for the model to wrap up before the loop gives up.
+const EXTRA_FINAL_TURNS = 2;
+// How much of an invalid response is shown back to the model when asking it to correct itself
+const MAX_INVALID_ECHO_CHARS = 8000;
+
+// Rate limits, overloads and dropped connections are retried with exponential backoff
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+function isRetryable(err: any): boolean {
+  if (typeof err?.status === 'number') return RETRYABLE_STATUSES.includes(err.status);
+  // fetch rejects with a TypeError when the network fails
+  return err instanceof TypeError && /fetch|network/i.test(err.message);
+}
+
+// Reasoning from each step of the tool loop, in order
+function joinThinking(earlier: string, next: string): string {
+  return earlier && next ? `${earlier}\n\n${next}` : earlier || next;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+export class AIService {
+  private settings: ModelSettings = { ...DEFAULT_MODEL_SETTINGS, ...loadJson<Partial<ModelSettings>>(SETTINGS_KEY, {}) };
+
+  getSettings(): ModelSettings {
+    return this.settings;
+  }
+
+  updateSettings(patch: Partial<ModelSettings>): ModelSettings {
+    this.settings = { ...this.settings, ...patch };
+    saveJson(SETTINGS_KEY, this.settings);
+    return this.settings;
+  }
+
+  getProvider(): LLMProvider {
+    return providers[this.settings.provider] ?? providers.gemini;
+  }
+
+  /**
+   * Answers one user request. Refused up front once the daily budget is spent; the tokens
+   * of every model call made for it, retries included, are added to the day's total and
+   * returned as the response's usage. Attachments are sent with the prompt as separate parts.
+   */
+  async generateCode(
+    prompt: string,
+    currentContext: string,
+    history: ChatMessage[] = [],
+    options: GenerateOptions = {},
+    // Workspace preferences and rules file, from loadProjectInstructions
+    projectInstructions = '',
+    attachments: Attachment[] = []
+  ): Promise<AIResponse> {
+    return this.metered(options, metered => this.respond(prompt, currentContext, history, metered, projectInstructions, attachments));
+  }
+
+  /**
+   * Plan mode: asks for an ordered list of steps instead of changes. Always answered from
+   * the pre-built context without tools, since nothing is edited yet.
+   */
+  async generatePlan(
+    prompt: string,
+    currentContext: string,
+    history: ChatMessage[] = [],
+    options: GenerateOptions = {},
+    projectInstructions = '',
+    attachments: Attachment[] = []
+  ): Promise<AIResponse> {
+    return this.metered(options, metered => this.plan(prompt, currentContext, history, metered, projectInstructions, attachments));
+  }
+
+  /**
+   * Inline edit: rewrites the selected range of one file (or writes code for the cursor
+   * when start equals end) and returns only the replacement. A single model call without
+   * tools or history, metered like any other request.
+   */
+  async editSelection(
+    path: string,
+    content: string,
+    start: number,
+    end: number,
+    instruction: string,
+    options: GenerateOptions = {},
+    projectInstructions = ''
+  ): Promise<InlineEditResult> {
+    const provider = this.getProvider();
+    if (!provider.step) throw new Error(`${provider.label} does not support inline edits.`);
+
+    const systemInstruction = `You are an expert software engineer editing one file in the user's workspace.
+The user marked a range with ${SELECTION_START} and ${SELECTION_END}, or a position with ${CURSOR}.
+Follow their instruction for that range only. Reply with the replacement text in a single fenced
+code block and nothing else. It goes exactly where the range was, so match the surrounding
+indentation and do not repeat code from outside the range.`
+      + (projectInstructions ? `\n\n${projectInstructions}` : '');
+
+    return this.metered<InlineEditResult>(options, async metered => {
+      const result = await this.withRetry(() => provider.step!({
+        systemInstruction,
+        messages: [{ role: 'user', text: inlineEditPrompt(path, content, start, end, instruction) }],
+        tools: [],
+        settings: this.settings
+      }, { signal: metered.signal, onUsage: metered.onUsage }), metered);
+      if (!result.text.trim()) throw new Error('The AI returned an empty edit.');
+      return { replacement: extractReplacement(result.text, content.slice(start, end)) };
+    });
+  }
+
+  private async metered<T extends { usage?: MessageUsage }>(options: GenerateOptions, call: (options: GenerateOptions) => Promise<T>): Promise<T> {
+    usageTracker.checkBudget();
+    const { provider, model } = this.settings;
+    let usage: TokenUsage = EMPTY_USAGE;
+    let calls = 0;
+    const metered: GenerateOptions = {
+      ...options,
+      onUsage: callUsage => {
+        usage = addUsage(usage, callUsage);
+        calls++;
+        usageTracker.record(callUsage, provider, model);
+        options.onUsage?.(callUsage);
+      }
+    };
+
+    const response = await call(metered);
+    return calls > 0 ? { ...response, usage: { ...usage, provider, model, calls } } : response;
+  }
+
+  private async respond(
+    prompt: string,
+    currentContext: string,
+    history: ChatMessage[],
+    options: GenerateOptions,
+    projectInstructions: string,
+    attachments: Attachment[]
+  ): Promise<AIResponse> {
+    const conversation = buildConversation(history);
+    const provider = this.getProvider();
+    if (this.settings.useTools !== false && provider.step) {
+      const turns = appendUserTurn(conversation.turns, `Current File System Context:
+${currentContext}
+
+User Task:
+${prompt}`, attachments);
+      return this.runToolLoop(provider, turns, conversation.summary, projectInstructions, options);
+    }
+
+    const turns = appendUserTurn(conversation.turns, `Current File System Context:
+${currentContext}
+
+User Task:
+${prompt}
+
+Provide a detailed explanation of what you are building and then the specific file changes needed.
+Return a valid JSON response.`, attachments);
+
+    const systemInstruction = `You are an expert software engineer and local development agent.
+Earlier turns of this conversation are included; build on the changes already discussed.
+For edits to existing files prefer action "patch" with small search/replace hunks copied exactly
+from the current file; use full content only for new files or complete rewrites.
+
+${RESPONSE_FORMAT_INSTRUCTIONS}`
+      + (projectInstructions ? `\n\n${projectInstructions}` : '')
+      + (conversation.summary ? `\n\nSummary of earlier conversation:\n${conversation.summary}` : '');
+
+    return this.generateValid({ systemInstruction, turns, settings: this.settings }, request => provider.generate(request, options), options);
+  }
+
+  private async plan(
+    prompt: string,
+    currentContext: string,
+    history: ChatMessage[],
+    options: GenerateOptions,
+    projectInstructions: string,
+    attachments: Attachment[]
+  ): Promise<AIResponse> {
+    const conversation = buildConversation(history);
+    const provider = this.getProvider();
+    const turns = appendUserTurn(conversation.turns, `Current File System Context:
+${currentContext}
+
+User Task:
+${prompt}
+
+Do not change any files yet. Break the task into an ordered plan of small steps, each of which
+can be reviewed and committed on its own, and list the files each step will touch.`, attachments);
+
+    const systemInstruction = `You are an expert software engineer and local development agent planning work in the user's workspace.
+Earlier turns of this conversation are included; build on the changes already discussed.
+Each step will later be carried out on its own, in order, with the earlier steps already applied.
+Keep steps focused (typically 3 to 8 for a sizeable task) and give each a clear title.
+
+${PLAN_FORMAT_INSTRUCTIONS}`
+      + (projectInstructions ? `\n\n${projectInstructions}` : '')
+      + (conversation.summary ? `\n\nSummary of earlier conversation:\n${conversation.summary}` : '');
+
+    // A reply without steps goes back to the model like any other invalid response
+    const generate = async (request: GenerateRequest) => {
+      const response = await provider.generate(request, options);
+      if (!response.plan?.length) {
+        throw new InvalidResponseError(['"plan" is missing or empty; list the steps as {"title", "description", "files"} objects.'], JSON.stringify(response));
+      }
+      return { ...response, changes: [] };
+    };
+    return this.generateValid({ systemInstruction, turns, settings: this.settings }, generate, options);
+  }
+
+  private async generateValid(
+    request: GenerateRequest,
+    generate: (request: GenerateRequest) => Promise<AIResponse>,
+    options: GenerateOptions
+  ): Promise<AIResponse> {
+    try {
+      return await this.withRetry(() => generate(request), options);
+    } catch (err) {
+      if (!(err instanceof InvalidResponseError) || options.signal?.aborted) throw err;
+      return this.retryInvalid(request, generate, err, options);
+    }
+  }
+
+  // Asks once more with the problems spelled out. A second invalid answer is reported with its own problems.
+  private async retryInvalid(
+    request: GenerateRequest,
+    generate: (request: GenerateRequest) => Promise<AIResponse>,
+    error: InvalidResponseError,
+    options: GenerateOptions
+  ): Promise<AIResponse> {
+    const echoed = error.rawText.length > MAX_INVALID_ECHO_CHARS
+      ? `${error.rawText.slice(0, MAX_INVALID_ECHO_CHARS)}\n... [truncated]`
+      : error.rawText;
+    const turns: ConversationTurn[] = [
+      ...request.turns,
+      { role: 'assistant', text: echoed || '(empty response)' },
+      { role: 'user', text: `Your last response could not be used:
+${error.problems.map(p => `- ${p}`).join('\n')}
+
+Reply again with the complete, corrected JSON object only, following the required format.` }
+    ];
+
+    try {
+      const response = await this.withRetry(() => generate({ ...request, turns }), options);
+      return {
+        ...response,
+        diagnostics: [`The first response was invalid and was requested again (${error.problems.join(' ')})`, ...(response.diagnostics ?? [])]
+      };
+    } catch (err) {
+      if (err instanceof InvalidResponseError) throw new InvalidResponseError(err.problems, err.rawText, true);
+      throw err;
+    }
+  }
+
+  /**
+   * Function-calling loop: the model explores the workspace with tools and records edits
+   * through propose_change until it answers in plain text. Each step's reasoning and text
+   * stream in as partial results, together with the tool steps so far, which are kept if
+   * the request is cancelled or the budget runs out midway.
+   */
+  private async runToolLoop(
+    provider: LLMProvider,
+    turns: ConversationTurn[],
+    summary: string | null,
+    projectInstructions: string,
+    options: GenerateOptions
+  ): Promise<AIResponse> {
+    const systemInstruction = `You are an expert software engineer and local development agent working in the user's workspace.
+Earlier turns of this conversation are included; build on the changes already discussed.
+The context below is only a starting point. Use list_dir, read_file and search to look at anything
+else you need instead of guessing, and read a file before changing it.
+Record every file edit with propose_change; nothing is written until the user approves it.
+You may make at most ${MAX_TOOL_CALLS} tool calls. When you are done, reply in plain text (not JSON)
+with a concise explanation of what you changed and why.`
+      + (projectInstructions ? `\n\n${projectInstructions}` : '')
+      + (summary ? `\n\nSummary of earlier conversation:\n${summary}` : '');
+
+    const toolbox = new AgentToolbox();
+    const messages: AgentMessage[] = turns.map(turn => (
+      turn.role === 'user' ? { role: 'user', text: turn.text, attachments: turn.attachments } : { role: 'assistant', text: turn.text }
+    ));
+    const steps: AgentStep[] = [];
+    let thinking = '';
+    let message = '';
+
+    const partial = (incomplete?: boolean): AIResponse => ({
+      thinking, message, changes: [...toolbox.changes], steps: [...steps], incomplete
+    });
+
+    try {
+      for (let turn = 0; turn <= MAX_TOOL_CALLS + EXTRA_FINAL_TURNS; turn++) {
+        usageTracker.checkBudget();
+        const result = await this.withRetry(() => {
+          // A retried step streams again from the start
+          let liveThinking = '';
+          let liveText = '';
+          return provider.step!({
+            systemInstruction,
+            messages,
+            tools: TOOL_DECLARATIONS,
+            settings: this.settings
+          }, {
+            signal: options.signal,
+            onUsage: options.onUsage,
+            onDelta: delta => {
+              liveThinking += delta.thinking ?? '';
+              liveText += delta.text ?? '';
+              options.onPartial?.({ ...partial(), thinking: joinThinking(thinking, liveThinking), message: liveText || message });
+            }
+          });
+        }, options);
+
+        thinking = joinThinking(thinking, result.thinking);
+        message = result.text;
+        if (result.toolCalls.length === 0) return partial();
+
+        messages.push({ role: 'assistant', text: result.text, toolCalls: result.toolCalls, raw: result.raw });
+        const results: AgentStep[] = [];
+        for (const call of result.toolCalls) {
+          const step = await toolbox.execute(call);
+          results.push(step);
+          steps.push(step);
+          options.onPartial?.(partial());
+        }
+        messages.push({ role: 'tool', results });
+      }
+      message = message || `Stopped after ${MAX_TOOL_CALLS} tool calls without a final answer.`;
+      return partial(true);
+    } catch (err) {
+      // Only a cancel or the spent budget keeps the work so far; other failures are reported as errors
+      const stopped = options.signal?.aborted || err instanceof BudgetExceededError;
+      if (!stopped || (steps.length === 0 && toolbox.changes.length === 0)) throw err;
+      if (err instanceof BudgetExceededError) message = message || err.message;
+      return partial(true);
+    }
+  }
+
+  // Retries rate limits, overloads and network failures; the delay doubles each time unless the API says how long to wait.
+  private async withRetry<T>(call: () => Promise<T>, options: GenerateOptions): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call();
+      } catch (err: any) {
+        if (attempt > MAX_RETRIES || options.signal?.aborted || !isRetryable(err)) throw err;
+        const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.2);
+        const delayMs = Math.min(RETRY_MAX_DELAY_MS, err.retryAfterMs ?? backoff);
+        options.onRetry?.({ attempt, delayMs, error: err });
+        await sleep(delayMs, options.signal);
+      }
+    }
+  }
+}
+
+export const aiService = new AIService();
@@ -0,0 +1,85 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BridgeClient, BridgeError } from './bridgeClient';
+
+const json = (status: number, data: unknown) => new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+let client: BridgeClient;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+  client = new BridgeClient();
+  client.updateSettings({ url: 'http://localhost:9000/', token: 'secret' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('BridgeClient', () => {
+  it('sends the token and JSON body to the configured URL', async () => {
+    fetchMock.mockResolvedValue(json(200, { ok: true }));
+    await client.request('/write', { method: 'POST', body: { path: 'a.ts', content: 'x' } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:9000/write');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer secret' });
+    expect(init.body).toBe('{"path":"a.ts","content":"x"}');
+  });
+
+  it('turns error responses into coded errors', async () => {
+    fetchMock.mockResolvedValue(json(403, { error: 'Path escapes the workspace: ../x', code: 'forbidden' }));
+    await expect(client.request('/read', { query: { path: '../x' } })).rejects.toMatchObject({
+      name: 'BridgeError', code: 'forbidden', status: 403, message: 'Path escapes the workspace: ../x'
+    });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:9000/read?path=..%2Fx');
+  });
+
+  it('reports a wrong token and an unrelated server through the health state', async () => {
+    const health: string[] = [];
+    client.onHealthChange(h => health.push(h));
+
+    fetchMock.mockResolvedValueOnce(json(401, { error: 'Missing or wrong bridge token', code: 'unauthorized' }));
+    expect(await client.checkHealth()).toMatchObject({ health: 'unauthorized' });
+    fetchMock.mockResolvedValueOnce(new Response('<html>Vite</html>', { status: 404 }));
+    expect(await client.checkHealth()).toMatchObject({ health: 'not_bridge' });
+    fetchMock.mockResolvedValueOnce(json(200, { status: 'ok' }));
+    expect(await client.checkHealth()).toMatchObject({ health: 'not_bridge', message: 'http://localhost:9000/ answered, but it is not the ForgeAI bridge' });
+    fetchMock.mockResolvedValueOnce(json(200, { bridge: 'forgeai-bridge', allowlist: ['npm test'] }));
+    expect(await client.checkHealth()).toEqual({ health: 'connected', allowlist: ['npm test'] });
+
+    expect(health).toEqual(['unauthorized', 'not_bridge', 'connected']);
+  });
+
+  it('retries transient failures of idempotent requests only', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(json(500, { error: 'Internal bridge error: boom', code: 'server_error' }))
+      .mockResolvedValueOnce(json(200, { content: 'x' }));
+    const read = client.request('/read', { query: { path: 'a.ts' } });
+    await vi.runAllTimersAsync();
+    expect(await read).toEqual({ content: 'x' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockReset().mockRejectedValue(new TypeError('fetch failed'));
+    await expect(client.request('/delete', { method: 'POST', body: { path: 'a.ts' } })).rejects.toMatchObject({ code: 'unreachable' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.getHealth()).toBe('offline');
+  });
+
+  it('gives up waiting after the timeout', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    const status = client.request('/status', { timeoutMs: 1000, idempotent: false });
+    const settled = expect(status).rejects.toEqual(new BridgeError('timeout', 'Bridge did not respond within 1s'));
+    await vi.advanceTimersByTimeAsync(1000);
+    await settled;
+  });
+});
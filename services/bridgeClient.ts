@@ -0,0 +1,183 @@
+
+import { BridgeSettings } from '../types';
+import { loadJson, saveJson } from '../utils/storage';
+
+export const DEFAULT_BRIDGE_SETTINGS: BridgeSettings = { url: 'http://localhost:8000', token: '' };
+
+const BRIDGE_SETTINGS_KEY = 'forgeai.bridgeSettings';
+// Must match BRIDGE_ID in server.py
+const BRIDGE_ID = 'forgeai-bridge';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const HEALTH_TIMEOUT_MS = 3000;
+const HEALTH_INTERVAL_MS = 10000;
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 300;
+
+export type BridgeErrorCode =
+  | 'bad_request' | 'unauthorized' | 'forbidden' | 'not_found' | 'conflict' | 'server_error'
+  | 'timeout' | 'unreachable' | 'not_bridge';
+
+const STATUS_CODES: Record<number, BridgeErrorCode> = {
+  400: 'bad_request', 401: 'unauthorized', 403: 'forbidden', 404: 'not_found', 409: 'conflict'
+};
+
+export class BridgeError extends Error {
+  constructor(public code: BridgeErrorCode, message: string, public status?: number) {
+    super(message);
+    this.name = 'BridgeError';
+  }
+
+  // Worth retrying for idempotent calls: the request may never have reached the bridge.
+  get isTransient(): boolean {
+    return this.code === 'timeout' || this.code === 'unreachable' || this.code === 'server_error';
+  }
+}
+
+export type BridgeHealth = 'unknown' | 'connected' | 'offline' | 'unauthorized' | 'not_bridge';
+
+export interface BridgeStatus {
+  health: BridgeHealth;
+  allowlist: string[];
+  message?: string;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST';
+  query?: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+  // Only bounds the wait for response headers, so streamed bodies can run as long as they need.
+  timeoutMs?: number;
+  // Retried on transient failures; defaults to true for GET
+  idempotent?: boolean;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * HTTP client for server.py. Every request carries the bridge token, non-2xx responses
+ * become a BridgeError with a code, and the outcome of each call feeds the health state
+ * shown in the UI alongside the periodic /status checks.
+ */
+export class BridgeClient {
+  private settings: BridgeSettings = { ...DEFAULT_BRIDGE_SETTINGS, ...loadJson<Partial<BridgeSettings>>(BRIDGE_SETTINGS_KEY, {}) };
+  private health: BridgeHealth = 'unknown';
+  private listeners = new Set<(health: BridgeHealth) => void>();
+
+  getSettings(): BridgeSettings {
+    return this.settings;
+  }
+
+  updateSettings(patch: Partial<BridgeSettings>): BridgeSettings {
+    this.settings = { ...this.settings, ...patch };
+    saveJson(BRIDGE_SETTINGS_KEY, this.settings);
+    return this.settings;
+  }
+
+  getHealth(): BridgeHealth {
+    return this.health;
+  }
+
+  onHealthChange(listener: (health: BridgeHealth) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private setHealth(health: BridgeHealth) {
+    if (health === this.health) return;
+    this.health = health;
+    this.listeners.forEach(listener => listener(health));
+  }
+
+  // Polls /status until the returned function is called.
+  startMonitoring(intervalMs = HEALTH_INTERVAL_MS): () => void {
+    const timer = setInterval(() => { this.checkHealth(); }, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  async checkHealth(): Promise<BridgeStatus> {
+    try {
+      const status = await this.request<any>('/status', { timeoutMs: HEALTH_TIMEOUT_MS, idempotent: false });
+      if (status?.bridge !== BRIDGE_ID) {
+        throw new BridgeError('not_bridge', `${this.settings.url} answered, but it is not the ForgeAI bridge`);
+      }
+      this.setHealth('connected');
+      return { health: 'connected', allowlist: Array.isArray(status.allowlist) ? status.allowlist : [] };
+    } catch (err: any) {
+      const health = healthFor(err);
+      this.setHealth(health);
+      return { health, allowlist: [], message: err.message };
+    }
+  }
+
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const attempts = (options.idempotent ?? (options.method ?? 'GET') === 'GET') ? MAX_RETRIES + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const resp = await this.open(path, options);
+        return await resp.json().catch(() => {
+          throw new BridgeError('not_bridge', `${path} did not return JSON; is ${this.settings.url} the ForgeAI bridge?`);
+        }) as T;
+      } catch (err) {
+        if (!(err instanceof BridgeError) || !err.isTransient || attempt >= attempts || options.signal?.aborted) throw err;
+        await delay(RETRY_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  // Sends one request and returns the response once it is known to be OK. Streaming callers read the body themselves.
+  async open(path: string, { method = 'GET', query, body, signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions = {}): Promise<Response> {
+    const base = this.settings.url.replace(/\/$/, '');
+    const url = `${base}${path}${query ? `?${new URLSearchParams(query)}` : ''}`;
+
+    // One controller for both the caller's cancel and the timeout; the caller's signal keeps working while streaming.
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    let resp: Response;
+    try {
+      resp = await fetch(url, {
+        method,
+        signal: controller.signal,
+        headers: {
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(this.settings.token ? { Authorization: `Bearer ${this.settings.token}` } : {})
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const error = controller.signal.aborted
+        ? new BridgeError('timeout', `Bridge did not respond within ${timeoutMs / 1000}s`)
+        : new BridgeError('unreachable', `Cannot reach the bridge at ${base}`);
+      this.setHealth('offline');
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (resp.ok) {
+      if (path !== '/status') this.setHealth('connected');
+      return resp;
+    }
+    const data = await resp.json().catch(() => null);
+    if (typeof data?.error !== 'string') {
+      this.setHealth('not_bridge');
+      throw new BridgeError('not_bridge', `${base} answered ${resp.status}, but it is not the ForgeAI bridge`, resp.status);
+    }
+    const code: BridgeErrorCode = data.code ?? STATUS_CODES[resp.status] ?? 'server_error';
+    if (code === 'unauthorized') this.setHealth('unauthorized');
+    throw new BridgeError(code, data.error, resp.status);
+  }
+}
+
+function healthFor(err: unknown): BridgeHealth {
+  if (!(err instanceof BridgeError)) return 'offline';
+  if (err.code === 'unauthorized') return 'unauthorized';
+  if (err.code === 'not_bridge') return 'not_bridge';
+  return 'offline';
+}
+
+export const bridgeClient = new BridgeClient();
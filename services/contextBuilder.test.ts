@@ -0,0 +1,43 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContextBuilder } from './contextBuilder';
+import { hashContent } from '../utils/hash';
+
+const files = new Map<string, string>();
+
+vi.mock('./fileSystemService', () => ({
+  fsService: {
+    listFiles: async () => [...files.keys()],
+    tryReadFile: async (path: string) => files.get(path) ?? null
+  }
+}));
+
+const options = { tokenBudget: 1000, mode: 'Build' };
+
+describe('ContextBuilder', () => {
+  beforeEach(() => {
+    files.clear();
+    files.set('src/app.ts', 'saved');
+  });
+
+  it('hashes the saved active file and shows unsaved edits as their own section', async () => {
+    const context = await new ContextBuilder().build('fix it', { ...options, activeFile: { path: 'src/app.ts', content: 'edited' } });
+
+    expect(context.text).toContain('--- File: src/app.ts ---\nsaved\n');
+    expect(context.text).toContain('--- Unsaved editor buffer, not on disk: src/app.ts ---\nedited\n');
+    expect(context.files).toMatchObject([{ path: 'src/app.ts', reason: 'active', hash: hashContent('saved') }]);
+  });
+
+  it('sends the active file once when it has no unsaved edits', async () => {
+    const context = await new ContextBuilder().build('fix it', { ...options, activeFile: { path: 'src/app.ts', content: 'saved' } });
+    expect(context.text).not.toContain('Unsaved');
+    expect(context.text.match(/--- File: src\/app\.ts ---/g)).toHaveLength(1);
+  });
+
+  it('sends a buffer that was never saved without a hash', async () => {
+    const context = await new ContextBuilder().build('fix it', { ...options, activeFile: { path: 'new.ts', content: 'draft' } });
+    expect(context.text).toContain('--- Unsaved editor buffer, not on disk: new.ts ---\ndraft\n');
+    expect(context.files[0]).toMatchObject({ path: 'new.ts', reason: 'active' });
+    expect(context.files[0].hash).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+
+import { fsService } from './fileSystemService';
+import { fileVersions } from './fileVersionTracker';
+import { ContextFile } from '../types';
+
+export const DEFAULT_TOKEN_BUDGET = 32000;
+
+// Rough heuristic used across the app: ~4 characters per token.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'svgz', 'tiff', 'psd',
+  'pdf', 'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'tar', 'jar', 'war',
+  'exe', 'dll', 'so', 'dylib', 'bin', 'o', 'a', 'class', 'pyc', 'pyo', 'wasm',
+  'mp3', 'mp4', 'wav', 'ogg', 'webm', 'mov', 'avi', 'flac',
+  'woff', 'woff2', 'ttf', 'otf', 'eot', 'sqlite', 'db'
+]);
+
+// Files that describe a project and are useful for almost any prompt.
+const MANIFEST_FILES = new Set([
+  'package.json', 'tsconfig.json', 'pyproject.toml', 'requirements.txt', 'setup.py',
+  'cargo.toml', 'go.mod', 'pom.xml', 'build.gradle', 'readme.md', 'vite.config.ts', 'index.html'
+]);
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'add', 'make', 'use', 'using',
+  'create', 'update', 'now', 'please', 'should', 'can', 'file', 'files', 'code', 'new', 'all', 'our'
+]);
+
+// Don't read more than this many ranked candidates, regardless of budget left.
+const MAX_CANDIDATE_READS = 200;
+
+export interface ContextOptions {
+  tokenBudget: number;
+  mode: string;
+  activeFile?: { path: string; content: string } | null;
+  pinnedPaths?: string[];
+}
+
+export interface WorkspaceContext {
+  text: string;
+  files: ContextFile[];
+  totalTokens: number;
+}
+
+export function isBinaryPath(path: string): boolean {
+  const ext = path.split('.').pop()?.toLowerCase() ?? '';
+  return BINARY_EXTENSIONS.has(ext);
+}
+
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length >= 3 && !STOP_WORDS.has(w));
+}
+
+function scorePath(path: string, terms: Set<string>, activeDir: string | null): number {
+  const segments = path.split('/');
+  const baseWords = splitWords(segments[segments.length - 1]);
+  const dirWords = splitWords(segments.slice(0, -1).join(' '));
+  let score = 0;
+
+  for (const term of terms) {
+    if (baseWords.includes(term)) score += 3;
+    else if (baseWords.some(w => w.startsWith(term) || term.startsWith(w))) score += 1.5;
+    if (dirWords.includes(term)) score += 1;
+  }
+  if (MANIFEST_FILES.has(segments[segments.length - 1].toLowerCase())) score += 1;
+  if (activeDir !== null && segments.slice(0, -1).join('/') === activeDir) score += 1;
+  return score - segments.length * 0.1;
+}
+
+// Resolves `@path` mentions against known paths, accepting exact paths or unique suffixes.
+export function resolveMentions(prompt: string, paths: string[]): string[] {
+  const resolved: string[] = [];
+  for (const match of prompt.matchAll(/@([\w./-]+)/g)) {
+    const mention = match[1].replace(/[.,;:]+$/, '');
+    const found = paths.includes(mention)
+      ? mention
+      : paths.find(p => p.endsWith(`/${mention}`));
+    if (found && !resolved.includes(found)) resolved.push(found);
+  }
+  return resolved;
+}
+
+function formatFile(path: string, content: string, label = 'File'): string {
+  return `--- ${label}: ${path} ---\n${content}\n--- End: ${path} ---\n`;
+}
+
+export class ContextBuilder {
+  async build(prompt: string, options: ContextOptions): Promise<WorkspaceContext> {
+    const allPaths = (await fsService.listFiles()).filter(p => !isBinaryPath(p));
+    const files: ContextFile[] = [];
+    const sections: string[] = [];
+
+    const header = `Mode: ${options.mode}\nWorkspace files (${allPaths.length}):\n${allPaths.slice(0, 500).join('\n')}`
+      + (allPaths.length > 500 ? `\n...and ${allPaths.length - 500} more` : '');
+    let remaining = options.tokenBudget - estimateTokens(header);
+
+    const required: { path: string; reason: ContextFile['reason'] }[] = [];
+    const addRequired = (path: string, reason: ContextFile['reason']) => {
+      if (!required.some(r => r.path === path)) required.push({ path, reason });
+    };
+    if (options.activeFile) addRequired(options.activeFile.path, 'active');
+    (options.pinnedPaths ?? []).forEach(p => addRequired(p, 'pinned'));
+    resolveMentions(prompt, allPaths).forEach(p => addRequired(p, 'mentioned'));
+
+    // Required files are always included, truncated if they alone exceed the budget.
+    const addSection = (label: string, path: string, content: string) => {
+      const maxChars = Math.max(0, remaining * 4);
+      const truncated = content.length > maxChars;
+      const body = truncated ? `${content.slice(0, maxChars)}\n... [truncated to fit context budget]` : content;
+      const section = formatFile(path, body, label);
+      const tokens = estimateTokens(section);
+      sections.push(section);
+      remaining -= tokens;
+      return { tokens, truncated };
+    };
+    for (const { path, reason } of required) {
+      const content = await fsService.tryReadFile(path);
+      // Changes apply to the file on disk, so the editor buffer is only shown alongside it
+      const unsaved = path === options.activeFile?.path && options.activeFile.content !== content
+        ? options.activeFile.content
+        : null;
+      const saved = content !== null && !content.includes('\0') ? addSection('File', path, content) : null;
+      const draft = unsaved !== null && !unsaved.includes('\0') ? addSection('Unsaved editor buffer, not on disk', path, unsaved) : null;
+      if (!saved && !draft) continue;
+
+      files.push({
+        path,
+        tokens: (saved?.tokens ?? 0) + (draft?.tokens ?? 0),
+        reason,
+        truncated: saved?.truncated || draft?.truncated || undefined,
+        hash: saved ? fileVersions.record(content!) : undefined
+      });
+    }
+
+    const terms = new Set(splitWords(prompt));
+    const activeDir = options.activeFile ? options.activeFile.path.split('/').slice(0, -1).join('/') : null;
+    const candidates = allPaths
+      .filter(p => !required.some(r => r.path === p))
+      .map(path => ({ path, score: scorePath(path, terms, activeDir) }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATE_READS);
+
+    // Greedily pack ranked files; skip any that no longer fit rather than truncating them.
+    for (const { path } of candidates) {
+      if (remaining <= 0) break;
+      const content = await fsService.tryReadFile(path);
+      if (content === null || content.includes('\0')) continue;
+      const section = formatFile(path, content);
+      const tokens = estimateTokens(section);
+      if (tokens > remaining) continue;
+      sections.push(section);
+      files.push({ path, tokens, reason: 'relevant', hash: fileVersions.record(content) });
+      remaining -= tokens;
+    }
+
+    const text = [header, ...sections].join('\n\n');
+    return { text, files, totalTokens: estimateTokens(text) };
+  }
+}
+
+export const contextBuilder = new ContextBuilder();
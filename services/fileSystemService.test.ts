@@ -0,0 +1,92 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSystemService, StaleWriteError } from './fileSystemService';
+import { hashContent } from '../utils/hash';
+
+const files = new Map<string, string>();
+let service: FileSystemService;
+
+beforeEach(() => {
+  files.clear();
+  files.set('a.ts', 'const a = 1;\n');
+  files.set('b.ts', 'const b = 1;\n');
+  service = new FileSystemService();
+  vi.spyOn(service, 'tryReadFile').mockImplementation(async path => files.get(path) ?? null);
+  vi.spyOn(service, 'writeFile').mockImplementation(async (path, content) => { files.set(path, content); });
+  vi.spyOn(service, 'deleteFile').mockImplementation(async path => { files.delete(path); });
+});
+
+describe('applyChanges', () => {
+  it('writes every change and records what was there before', async () => {
+    const set = await service.applyChanges([
+      { path: './a.ts', action: 'patch', content: '', hunks: [{ search: 'a = 1', replace: 'a = 2' }] },
+      { path: 'b.ts', action: 'delete', content: '' },
+      { path: 'c.ts', action: 'create', content: 'new' }
+    ], 'Edit');
+
+    expect([...files]).toEqual([['a.ts', 'const a = 2;\n'], ['c.ts', 'new']]);
+    expect(set.before).toEqual([
+      { path: 'a.ts', content: 'const a = 1;\n' },
+      { path: 'b.ts', content: 'const b = 1;\n' },
+      { path: 'c.ts', content: null }
+    ]);
+    expect(set.afterHashes).toEqual({ 'a.ts': hashContent('const a = 2;\n'), 'b.ts': null, 'c.ts': hashContent('new') });
+  });
+
+  it('rolls every file back when a later change fails', async () => {
+    await expect(service.applyChanges([
+      { path: 'a.ts', action: 'update', content: 'changed' },
+      { path: 'c.ts', action: 'create', content: 'new' },
+      { path: 'b.ts', action: 'patch', content: '', hunks: [{ search: 'missing', replace: 'x' }] }
+    ])).rejects.toThrow(/[^.]\. All files were rolled back\.$/);
+    expect([...files]).toEqual([['a.ts', 'const a = 1;\n'], ['b.ts', 'const b = 1;\n']]);
+  });
+
+  it('joins the failure and the rollback result into one sentence each', async () => {
+    vi.mocked(service.writeFile).mockRejectedValueOnce(new Error('Disk full.'));
+    await expect(service.applyChanges([{ path: 'a.ts', action: 'update', content: 'changed' }]))
+      .rejects.toThrow(/^Disk full\. All files were rolled back\.$/);
+  });
+
+  it('writes nothing when a file no longer matches its expected hash', async () => {
+    const promise = service.applyChanges([{ path: 'a.ts', action: 'update', content: 'changed' }], 'Edit', {
+      './a.ts': hashContent('something else')
+    });
+    await expect(promise).rejects.toBeInstanceOf(StaleWriteError);
+    expect(files.get('a.ts')).toBe('const a = 1;\n');
+  });
+});
+
+describe('revertChangeSet', () => {
+  it('undoes a set and redoes it from the returned set', async () => {
+    const applied = await service.applyChanges([
+      { path: 'a.ts', action: 'update', content: 'changed' },
+      { path: 'c.ts', action: 'create', content: 'new' }
+    ], 'Edit');
+
+    const undone = await service.revertChangeSet(applied);
+    expect([...files]).toEqual([['a.ts', 'const a = 1;\n'], ['b.ts', 'const b = 1;\n']]);
+    expect(undone.label).toBe('Edit');
+
+    const redone = await service.revertChangeSet(undone);
+    expect(files.get('a.ts')).toBe('changed');
+    expect(files.get('c.ts')).toBe('new');
+
+    await service.revertChangeSet(redone);
+    expect(files.has('c.ts')).toBe(false);
+  });
+
+  it('refuses to overwrite files edited since the set was written unless forced', async () => {
+    const applied = await service.applyChanges([{ path: 'a.ts', action: 'update', content: 'changed' }], 'Edit');
+    files.set('a.ts', 'edited later');
+
+    await expect(service.revertChangeSet(applied)).rejects.toMatchObject({ name: 'StaleWriteError', paths: ['a.ts'] });
+    expect(files.get('a.ts')).toBe('edited later');
+
+    const undone = await service.revertChangeSet(applied, true);
+    expect(files.get('a.ts')).toBe('const a = 1;\n');
+    // Redo brings back the later edit, not the original change
+    await service.revertChangeSet(undone);
+    expect(files.get('a.ts')).toBe('edited later');
+  });
+});
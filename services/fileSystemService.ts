@@ -1,22 +1,87 @@
 
-import { FileNode, FileChange } from '../types';
+import { FileNode, FileChange, FileSnapshot, AppliedChangeSet, PatchHunk } from '../types';
+import { applyPatch, describeFailures, PatchResult } from '../utils/patch';
+import { createIgnoreMatcher, IgnoreMatcher } from '../utils/ignore';
+import { hashContent } from '../utils/hash';
+import { readLines } from '../utils/stream';
+import { loadJson, saveJson } from '../utils/storage';
+import { writePolicy, normalizeWorkspacePath, PolicyViolationError } from './writePolicy';
+import { bridgeClient, BridgeError } from './bridgeClient';
+
+// Directories that are never worth walking: dependencies, VCS metadata and build output.
+export const DEFAULT_IGNORE_PATTERNS = [
+  'node_modules/', '.git/', 'dist/', 'build/', 'out/', '.next/', '.nuxt/', 'coverage/',
+  '__pycache__/', '.venv/', 'venv/', '.mypy_cache/', '.pytest_cache/', '.cache/', '.idea/', '.DS_Store'
+];
+
+const IGNORE_PATTERNS_KEY = 'forgeai.ignorePatterns';
+
+// Thrown before anything is written when files changed on disk since they were last read.
+export class StaleWriteError extends Error {
+  constructor(public paths: string[]) {
+    super(`Changed on disk since review: ${paths.join(', ')}`);
+    this.name = 'StaleWriteError';
+  }
+}
+
+// One line of the bridge's NDJSON /exec stream.
+export type CommandEvent =
+  | { type: 'start'; id: string }
+  | { type: 'stdout' | 'stderr'; data: string }
+  | { type: 'exit'; code: number };
+
+function joinPath(dir: string, name: string): string {
+  return dir === '.' || dir === '' ? name : `${dir}/${name}`;
+}
+
+function sortNodes(nodes: FileNode[]): FileNode[] {
+  return nodes.sort((a, b) => (a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'directory' ? -1 : 1));
+}
 
 export class FileSystemService {
-  private serverUrl = 'http://localhost:8000';
   private mode: 'server' | 'browser' | 'none' = 'none';
   private rootHandle: any = null;
+  // Command prefixes the bridge will run, as reported by /status
+  private commandAllowlist: string[] = [];
+  private ignorePatterns: string[] = loadJson(IGNORE_PATTERNS_KEY, DEFAULT_IGNORE_PATTERNS);
+  private isIgnored: IgnoreMatcher = createIgnoreMatcher(this.ignorePatterns);
 
+  getMode(): 'server' | 'browser' | 'none' {
+    return this.mode;
+  }
+
+  getCommandAllowlist(): string[] {
+    return this.commandAllowlist;
+  }
+
+  getRootHandle(): any {
+    return this.rootHandle;
+  }
+
+  getIgnorePatterns(): string[] {
+    return this.ignorePatterns;
+  }
+
+  async setIgnorePatterns(patterns: string[]): Promise<void> {
+    this.ignorePatterns = patterns;
+    saveJson(IGNORE_PATTERNS_KEY, patterns);
+    await this.loadIgnoreRules();
+  }
+
+  // Combines the configured patterns with the workspace's root .gitignore.
+  async loadIgnoreRules(): Promise<void> {
+    const gitignore = this.mode !== 'none' ? await this.tryReadFile('.gitignore') : null;
+    this.isIgnored = createIgnoreMatcher([...this.ignorePatterns, gitignore ?? '']);
+  }
+
+  // Switches to server mode when a bridge answers with the right token.
   async checkConnection(): Promise<boolean> {
-    try {
-      const resp = await fetch(`${this.serverUrl}/status`);
-      if (resp.ok) {
-        this.mode = 'server';
-        return true;
-      }
-    } catch (e) {
-      // Server not running
-    }
-    return false;
+    const status = await bridgeClient.checkHealth();
+    if (status.health !== 'connected') return false;
+    this.commandAllowlist = status.allowlist;
+    this.mode = 'server';
+    await this.loadIgnoreRules();
+    return true;
   }
 
   async requestDirectory(): Promise<{ mode: 'server' | 'browser', name: string }> {
@@ -28,6 +93,7 @@ export class FileSystemService {
       const handle = await (window as any).showDirectoryPicker({ mode: 'readwrite' });
       this.rootHandle = handle;
       this.mode = 'browser';
+      await this.loadIgnoreRules();
       return { mode: 'browser', name: handle.name };
     } catch (err: any) {
       if (err.name === 'SecurityError' || err.message.includes('Cross origin')) {
@@ -37,55 +103,84 @@ export class FileSystemService {
     }
   }
 
-  async scanDirectory(path: string = '.'): Promise<FileNode[]> {
+  /**
+   * Mounts a directory handle restored from a saved session. Browsers only show the
+   * permission prompt in response to a click, so restore on load with prompt=false.
+   */
+  async mountHandle(handle: any, prompt: boolean): Promise<boolean> {
+    const options = { mode: 'readwrite' };
+    let permission = await handle.queryPermission(options);
+    if (permission !== 'granted' && prompt) permission = await handle.requestPermission(options);
+    if (permission !== 'granted') return false;
+
+    this.rootHandle = handle;
+    this.mode = 'browser';
+    await this.loadIgnoreRules();
+    return true;
+  }
+
+  // Lists a single directory level. Directories come back with children unloaded (undefined).
+  async scanDirectory(path: string = '.', handle?: any): Promise<FileNode[]> {
+    const nodes: FileNode[] = [];
     if (this.mode === 'server') {
-      const resp = await fetch(`${this.serverUrl}/ls?path=${encodeURIComponent(path)}`);
-      const items = await resp.json();
-      const nodes: FileNode[] = [];
-      
+      const items = await bridgeClient.request<{ name: string; kind: 'file' | 'directory'; path?: string }[]>('/ls', { query: { path } });
       for (const item of items) {
         nodes.push({
           name: item.name,
           kind: item.kind,
           handle: {} as any, // Server mode doesn't use handles
-          path: item.path,
-          children: item.kind === 'directory' ? [] : undefined
+          path: (item.path || joinPath(path, item.name)).replace(/^\.\//, '')
         });
       }
-      return nodes;
     } else if (this.mode === 'browser' && this.rootHandle) {
-      // Browser logic remains similar to previous version
-      return this.scanBrowserDirectory(this.rootHandle);
-    }
-    return [];
-  }
-
-  private async scanBrowserDirectory(handle: any): Promise<FileNode[]> {
-    const nodes: FileNode[] = [];
-    for await (const entry of handle.values()) {
-      if (entry.kind === 'directory') {
+      const dir = handle ?? await this.getDirectoryHandle(path);
+      for await (const entry of dir.values()) {
         nodes.push({
           name: entry.name,
-          kind: 'directory',
+          kind: entry.kind,
           handle: entry,
-          children: await this.scanBrowserDirectory(entry),
-          isOpen: false
+          path: joinPath(path, entry.name)
         });
+      }
+    }
+    return sortNodes(nodes.filter(node => !this.isIgnored(node.path!, node.kind === 'directory')));
+  }
+
+  // Rescans from the root, reloading every directory in openPaths so expanded folders stay expanded.
+  async reloadTree(openPaths: Set<string>): Promise<FileNode[]> {
+    const load = async (nodes: FileNode[]): Promise<FileNode[]> => Promise.all(nodes.map(async node => {
+      if (node.kind !== 'directory' || !openPaths.has(node.path!)) return node;
+      return { ...node, isOpen: true, children: await load(await this.scanDirectory(node.path, node.handle)) };
+    }));
+    return load(await this.scanDirectory());
+  }
+
+  private async getDirectoryHandle(path: string): Promise<any> {
+    let dir = this.rootHandle;
+    for (const part of path.split('/').filter(p => p !== '' && p !== '.')) {
+      dir = await dir.getDirectoryHandle(part);
+    }
+    return dir;
+  }
+
+  // Walks the whole workspace and returns every file path, skipping ignored paths.
+  async listFiles(): Promise<string[]> {
+    const files: string[] = [];
+    const queue = await this.scanDirectory();
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (node.kind === 'directory') {
+        queue.push(...await this.scanDirectory(node.path, node.handle));
       } else {
-        nodes.push({
-          name: entry.name,
-          kind: 'file',
-          handle: entry
-        });
+        files.push(node.path!);
       }
     }
-    return nodes.sort((a, b) => (a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'directory' ? -1 : 1));
+    return files.sort();
   }
 
   async readFile(path: string, handle?: any): Promise<string> {
     if (this.mode === 'server') {
-      const resp = await fetch(`${this.serverUrl}/read?path=${encodeURIComponent(path)}`);
-      const data = await resp.json();
+      const data = await bridgeClient.request<{ content: string }>('/read', { query: { path } });
       return data.content;
     } else if (handle) {
       const file = await handle.getFile();
@@ -94,32 +189,219 @@ export class FileSystemService {
     return '';
   }
 
+  /**
+   * Returns null when the file does not exist yet (e.g. a proposed 'create'). Other bridge
+   * failures throw: treating an unreachable file as missing would let a write clobber it.
+   */
+  async tryReadFile(path: string): Promise<string | null> {
+    if (this.mode === 'server') {
+      try {
+        const data = await bridgeClient.request<{ content: string }>('/read', { query: { path } });
+        return data.content;
+      } catch (err) {
+        if (err instanceof BridgeError && err.code === 'not_found') return null;
+        throw err;
+      }
+    }
+    try {
+      if (this.mode === 'browser' && this.rootHandle) {
+        const handle = await this.getFileHandle(path, false);
+        const file = await handle.getFile();
+        return await file.text();
+      }
+    } catch (e) {
+      // Missing file or directory
+    }
+    return null;
+  }
+
+  // Raw bytes, for binary files that readFile would mangle. Null when the file doesn't exist.
+  async tryReadBinary(path: string): Promise<Uint8Array | null> {
+    if (this.mode === 'server') {
+      try {
+        const resp = await bridgeClient.open('/raw', { query: { path } });
+        return new Uint8Array(await resp.arrayBuffer());
+      } catch (err) {
+        if (err instanceof BridgeError && err.code === 'not_found') return null;
+        throw err;
+      }
+    }
+    try {
+      if (this.mode === 'browser' && this.rootHandle) {
+        const handle = await this.getFileHandle(path, false);
+        const file = await handle.getFile();
+        return new Uint8Array(await file.arrayBuffer());
+      }
+    } catch (e) {
+      // Missing file or directory
+    }
+    return null;
+  }
+
+  private async getParentHandle(path: string, create: boolean): Promise<{ dir: any; name: string }> {
+    const parts = path.split('/').filter(p => p !== '' && p !== '.');
+    let dir = this.rootHandle;
+    for (let i = 0; i < parts.length - 1; i++) {
+      dir = await dir.getDirectoryHandle(parts[i], { create });
+    }
+    return { dir, name: parts[parts.length - 1] };
+  }
+
+  private async getFileHandle(path: string, create: boolean): Promise<any> {
+    const { dir, name } = await this.getParentHandle(path, create);
+    return dir.getFileHandle(name, { create });
+  }
+
   async writeFile(path: string, content: string): Promise<void> {
     if (this.mode === 'server') {
-      await fetch(`${this.serverUrl}/write`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path, content })
-      });
+      // Writing the same content twice is harmless, so a dropped request can be retried.
+      await bridgeClient.request('/write', { method: 'POST', body: { path, content }, idempotent: true });
     } else if (this.mode === 'browser' && this.rootHandle) {
-      const parts = path.split('/').filter(p => p !== '');
-      let currentDir = this.rootHandle;
-      for (let i = 0; i < parts.length - 1; i++) {
-        currentDir = await currentDir.getDirectoryHandle(parts[i], { create: true });
-      }
-      const fileHandle = await currentDir.getFileHandle(parts[parts.length - 1], { create: true });
+      const fileHandle = await this.getFileHandle(path, true);
       const writable = await fileHandle.createWritable();
       await writable.write(content);
       await writable.close();
     }
   }
 
-  async applyChanges(changes: FileChange[]): Promise<void> {
-    for (const change of changes) {
-      if (change.action !== 'delete') {
-        await this.writeFile(change.path, change.content);
+  // Applies hunks to the current content of a file without writing it.
+  async applyPatch(path: string, hunks: PatchHunk[], current?: string | null): Promise<PatchResult> {
+    const original = current !== undefined ? current : await this.tryReadFile(path);
+    if (original === null) {
+      return { content: '', applied: 0, failures: [{ index: 0, reason: `${path} does not exist` }] };
+    }
+    return applyPatch(original, hunks);
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    if (this.mode === 'server') {
+      await bridgeClient.request('/delete', { method: 'POST', body: { path } });
+    } else if (this.mode === 'browser' && this.rootHandle) {
+      const { dir, name } = await this.getParentHandle(path, false);
+      await dir.removeEntry(name);
+    }
+  }
+
+  /**
+   * Runs a command through the bridge, reporting its output as it streams. Resolves with
+   * the exit code; a negative code means the process was killed by that signal.
+   */
+  async execCommand(command: string, onEvent: (event: CommandEvent) => void, signal?: AbortSignal): Promise<number> {
+    if (this.mode !== 'server') throw new Error('Commands can only run through the local bridge.');
+    const resp = await bridgeClient.open('/exec', { method: 'POST', body: { command }, signal });
+    for await (const line of readLines(resp)) {
+      const event = JSON.parse(line) as CommandEvent;
+      onEvent(event);
+      if (event.type === 'exit') return event.code;
+    }
+    throw new Error('Connection to the bridge closed before the command finished.');
+  }
+
+  async killCommand(id: string): Promise<void> {
+    await bridgeClient.request('/exec/kill', { method: 'POST', body: { id } });
+  }
+
+  /**
+   * Applies all changes or none of them. Paths are normalized and checked against the
+   * write policy first. The prior content of every touched path is snapshotted and
+   * restored if any write or delete fails. When expectedHashes is given (null meaning
+   * "should not exist"), nothing is written if any path no longer matches.
+   */
+  async applyChanges(
+    changes: FileChange[],
+    label = `${changes.length} file change(s)`,
+    expectedHashes?: Record<string, string | null>
+  ): Promise<AppliedChangeSet> {
+    const hashes = expectedHashes && Object.fromEntries(
+      Object.entries(expectedHashes).map(([path, hash]) => [normalizeWorkspacePath(path) ?? path, hash])
+    );
+    return this.commitChanges(writePolicy.enforce(changes), label, hashes, true);
+  }
+
+  private async commitChanges(
+    changes: FileChange[],
+    label: string,
+    expectedHashes: Record<string, string | null> | undefined,
+    checkPolicy: boolean
+  ): Promise<AppliedChangeSet> {
+    const paths = Array.from(new Set(changes.map(c => c.path)));
+    const before: FileSnapshot[] = await Promise.all(
+      paths.map(async path => ({ path, content: await this.tryReadFile(path) }))
+    );
+
+    if (expectedHashes) {
+      const stale = before.filter(s => s.path in expectedHashes
+        && expectedHashes[s.path] !== (s.content === null ? null : hashContent(s.content)));
+      if (stale.length > 0) throw new StaleWriteError(stale.map(s => s.path));
+    }
+    const existing = new Map(before.map(s => [s.path, s.content !== null]));
+    const afterHashes: Record<string, string | null> = {};
+
+    try {
+      for (const change of changes) {
+        if (change.action === 'delete') {
+          if (existing.get(change.path)) await this.deleteFile(change.path);
+          existing.set(change.path, false);
+          afterHashes[change.path] = null;
+        } else if (change.action === 'patch') {
+          // Any hunk that fails to apply fails the whole change set.
+          const result = await this.applyPatch(change.path, change.hunks ?? []);
+          if (result.failures.length > 0) throw new Error(describeFailures(change.path, result.failures));
+          if (checkPolicy) {
+            const verdict = writePolicy.checkContent(result.content);
+            if (verdict.level === 'block') throw new PolicyViolationError([{ path: change.path, reason: verdict.reason! }]);
+          }
+          await this.writeFile(change.path, result.content);
+          afterHashes[change.path] = hashContent(result.content);
+        } else {
+          await this.writeFile(change.path, change.content);
+          existing.set(change.path, true);
+          afterHashes[change.path] = hashContent(change.content);
+        }
+      }
+    } catch (err: any) {
+      const failures = await this.restoreSnapshots(before);
+      const suffix = failures.length > 0 ? `Rollback failed for: ${failures.join(', ')}` : 'All files were rolled back.';
+      throw new Error(`${err.message.replace(/[\s.!?:;,]+$/, '')}. ${suffix}`);
+    }
+
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      label,
+      timestamp: Date.now(),
+      changes,
+      before,
+      afterHashes
+    };
+  }
+
+  // Best-effort restore used for rollback; returns the paths that could not be restored.
+  private async restoreSnapshots(snapshots: FileSnapshot[]): Promise<string[]> {
+    const failures: string[] = [];
+    for (const snapshot of snapshots) {
+      try {
+        if (snapshot.content === null) {
+          if ((await this.tryReadFile(snapshot.path)) !== null) await this.deleteFile(snapshot.path);
+        } else {
+          await this.writeFile(snapshot.path, snapshot.content);
+        }
+      } catch (e) {
+        failures.push(snapshot.path);
       }
     }
+    return failures;
+  }
+
+  /**
+   * Undo is itself a transaction, so reverting the returned set redoes the change. Throws
+   * StaleWriteError without writing if a file no longer holds what the set wrote, unless
+   * force is set. It restores what was there before, so the write policy doesn't apply.
+   */
+  async revertChangeSet(set: AppliedChangeSet, force = false): Promise<AppliedChangeSet> {
+    const changes: FileChange[] = set.before.map(snapshot => snapshot.content === null
+      ? { path: snapshot.path, content: '', action: 'delete' }
+      : { path: snapshot.path, content: snapshot.content, action: 'update' });
+    return this.commitChanges(changes, set.label, force ? undefined : set.afterHashes, false);
   }
 }
 
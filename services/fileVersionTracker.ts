@@ -0,0 +1,29 @@
+
+import { hashContent } from '../utils/hash';
+
+// Bounds memory; older versions fall back to a plain "changed on disk" warning without merge.
+const MAX_VERSIONS = 500;
+
+/**
+ * Remembers file contents by hash as they are handed to the AI, so a later proposal can
+ * be compared and three-way merged against exactly what the model saw.
+ */
+export class FileVersionTracker {
+  private versions = new Map<string, string>();
+
+  record(content: string): string {
+    const hash = hashContent(content);
+    this.versions.delete(hash);
+    this.versions.set(hash, content);
+    if (this.versions.size > MAX_VERSIONS) {
+      this.versions.delete(this.versions.keys().next().value!);
+    }
+    return hash;
+  }
+
+  get(hash: string): string | undefined {
+    return this.versions.get(hash);
+  }
+}
+
+export const fileVersions = new FileVersionTracker();
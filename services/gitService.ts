@@ -0,0 +1,58 @@
+
+import { bridgeClient } from './bridgeClient';
+import { GitCommit, GitSettings, GitStatus } from '../types';
+import { loadJson, saveJson } from '../utils/storage';
+
+export const DEFAULT_GIT_SETTINGS: GitSettings = { autoCommit: false, branchPerTask: false, branchPrefix: 'forgeai/' };
+
+const GIT_SETTINGS_KEY = 'forgeai.gitSettings';
+const LOG_LIMIT = 100;
+
+// Git runs in the bridge's workspace, so all of this needs server mode.
+export class GitService {
+  private settings: GitSettings = { ...DEFAULT_GIT_SETTINGS, ...loadJson<Partial<GitSettings>>(GIT_SETTINGS_KEY, {}) };
+
+  getSettings(): GitSettings {
+    return this.settings;
+  }
+
+  updateSettings(patch: Partial<GitSettings>): GitSettings {
+    this.settings = { ...this.settings, ...patch };
+    saveJson(GIT_SETTINGS_KEY, this.settings);
+    return this.settings;
+  }
+
+  async status(): Promise<GitStatus> {
+    return bridgeClient.request<GitStatus>('/git/status');
+  }
+
+  async log(limit = LOG_LIMIT): Promise<GitCommit[]> {
+    return bridgeClient.request<GitCommit[]>('/git/log', { query: { limit: String(limit) } });
+  }
+
+  // Switches to the branch, creating it from the current HEAD if needed.
+  async switchBranch(name: string): Promise<{ branch: string; created: boolean }> {
+    return bridgeClient.request('/git/branch', { method: 'POST', body: { name } });
+  }
+
+  // Commits just these paths; the change set id is recorded as a trailer so the history can recognise it.
+  async commit(message: string, paths: string[], changeSetId?: string): Promise<string> {
+    const { sha } = await bridgeClient.request<{ sha: string }>('/git/commit', {
+      method: 'POST',
+      body: { message, paths, changeSetId }
+    });
+    return sha;
+  }
+
+  async revert(sha: string): Promise<string> {
+    const result = await bridgeClient.request<{ sha: string }>('/git/revert', { method: 'POST', body: { sha } });
+    return result.sha;
+  }
+
+  taskBranchName(prompt: string): string {
+    const slug = prompt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40).replace(/-$/, '') || 'task';
+    return `${this.settings.branchPrefix}${slug}-${Date.now().toString(36).slice(-4)}`;
+  }
+}
+
+export const gitService = new GitService();
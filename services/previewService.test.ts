@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PreviewBuilder, resolveReference } from './previewService';
+
+const files = new Map<string, string>();
+
+vi.mock('./fileSystemService', () => ({
+  fsService: {
+    tryReadFile: async (path: string) => files.get(path) ?? null,
+    tryReadBinary: async (path: string) => (files.has(path) ? new TextEncoder().encode(files.get(path)) : null)
+  }
+}));
+
+// The text of the first data: URL in `html` that follows `marker`
+function embedded(html: string, marker: string): string {
+  const start = html.indexOf(marker) + marker.length;
+  const url = /data:[^,]+,([^"'\s)]+)/.exec(html.slice(start))![1];
+  return decodeURIComponent(url);
+}
+
+describe('resolveReference', () => {
+  it('resolves references from a page at the workspace root', () => {
+    expect(resolveReference('', 'style.css')).toBe('style.css');
+    expect(resolveReference('', './js/app.js?v=2#x')).toBe('js/app.js');
+    expect(resolveReference('', '/img/logo.png')).toBe('img/logo.png');
+    expect(resolveReference('', '../secret')).toBeNull();
+  });
+
+  it('resolves references from a nested page', () => {
+    expect(resolveReference('site/blog', 'post.css')).toBe('site/blog/post.css');
+    expect(resolveReference('site/blog', '../shared/app.js')).toBe('site/shared/app.js');
+    expect(resolveReference('site/blog', '/favicon.ico')).toBe('favicon.ico');
+    expect(resolveReference('site', '#top')).toBeNull();
+  });
+});
+
+describe('PreviewBuilder', () => {
+  beforeEach(() => {
+    files.clear();
+  });
+
+  it('inlines stylesheets and assets of a root page', async () => {
+    files.set('index.html', '<html><head><link rel="stylesheet" href="style.css"></head><body><img src="logo.png"></body></html>');
+    files.set('style.css', 'body { background: url(bg.png); }');
+    files.set('bg.png', 'png');
+    files.set('logo.png', 'png');
+
+    const html = await new PreviewBuilder().build('index.html');
+    expect(html).not.toContain('href="style.css"');
+    expect(html).toContain('<style>body { background: url(data:image/png;base64,');
+    expect(html).toContain('<img src="data:image/png;base64,');
+  });
+
+  it('rewrites every import of a module shared by two others', async () => {
+    files.set('index.html', '<html><body><script type="module" src="main.js"></script></body></html>');
+    files.set('main.js', "import './a.js';\nimport './b.js';");
+    files.set('a.js', "import { u } from './utils.js';\nexport const a = u;");
+    files.set('b.js', "import { u } from './utils.js';\nexport const b = u;");
+    files.set('utils.js', 'export const u = 1;');
+
+    const main = embedded(await new PreviewBuilder().build('index.html'), 'src="');
+    const [a, b] = [embedded(main, "import '"), embedded(main.slice(main.indexOf('\n')), "import '")];
+    for (const module of [a, b]) {
+      expect(module).not.toContain("'./utils.js'");
+      expect(embedded(module, 'from ')).toBe('export const u = 1;');
+    }
+  });
+
+  it('leaves the import that closes a cycle as written', async () => {
+    files.set('index.html', '<html><body><script type="module" src="a.js"></script></body></html>');
+    files.set('a.js', "import './b.js';\nimport './c.js';");
+    files.set('b.js', "import './c.js';");
+    files.set('c.js', "import './b.js';");
+
+    const a = embedded(await Promise.race([
+      new PreviewBuilder().build('index.html'),
+      new Promise<string>((_, reject) => setTimeout(() => reject(new Error('build hung')), 2000))
+    ]), 'src="');
+    const b = embedded(a, "import '");
+    expect(embedded(b, "import '")).toBe("import './b.js';");
+  });
+
+  it('previews proposed changes in place of the files on disk', async () => {
+    files.set('index.html', '<html><body><h1>Old</h1></body></html>');
+    const builder = await PreviewBuilder.fromChanges([{ path: 'index.html', action: 'update', content: '<html><body><h1>New</h1></body></html>' }]);
+    expect(await builder.build('index.html')).toContain('<h1>New</h1>');
+  });
+});
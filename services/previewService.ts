@@ -0,0 +1,207 @@
+
+import { fsService } from './fileSystemService';
+import { normalizeWorkspacePath } from './writePolicy';
+import { FileChange } from '../types';
+import { toBase64 } from '../utils/attachments';
+
+const TEXT_TYPES: Record<string, string> = {
+  html: 'text/html', htm: 'text/html', css: 'text/css', js: 'text/javascript', mjs: 'text/javascript',
+  json: 'application/json', svg: 'image/svg+xml', txt: 'text/plain', xml: 'application/xml'
+};
+
+const BINARY_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif',
+  ico: 'image/x-icon', bmp: 'image/bmp', woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf',
+  mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg', mp4: 'video/mp4', webm: 'video/webm', pdf: 'application/pdf'
+};
+
+// Extensions tried for extensionless module imports, as bundlers do.
+const MODULE_SUFFIXES = ['', '.js', '.mjs', '/index.js'];
+
+// Relative links can't navigate inside srcdoc, so the page asks the app to open them instead.
+const NAVIGATION_SCRIPT = `<script>document.addEventListener('click',function(e){`
+  + `var a=e.target.closest&&e.target.closest('a[href]');if(!a)return;var h=a.getAttribute('href');`
+  + `if(!h||/^(?:[a-z][a-z0-9+.-]*:|\\/\\/|#)/i.test(h))return;e.preventDefault();`
+  + `parent.postMessage({forgeaiPreview:'navigate',href:h},'*');});</script>`;
+
+export const PREVIEW_MESSAGE_KEY = 'forgeaiPreview';
+
+function isExternal(ref: string): boolean {
+  return !ref || /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+}
+
+function extensionOf(path: string): string {
+  return path.split('/').pop()?.split('.').pop()?.toLowerCase() ?? '';
+}
+
+function dirOf(path: string): string {
+  return path.split('/').slice(0, -1).join('/');
+}
+
+// Resolves a reference from a file in `dir`; "/x" is taken from the workspace root. Query and hash are dropped.
+export function resolveReference(dir: string, ref: string): string | null {
+  const clean = ref.split(/[?#]/)[0];
+  if (!clean) return null;
+  if (clean.startsWith('/')) return normalizeWorkspacePath(clean.slice(1));
+  return normalizeWorkspacePath(dir ? `${dir}/${clean}` : clean);
+}
+
+// encodeURIComponent leaves quotes and parentheses alone, which would end the import or url() the data: URL sits in.
+function encodeDataText(text: string): string {
+  return encodeURIComponent(text).replace(/['()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Turns a workspace HTML page into a self-contained document for a sandboxed srcdoc
+ * iframe. Stylesheets are inlined and every other relative asset becomes a data: URL,
+ * so nothing needs to be served. Files in the overlay take the place of what's on disk,
+ * which is how proposed changes are previewed before they're written.
+ */
+export class PreviewBuilder {
+  private texts = new Map<string, Promise<string | null>>();
+  private urls = new Map<string, Promise<string | null>>();
+
+  constructor(private overlay: Map<string, string | null> = new Map()) {}
+
+  // Patches are applied to the current file so they preview like any other change.
+  static async fromChanges(changes: FileChange[]): Promise<PreviewBuilder> {
+    const overlay = new Map<string, string | null>();
+    for (const change of changes) {
+      const path = normalizeWorkspacePath(change.path);
+      if (!path) continue;
+      if (change.action === 'delete') {
+        overlay.set(path, null);
+      } else if (change.action === 'patch') {
+        const current = overlay.has(path) ? overlay.get(path)! : undefined;
+        overlay.set(path, (await fsService.applyPatch(path, change.hunks ?? [], current)).content);
+      } else {
+        overlay.set(path, change.content);
+      }
+    }
+    return new PreviewBuilder(overlay);
+  }
+
+  async build(entry: string): Promise<string> {
+    const html = await this.readText(entry);
+    if (html === null) throw new Error(`${entry} does not exist`);
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const dir = dirOf(entry);
+
+    for (const link of Array.from(doc.querySelectorAll('link[rel~="stylesheet"][href]'))) {
+      const path = resolveReference(dir, link.getAttribute('href')!);
+      const css = path && !isExternal(link.getAttribute('href')!) ? await this.readText(path) : null;
+      if (css === null) continue;
+      const style = doc.createElement('style');
+      style.textContent = await this.rewriteCss(css, dirOf(path!));
+      link.replaceWith(style);
+    }
+    for (const style of Array.from(doc.querySelectorAll('style'))) {
+      style.textContent = await this.rewriteCss(style.textContent ?? '', dir);
+    }
+    for (const script of Array.from(doc.querySelectorAll('script:not([src])'))) {
+      if (script.getAttribute('type') === 'module') script.textContent = await this.rewriteModule(script.textContent ?? '', dir);
+    }
+    for (const el of Array.from(doc.querySelectorAll('[src], link[href], [poster]'))) {
+      for (const attr of ['src', 'href', 'poster']) {
+        const ref = el.getAttribute(attr);
+        if (!ref || isExternal(ref)) continue;
+        const path = resolveReference(dir, ref);
+        const url = path ? await this.assetUrl(path, el.tagName === 'SCRIPT' && el.getAttribute('type') === 'module') : null;
+        if (url) el.setAttribute(attr, url);
+      }
+    }
+    for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+      el.setAttribute('style', await this.rewriteCss(el.getAttribute('style')!, dir));
+    }
+
+    doc.head.insertAdjacentHTML('afterbegin', NAVIGATION_SCRIPT);
+    return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+  }
+
+  private readText(path: string): Promise<string | null> {
+    if (this.overlay.has(path)) return Promise.resolve(this.overlay.get(path)!);
+    if (!this.texts.has(path)) this.texts.set(path, fsService.tryReadFile(path));
+    return this.texts.get(path)!;
+  }
+
+  private async readBinary(path: string): Promise<Uint8Array | null> {
+    if (this.overlay.has(path)) {
+      const text = this.overlay.get(path);
+      return text === null || text === undefined ? null : new TextEncoder().encode(text);
+    }
+    return fsService.tryReadBinary(path);
+  }
+
+  // `chain` holds the files being rewritten that led here; a reference back into it is an import cycle.
+  private assetUrl(path: string, isModule = false, chain: ReadonlySet<string> = new Set()): Promise<string | null> {
+    const key = `${isModule ? 'module:' : ''}${path}`;
+    if (!this.urls.has(key)) this.urls.set(key, this.createAssetUrl(path, isModule, new Set(chain).add(path)));
+    return this.urls.get(key)!;
+  }
+
+  private async createAssetUrl(path: string, isModule: boolean, chain: ReadonlySet<string>): Promise<string | null> {
+    const ext = extensionOf(path);
+    if (BINARY_TYPES[ext]) {
+      const bytes = await this.readBinary(path);
+      return bytes && `data:${BINARY_TYPES[ext]};base64,${toBase64(bytes)}`;
+    }
+
+    let text = await this.readText(path);
+    if (text === null) return null;
+    if (ext === 'css') text = await this.rewriteCss(text, dirOf(path), chain);
+    else if (isModule || ext === 'mjs') text = await this.rewriteModule(text, dirOf(path), chain);
+    return `data:${TEXT_TYPES[ext] ?? 'text/plain'};charset=utf-8,${encodeDataText(text)}`;
+  }
+
+  private async rewriteCss(css: string, dir: string, chain: ReadonlySet<string> = new Set()): Promise<string> {
+    return replaceAsync(css, /(url\(\s*(['"]?))([^'")]+)(\2\s*\))|(@import\s+(['"]))([^'"]+)(\6)/g, async (match, ...groups) => {
+      const [urlStart, , urlRef, urlEnd, importStart, , importRef, importEnd] = groups;
+      const ref = urlRef ?? importRef;
+      if (isExternal(ref.trim())) return match;
+      const path = resolveReference(dir, ref.trim());
+      const url = path && !chain.has(path) ? await this.assetUrl(path, false, chain) : null;
+      if (!url) return match;
+      return urlRef !== undefined ? `${urlStart}${url}${urlEnd}` : `${importStart}${url}${importEnd}`;
+    });
+  }
+
+  // Relative import specifiers become data: URLs of the rewritten dependency; bare ones are left to import maps.
+  private async rewriteModule(code: string, dir: string, chain: ReadonlySet<string> = new Set()): Promise<string> {
+    return replaceAsync(
+      code,
+      /(\bimport\s*(?:[\w*${}\s,]+?\s*from\s*)?|\bexport\s*(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s*|\bimport\s*\(\s*)(['"])([^'"\n]+)\2/g,
+      async (match, prefix: string, quote: string, ref: string) => {
+        if (!/^\.{0,2}\//.test(ref)) return match;
+        for (const suffix of MODULE_SUFFIXES) {
+          const path = resolveReference(dir, ref + suffix);
+          if (!path) continue;
+          // A data: URL can't refer back to a module that embeds it, so the cycle's last import stays as written
+          if (chain.has(path)) return match;
+          if ((await this.readText(path)) === null) continue;
+          const url = await this.assetUrl(path, true, chain);
+          if (url) return `${prefix}${quote}${url}${quote}`;
+        }
+        return match;
+      }
+    );
+  }
+}
+
+async function replaceAsync(
+  text: string,
+  regex: RegExp,
+  replacer: (match: string, ...groups: any[]) => Promise<string>
+): Promise<string> {
+  const matches: [string, any[]][] = [];
+  text.replace(regex, (match, ...args) => {
+    matches.push([match, args.slice(0, -2)]);
+    return match;
+  });
+  // One at a time, so a shared dependency is finished before anything else waits on it; run
+  // side by side, two files importing each other through different parents would wait forever.
+  const results: string[] = [];
+  for (const [match, groups] of matches) results.push(await replacer(match, ...groups));
+  let i = 0;
+  return text.replace(regex, () => results[i++]);
+}
@@ -0,0 +1,45 @@
+
+import { fsService } from './fileSystemService';
+import { ProjectPreferences } from '../types';
+
+export const RULES_PATH = '.forgeai/rules.md';
+// Rules go into every request, so a runaway file shouldn't crowd out the workspace context
+const MAX_RULES_CHARS = 12000;
+
+// Written when the user first opens the rules file
+export const RULES_TEMPLATE = `# Project rules
+
+<!-- Sent to the AI with every request in this workspace. -->
+
+- 
+`;
+
+export const EMPTY_PREFERENCES: ProjectPreferences = { language: '', style: '', framework: '' };
+
+const PREFERENCE_LABELS: Record<keyof ProjectPreferences, string> = {
+  language: 'Language',
+  style: 'Code style',
+  framework: 'Framework'
+};
+
+/**
+ * Project instructions for the system prompt: the workspace preferences followed by the
+ * rules file, read fresh for each request so edits take effect immediately. Empty when
+ * neither is set.
+ */
+export async function loadProjectInstructions(preferences: ProjectPreferences = EMPTY_PREFERENCES): Promise<string> {
+  const sections: string[] = [];
+
+  const lines = (Object.keys(PREFERENCE_LABELS) as (keyof ProjectPreferences)[])
+    .filter(key => preferences[key]?.trim())
+    .map(key => `- ${PREFERENCE_LABELS[key]}: ${preferences[key].trim()}`);
+  if (lines.length > 0) sections.push(`Project preferences:\n${lines.join('\n')}`);
+
+  const rules = fsService.getMode() !== 'none' ? (await fsService.tryReadFile(RULES_PATH))?.trim() : null;
+  if (rules) {
+    const text = rules.length > MAX_RULES_CHARS ? `${rules.slice(0, MAX_RULES_CHARS)}\n[... truncated]` : rules;
+    sections.push(`Project rules from ${RULES_PATH} (follow these unless the user says otherwise):\n${text}`);
+  }
+
+  return sections.join('\n\n');
+}
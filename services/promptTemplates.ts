@@ -0,0 +1,75 @@
+
+import { PromptTemplate } from '../types';
+import { loadJson, saveJson } from '../utils/storage';
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    command: 'test',
+    description: 'Write tests',
+    prompt: 'Write thorough unit tests for {{input}}. Follow the test framework and layout the project already uses, and cover edge cases and error paths.'
+  },
+  {
+    command: 'refactor',
+    description: 'Refactor without changing behaviour',
+    prompt: 'Refactor {{input}} for readability and maintainability without changing its behaviour. Keep the public interface the same and explain each change.'
+  },
+  {
+    command: 'explain',
+    description: 'Explain code, no changes',
+    prompt: 'Explain how {{input}} works, step by step. Do not propose any file changes.'
+  },
+  {
+    command: 'fix',
+    description: 'Fix a bug',
+    prompt: 'Find and fix the cause of this problem: {{input}}. Make the smallest change that fixes it.'
+  }
+];
+
+const TEMPLATES_KEY = 'forgeai.promptTemplates';
+const COMMAND_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export function isValidCommand(command: string): boolean {
+  return COMMAND_PATTERN.test(command);
+}
+
+// Slash commands typed at the start of the chat input expand into saved prompts.
+export class PromptTemplateStore {
+  private templates: PromptTemplate[] = loadJson(TEMPLATES_KEY, DEFAULT_PROMPT_TEMPLATES);
+
+  list(): PromptTemplate[] {
+    return this.templates;
+  }
+
+  save(templates: PromptTemplate[]): PromptTemplate[] {
+    this.templates = templates.filter(t => isValidCommand(t.command) && t.prompt.trim());
+    saveJson(TEMPLATES_KEY, this.templates);
+    return this.templates;
+  }
+
+  // Templates whose command starts with what's typed so far, for completion while typing "/te".
+  suggest(input: string): PromptTemplate[] {
+    const match = /^\/([\w-]*)$/.exec(input);
+    if (!match) return [];
+    return this.templates.filter(t => t.command.toLowerCase().startsWith(match[1].toLowerCase()));
+  }
+
+  /**
+   * Expands "/command rest of message" into the template's prompt. Templates without an
+   * {{input}} placeholder get the rest appended. Null when the input isn't a known command.
+   */
+  expand(input: string, activePath: string | null): string | null {
+    const match = /^\/([\w-]+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+    const template = match && this.templates.find(t => t.command.toLowerCase() === match[1].toLowerCase());
+    if (!template) return null;
+
+    const rest = match[2]?.trim() ?? '';
+    const subject = rest || (activePath ? activePath : 'the current file');
+    let prompt = template.prompt.replace(/\{\{file\}\}/g, activePath ?? 'the current file');
+    prompt = prompt.includes('{{input}}')
+      ? prompt.replace(/\{\{input\}\}/g, subject)
+      : `${prompt}${rest ? `\n\n${rest}` : ''}`;
+    return prompt;
+  }
+}
+
+export const promptTemplates = new PromptTemplateStore();
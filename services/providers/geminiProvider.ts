@@ -0,0 +1,188 @@
+
+import { GoogleGenAI, Type, Content, Part, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { AIResponse, Attachment, TokenUsage } from "../../types";
+import { LLMProvider, GenerateRequest, GenerateOptions, collectJsonStream, AgentMessage, StepRequest, StepResult, StepOptions } from "./llmProvider";
+import { attachmentText } from "../../utils/attachments";
+
+function toParts(text: string, attachments: Attachment[] = []): Part[] {
+  return [
+    { text },
+    ...attachments.map(a => (a.kind === 'image' ? { inlineData: { mimeType: a.mimeType, data: a.data } } : { text: attachmentText(a) }))
+  ];
+}
+
+function toContent(message: AgentMessage): Content {
+  if (message.role === 'user') return { role: 'user', parts: toParts(message.text, message.attachments) };
+  if (message.role === 'tool') {
+    return {
+      role: 'user',
+      parts: message.results.map(({ call, output, isError }) => ({
+        functionResponse: { id: call.id, name: call.name, response: isError ? { error: output } : { output } }
+      }))
+    };
+  }
+  // Replaying the model's own content keeps the thought signatures Gemini requires.
+  if (message.raw) return message.raw as Content;
+  return {
+    role: 'model',
+    parts: [
+      ...(message.text ? [{ text: message.text }] : []),
+      ...(message.toolCalls ?? []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))
+    ]
+  };
+}
+
+// Streamed text arrives in many small parts; runs of plain text are joined so the replayed turn stays compact.
+function appendPart(parts: Part[], part: Part) {
+  const last = parts[parts.length - 1];
+  const plain = (p: Part) => typeof p.text === 'string' && !p.thoughtSignature && !p.functionCall;
+  if (last && plain(last) && plain(part) && !!last.thought === !!part.thought) {
+    parts[parts.length - 1] = { ...last, text: last.text + part.text! };
+  } else {
+    parts.push(part);
+  }
+}
+
+function toUsage(usage: GenerateContentResponseUsageMetadata): TokenUsage {
+  return {
+    promptTokens: (usage.promptTokenCount ?? 0) + (usage.toolUsePromptTokenCount ?? 0),
+    outputTokens: usage.candidatesTokenCount ?? 0,
+    thinkingTokens: usage.thoughtsTokenCount ?? 0
+  };
+}
+
+export class GeminiProvider implements LLMProvider {
+  id = 'gemini' as const;
+  label = 'Gemini';
+  defaultModel = 'gemini-3-pro-preview';
+  suggestedModels = ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'];
+
+  async generate({ systemInstruction, turns, settings }: GenerateRequest, options: GenerateOptions): Promise<AIResponse> {
+    // Fixed: Always use process.env.API_KEY directly and create instance right before making the call.
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    const stream = await ai.models.generateContentStream({
+      model: settings.model,
+      contents: turns.map(turn => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: toParts(turn.text, turn.attachments)
+      })),
+      config: {
+        abortSignal: options.signal,
+        systemInstruction,
+        temperature: settings.temperature,
+        thinkingConfig: { thinkingBudget: settings.thinkingBudget },
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            thinking: { type: Type.STRING, description: 'Step-by-step reasoning.' },
+            message: { type: Type.STRING, description: 'User-facing explanation.' },
+            changes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  path: { type: Type.STRING, description: 'Relative path of the file.' },
+                  content: { type: Type.STRING, description: 'Full content of the file; empty for delete and patch.' },
+                  action: { type: Type.STRING, enum: ['create', 'update', 'delete', 'patch'] },
+                  hunks: {
+                    type: Type.ARRAY,
+                    description: 'Targeted edits for action "patch".',
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        search: { type: Type.STRING, description: 'Exact existing text to replace.' },
+                        startLine: { type: Type.INTEGER, description: '1-based first line to replace, when not using search.' },
+                        endLine: { type: Type.INTEGER, description: '1-based last line to replace (inclusive).' },
+                        replace: { type: Type.STRING, description: 'Replacement text.' }
+                      },
+                      required: ['replace']
+                    }
+                  }
+                },
+                required: ['path', 'content', 'action']
+              }
+            },
+            plan: {
+              type: Type.ARRAY,
+              description: 'Ordered steps, only when a plan is requested.',
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING, description: 'Short imperative title.' },
+                  description: { type: Type.STRING, description: 'What the step does and how.' },
+                  files: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Files the step creates or changes.' }
+                },
+                required: ['title', 'description', 'files']
+              }
+            }
+          },
+          required: ['thinking', 'message', 'changes']
+        }
+      }
+    });
+
+    return collectJsonStream((async function* () {
+      // Each chunk carries the running totals, so only the last one counts. A cancelled or
+      // failed stream was still billed for what it produced, so report it either way.
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      try {
+        for await (const chunk of stream) {
+          if (chunk.usageMetadata) usage = chunk.usageMetadata;
+          yield chunk.text || '';
+        }
+      } finally {
+        if (usage) options.onUsage?.(toUsage(usage));
+      }
+    })(), options);
+  }
+
+  async step({ systemInstruction, messages, tools, settings }: StepRequest, options: StepOptions): Promise<StepResult> {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    const stream = await ai.models.generateContentStream({
+      model: settings.model,
+      contents: messages.map(toContent),
+      config: {
+        abortSignal: options.signal,
+        systemInstruction,
+        temperature: settings.temperature,
+        thinkingConfig: { thinkingBudget: settings.thinkingBudget, includeThoughts: true },
+        ...(tools.length > 0 ? {
+          tools: [{
+            functionDeclarations: tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parametersJsonSchema: tool.parameters
+            }))
+          }]
+        } : {})
+      }
+    });
+
+    // The parts of all chunks together make up the model's turn, thought signatures included
+    const parts: Part[] = [];
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    try {
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+          appendPart(parts, part);
+          if (part.text) options.onDelta?.(part.thought ? { thinking: part.text } : { text: part.text });
+        }
+      }
+    } finally {
+      if (usage) options.onUsage?.(toUsage(usage));
+    }
+
+    return {
+      text: parts.filter(p => p.text && !p.thought).map(p => p.text).join(''),
+      thinking: parts.filter(p => p.text && p.thought).map(p => p.text).join(''),
+      toolCalls: parts.filter(p => p.functionCall).map((p, i) => ({
+        id: p.functionCall!.id ?? `call_${i}`,
+        name: p.functionCall!.name ?? '',
+        args: p.functionCall!.args ?? {}
+      })),
+      raw: { role: 'model', parts } as Content
+    };
+  }
+}
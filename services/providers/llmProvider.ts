@@ -0,0 +1,183 @@
+
+import { AIResponse, FileChange, ModelSettings, ProviderId, ToolCall, AgentStep, TokenUsage, Attachment } from '../../types';
+import { ConversationTurn } from '../../utils/conversation';
+import { parsePartialJson } from '../../utils/partialJson';
+import { parseModelJson, stripFences, validateResponse } from '../../utils/responseValidation';
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Called with everything parsed so far each time a streamed chunk arrives.
+  onPartial?: (partial: AIResponse) => void;
+  // Called once per model call with the tokens the provider reported for it
+  onUsage?: (usage: TokenUsage) => void;
+  // Called before waiting to retry a rate-limited or failed call
+  onRetry?: (info: { attempt: number; delayMs: number; error: Error }) => void;
+}
+
+export interface StepOptions extends Pick<GenerateOptions, 'signal' | 'onUsage'> {
+  // Called with each piece of reply text or reasoning as it streams in
+  onDelta?: (delta: { text?: string; thinking?: string }) => void;
+}
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  turns: ConversationTurn[];
+  settings: ModelSettings;
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, any>;
+}
+
+// Provider-neutral transcript of a tool-calling exchange.
+export type AgentMessage =
+  | { role: 'user'; text: string; attachments?: Attachment[] }
+  // raw keeps the provider's own message (e.g. Gemini thought signatures) to send back verbatim
+  | { role: 'assistant'; text: string; toolCalls?: ToolCall[]; raw?: unknown }
+  | { role: 'tool'; results: AgentStep[] };
+
+export interface StepRequest {
+  systemInstruction: string;
+  messages: AgentMessage[];
+  // Empty for a plain text reply
+  tools: ToolDeclaration[];
+  settings: ModelSettings;
+}
+
+export interface StepResult {
+  text: string;
+  thinking: string;
+  // Empty when the model gave its final answer
+  toolCalls: ToolCall[];
+  raw?: unknown;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  generate(request: GenerateRequest, options: GenerateOptions): Promise<AIResponse>;
+  // One model turn with function calling; providers without it only support generate().
+  step?(request: StepRequest, options: StepOptions): Promise<StepResult>;
+}
+
+/**
+ * An HTTP error from a model API. The status decides whether the call is retried, and
+ * a Retry-After header, when sent, overrides the backoff delay.
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export async function providerError(label: string, resp: Response): Promise<ProviderError> {
+  const retryAfter = Number(resp.headers.get('retry-after'));
+  const body = await resp.text().catch(() => '');
+  return new ProviderError(
+    `${label} request failed (${resp.status}): ${body}`,
+    resp.status,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+  );
+}
+
+// Spelled out in the system prompt for providers without structured-output schemas.
+export const RESPONSE_FORMAT_INSTRUCTIONS = `Respond with a single JSON object and nothing else:
+{
+  "thinking": "step-by-step reasoning",
+  "message": "user-facing explanation",
+  "changes": [{
+    "path": "relative/path",
+    "content": "full file content (empty for delete and patch)",
+    "action": "create" | "update" | "delete" | "patch",
+    "hunks": [{ "search": "exact existing text", "replace": "new text" }]
+  }]
+}
+A hunk may use "startLine"/"endLine" (1-based, inclusive) instead of "search".`;
+
+// Plan mode: the same object, with the steps in "plan" and no changes yet.
+export const PLAN_FORMAT_INSTRUCTIONS = `Respond with a single JSON object and nothing else:
+{
+  "thinking": "step-by-step reasoning",
+  "message": "short overview of the approach",
+  "changes": [],
+  "plan": [{
+    "title": "short imperative title",
+    "description": "what this step does and how",
+    "files": ["relative/path", "..."]
+  }]
+}`;
+
+// Problems listed in an error; the rest are summarised as a count
+const MAX_LISTED_PROBLEMS = 10;
+
+/**
+ * The model's output could not be used even after repairs. The problems are specific
+ * enough to show the user or to send back to the model for another try.
+ */
+export class InvalidResponseError extends Error {
+  constructor(public problems: string[], public rawText: string, public retried = false) {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).map(p => `- ${p}`);
+    if (problems.length > MAX_LISTED_PROBLEMS) listed.push(`- ...and ${problems.length - MAX_LISTED_PROBLEMS} more`);
+    super(`The AI returned an invalid response${retried ? ', again after being asked to fix it' : ''}:\n${listed.join('\n')}`);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+// Keeps only the changes whose JSON objects have been fully received.
+function extractPartial(text: string): AIResponse | null {
+  try {
+    const { value, isComplete } = parsePartialJson(stripFences(text));
+    if (!value || typeof value !== 'object') return null;
+    const changes: FileChange[] = Array.isArray(value.changes)
+      ? value.changes.filter((c: any) => c && typeof c === 'object' && isComplete(c))
+      : [];
+    return {
+      thinking: typeof value.thinking === 'string' ? value.thinking : '',
+      message: typeof value.message === 'string' ? value.message : '',
+      changes
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Accumulates streamed JSON text from any provider, reporting partial results as they
+ * parse. A cancelled or dropped stream still yields whatever complete output arrived.
+ */
+export async function collectJsonStream(chunks: AsyncIterable<string>, options: GenerateOptions): Promise<AIResponse> {
+  let text = '';
+  try {
+    for await (const chunk of chunks) {
+      text += chunk;
+      const partial = extractPartial(text);
+      if (partial) options.onPartial?.(partial);
+    }
+  } catch (err: any) {
+    const partial = extractPartial(text);
+    if (!partial || (!partial.message && !partial.thinking && partial.changes.length === 0)) throw err;
+    const { response, repairs } = validateResponse(partial, true);
+    return withDiagnostics({ ...response, incomplete: true }, repairs);
+  }
+
+  let parsed: ReturnType<typeof parseModelJson>;
+  try {
+    parsed = parseModelJson(text);
+  } catch (e: any) {
+    throw new InvalidResponseError([e.message], text);
+  }
+  // A cut-off response can't be fixed by asking again within the same limits, so keep what's usable
+  const { response, repairs, errors } = validateResponse(parsed.value, parsed.truncated);
+  if (errors.length > 0) throw new InvalidResponseError(errors, text);
+  return withDiagnostics({ ...response, ...(parsed.truncated ? { incomplete: true } : {}) }, [...parsed.repairs, ...repairs]);
+}
+
+function withDiagnostics(response: AIResponse, diagnostics: string[]): AIResponse {
+  return diagnostics.length > 0 ? { ...response, diagnostics: [...(response.diagnostics ?? []), ...diagnostics] } : response;
+}
@@ -0,0 +1,109 @@
+
+import { AIResponse } from '../../types';
+import { LLMProvider, GenerateRequest, GenerateOptions, collectJsonStream, StepRequest, StepResult, StepOptions, PLAN_FORMAT_INSTRUCTIONS } from './llmProvider';
+import { estimateTokens } from '../contextBuilder';
+import { attachmentTokens } from '../../utils/attachments';
+
+const CHUNK_SIZE = 48;
+const CHUNK_DELAY_MS = 15;
+
+/**
+ * Offline provider for development and tests. Queued responses are returned in order,
+ * strings verbatim so malformed output can be exercised, and errors are thrown to
+ * exercise retries. Usage is estimated from text length. Once the script is empty it
+ * answers deterministically from the prompt text, with a two-step plan when one is
+ * requested. With tools it lists the workspace root, proposes the same file, then answers;
+ * without, it replies with a code block naming the instruction.
+ */
+export class MockProvider implements LLMProvider {
+  id = 'mock' as const;
+  label = 'Mock (offline)';
+  defaultModel = 'scripted';
+  suggestedModels = ['scripted'];
+  private script: (AIResponse | string | Error)[] = [];
+
+  setScript(responses: (AIResponse | string | Error)[]) {
+    this.script = [...responses];
+  }
+
+  async generate(request: GenerateRequest, options: GenerateOptions): Promise<AIResponse> {
+    const lastTurn = request.turns[request.turns.length - 1]?.text ?? '';
+    const response = this.script.shift() ?? (request.systemInstruction.includes(PLAN_FORMAT_INSTRUCTIONS)
+      ? this.plan(lastTurn)
+      : this.answer(lastTurn, request.turns.length));
+    if (response instanceof Error) throw response;
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+    const promptText = request.systemInstruction + request.turns.map(turn => turn.text).join('');
+    const promptTokens = estimateTokens(promptText) + request.turns.reduce((sum, turn) => sum + attachmentTokens(turn.attachments), 0);
+
+    return collectJsonStream((async function* () {
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        if (options.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+        yield text.slice(i, i + CHUNK_SIZE);
+      }
+      options.onUsage?.({ promptTokens, outputTokens: estimateTokens(text), thinkingTokens: 0 });
+    })(), options);
+  }
+
+  async step({ systemInstruction, messages, tools }: StepRequest, options: StepOptions): Promise<StepResult> {
+    if (options.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+    const transcript = messages.map(m => (m.role === 'tool' ? m.results.map(r => r.output).join('') : m.text)).join('');
+    const reply = (result: StepResult): StepResult => {
+      if (result.thinking) options.onDelta?.({ thinking: result.thinking });
+      if (result.text) options.onDelta?.({ text: result.text });
+      const output = result.text + JSON.stringify(result.toolCalls);
+      options.onUsage?.({ promptTokens: estimateTokens(systemInstruction + transcript), outputTokens: estimateTokens(output), thinkingTokens: 0 });
+      return result;
+    };
+
+    if (tools.length === 0) {
+      const instruction = /Instruction: (.*)/.exec(transcript)?.[1] ?? 'edit';
+      return reply({ text: `\`\`\`\n// Mock edit: ${instruction}\n\`\`\``, thinking: '', toolCalls: [] });
+    }
+
+    const lastUser = messages.map(m => m.role).lastIndexOf('user');
+    const toolRounds = messages.slice(lastUser + 1).filter(m => m.role === 'tool').length;
+    const userMessage = messages[lastUser];
+    const prompt = userMessage?.role === 'user' ? userMessage.text : '';
+    const { message, changes: [change] } = this.answer(prompt, messages.length);
+    const thinking = `Mock provider, tool round ${toolRounds + 1}.`;
+
+    if (toolRounds === 0) {
+      return reply({ text: '', thinking, toolCalls: [{ id: 'mock_list', name: 'list_dir', args: { path: '.' } }] });
+    }
+    if (toolRounds === 1) {
+      return reply({ text: '', thinking, toolCalls: [{ id: 'mock_propose', name: 'propose_change', args: { ...change } }] });
+    }
+    return reply({ text: message, thinking, toolCalls: [] });
+  }
+
+  private plan(lastTurn: string): AIResponse {
+    const { task, slug } = parseTask(lastTurn);
+    return {
+      thinking: 'Mock provider planning.',
+      message: `Mock plan for: ${task}`,
+      changes: [],
+      plan: [
+        { title: 'Outline the task', description: `Write down what ${task} involves.`, files: [`mock/${slug}.md`] },
+        { title: 'Add notes', description: 'Record follow-up notes.', files: [`mock/${slug}-notes.md`] }
+      ]
+    };
+  }
+
+  private answer(lastTurn: string, turnCount: number): AIResponse {
+    const { task, slug } = parseTask(lastTurn);
+    return {
+      thinking: `Mock provider received ${turnCount} turn(s).`,
+      message: `Mock response for: ${task}`,
+      changes: [{ path: `mock/${slug}.md`, content: `# ${task}\n`, action: 'create' }]
+    };
+  }
+}
+
+function parseTask(lastTurn: string): { task: string; slug: string } {
+  const task = (/User Task:\n([\s\S]*?)(?:\n\n|$)/.exec(lastTurn)?.[1] ?? lastTurn).trim();
+  const slug = task.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'task';
+  return { task, slug };
+}
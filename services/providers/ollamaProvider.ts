@@ -0,0 +1,123 @@
+
+import { AIResponse, Attachment, TokenUsage } from '../../types';
+import { LLMProvider, GenerateRequest, GenerateOptions, collectJsonStream, AgentMessage, StepRequest, StepResult, StepOptions, providerError } from './llmProvider';
+import { readLines } from '../../utils/stream';
+import { attachmentText } from '../../utils/attachments';
+
+// Ollama takes images as a list of base64 strings beside the text; vision models use them, others ignore them.
+function toMessage(role: 'user' | 'assistant', text: string, attachments: Attachment[] = []): any {
+  const images = attachments.filter(a => a.kind === 'image').map(a => a.data);
+  const files = attachments.filter(a => a.kind === 'text').map(attachmentText);
+  return {
+    role,
+    content: [text, ...files].join('\n\n'),
+    ...(images.length > 0 ? { images } : {})
+  };
+}
+
+function toMessages(message: AgentMessage): any[] {
+  if (message.role === 'user') return [toMessage('user', message.text, message.attachments)];
+  if (message.role === 'tool') {
+    return message.results.map(({ call, output }) => ({ role: 'tool', tool_name: call.name, content: output }));
+  }
+  return [{
+    role: 'assistant',
+    content: message.text,
+    tool_calls: (message.toolCalls ?? []).map(call => ({ function: { name: call.name, arguments: call.args } }))
+  }];
+}
+
+// Reported on the final message; eval_count includes any thinking
+function toUsage(data: any): TokenUsage {
+  return { promptTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0, thinkingTokens: 0 };
+}
+
+export class OllamaProvider implements LLMProvider {
+  id = 'ollama' as const;
+  label = 'Ollama';
+  defaultModel = 'qwen2.5-coder';
+  suggestedModels = ['qwen2.5-coder', 'llama3.1', 'deepseek-coder-v2', 'codellama'];
+  static defaultBaseUrl = 'http://localhost:11434';
+
+  async generate({ systemInstruction, turns, settings }: GenerateRequest, options: GenerateOptions): Promise<AIResponse> {
+    const baseUrl = (settings.baseUrl || OllamaProvider.defaultBaseUrl).replace(/\/$/, '');
+    const resp = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        stream: true,
+        format: 'json',
+        options: { temperature: settings.temperature },
+        messages: [
+          { role: 'system', content: systemInstruction },
+          ...turns.map(turn => toMessage(turn.role, turn.text, turn.attachments))
+        ]
+      })
+    });
+    if (!resp.ok) throw await providerError(this.label, resp);
+
+    // Ollama streams newline-delimited JSON objects.
+    return collectJsonStream((async function* () {
+      for await (const line of readLines(resp)) {
+        const data = JSON.parse(line);
+        if (data.error) throw new Error(`Ollama: ${data.error}`);
+        if (data.message?.content) yield data.message.content as string;
+        if (data.done) {
+          options.onUsage?.(toUsage(data));
+          return;
+        }
+      }
+    })(), options);
+  }
+
+  async step({ systemInstruction, messages, tools, settings }: StepRequest, options: StepOptions): Promise<StepResult> {
+    const baseUrl = (settings.baseUrl || OllamaProvider.defaultBaseUrl).replace(/\/$/, '');
+    const resp = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        stream: true,
+        options: { temperature: settings.temperature },
+        messages: [{ role: 'system', content: systemInstruction }, ...messages.flatMap(toMessages)],
+        ...(tools.length > 0 ? { tools: tools.map(tool => ({ type: 'function', function: tool })) } : {})
+      })
+    });
+    if (!resp.ok) throw await providerError(this.label, resp);
+
+    let text = '';
+    let thinking = '';
+    const calls: any[] = [];
+    for await (const line of readLines(resp)) {
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(`Ollama: ${data.error}`);
+      if (data.message?.content) {
+        text += data.message.content;
+        options.onDelta?.({ text: data.message.content });
+      }
+      if (data.message?.thinking) {
+        thinking += data.message.thinking;
+        options.onDelta?.({ thinking: data.message.thinking });
+      }
+      calls.push(...(data.message?.tool_calls ?? []));
+      if (data.done) {
+        options.onUsage?.(toUsage(data));
+        break;
+      }
+    }
+
+    // Ollama doesn't assign call ids; number them so results can be matched up in the UI.
+    return {
+      text,
+      thinking,
+      toolCalls: calls.map((call: any, i: number) => ({
+        id: `call_${messages.length}_${i}`,
+        name: call.function?.name ?? '',
+        args: call.function?.arguments ?? {}
+      }))
+    };
+  }
+}
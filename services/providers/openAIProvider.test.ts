@@ -0,0 +1,46 @@
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleProvider } from './openAIProvider';
+
+function sse(chunks: any[]): Response {
+  const body = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { status: 200 });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAICompatibleProvider.step', () => {
+  it('streams text deltas and assembles tool calls from fragments', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sse([
+      { choices: [{ delta: { reasoning_content: 'Look first.' } }] },
+      { choices: [{ delta: { content: 'Reading ' } }] },
+      { choices: [{ delta: { content: 'the file.' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'read_', arguments: '{"pa' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'file', arguments: 'th":"a.ts"}' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_b', function: { name: 'list_dir', arguments: '{}' } }] } }] },
+      { choices: [], usage: { prompt_tokens: 10, completion_tokens: 7, completion_tokens_details: { reasoning_tokens: 2 } } }
+    ])));
+
+    const deltas: { text?: string; thinking?: string }[] = [];
+    const onUsage = vi.fn();
+    const result = await new OpenAICompatibleProvider().step({
+      systemInstruction: 'sys',
+      messages: [{ role: 'user', text: 'hi' }],
+      tools: [],
+      settings: { provider: 'openai', model: 'gpt-4o', temperature: 0, thinkingBudget: 0 }
+    }, { onDelta: d => deltas.push(d), onUsage });
+
+    expect(deltas).toEqual([{ thinking: 'Look first.' }, { text: 'Reading ' }, { text: 'the file.' }]);
+    expect(result).toEqual({
+      text: 'Reading the file.',
+      thinking: 'Look first.',
+      toolCalls: [
+        { id: 'call_a', name: 'read_file', args: { path: 'a.ts' } },
+        { id: 'call_b', name: 'list_dir', args: {} }
+      ]
+    });
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 10, outputTokens: 5, thinkingTokens: 2 });
+  });
+});
@@ -0,0 +1,155 @@
+
+import { AIResponse, Attachment, TokenUsage } from '../../types';
+import { LLMProvider, GenerateRequest, GenerateOptions, collectJsonStream, AgentMessage, StepRequest, StepResult, StepOptions, providerError } from './llmProvider';
+import { readLines } from '../../utils/stream';
+import { attachmentDataUrl, attachmentText } from '../../utils/attachments';
+
+// Plain text unless there are attachments, which need the array form of content
+function toContent(text: string, attachments: Attachment[] = []): any {
+  if (attachments.length === 0) return text;
+  return [
+    { type: 'text', text },
+    ...attachments.map(a => (a.kind === 'image'
+      ? { type: 'image_url', image_url: { url: attachmentDataUrl(a) } }
+      : { type: 'text', text: attachmentText(a) }))
+  ];
+}
+
+function toMessages(message: AgentMessage): any[] {
+  if (message.role === 'user') return [{ role: 'user', content: toContent(message.text, message.attachments) }];
+  if (message.role === 'tool') {
+    return message.results.map(({ call, output }) => ({ role: 'tool', tool_call_id: call.id, content: output }));
+  }
+  return [{
+    role: 'assistant',
+    content: message.text || null,
+    ...(message.toolCalls?.length ? {
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) }
+      }))
+    } : {})
+  }];
+}
+
+// completion_tokens includes reasoning, which is reported separately
+function toUsage(usage: any): TokenUsage {
+  const thinking = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  return { promptTokens: usage.prompt_tokens ?? 0, outputTokens: (usage.completion_tokens ?? 0) - thinking, thinkingTokens: thinking };
+}
+
+function parseArguments(text: string | undefined): Record<string, any> {
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch (e) {
+    // Surfaces to the model as a tool error about the missing arguments
+    return {};
+  }
+}
+
+// Works with any endpoint that implements the OpenAI chat completions API.
+export class OpenAICompatibleProvider implements LLMProvider {
+  id = 'openai' as const;
+  label = 'OpenAI-compatible';
+  defaultModel = 'gpt-4o';
+  suggestedModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1'];
+  static defaultBaseUrl = 'https://api.openai.com/v1';
+
+  async generate({ systemInstruction, turns, settings }: GenerateRequest, options: GenerateOptions): Promise<AIResponse> {
+    const baseUrl = (settings.baseUrl || OpenAICompatibleProvider.defaultBaseUrl).replace(/\/$/, '');
+    const resp = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: systemInstruction },
+          ...turns.map(turn => ({ role: turn.role, content: toContent(turn.text, turn.attachments) }))
+        ]
+      })
+    });
+    if (!resp.ok) throw await providerError(this.label, resp);
+
+    return collectJsonStream((async function* () {
+      for await (const line of readLines(resp)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        // Sent in a final chunk with no choices
+        if (chunk.usage) options.onUsage?.(toUsage(chunk.usage));
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta as string;
+      }
+    })(), options);
+  }
+
+  async step({ systemInstruction, messages, tools, settings }: StepRequest, options: StepOptions): Promise<StepResult> {
+    const baseUrl = (settings.baseUrl || OpenAICompatibleProvider.defaultBaseUrl).replace(/\/$/, '');
+    const resp = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [{ role: 'system', content: systemInstruction }, ...messages.flatMap(toMessages)],
+        // The API rejects an empty tools array
+        ...(tools.length > 0 ? { tools: tools.map(tool => ({ type: 'function', function: tool })) } : {})
+      })
+    });
+    if (!resp.ok) throw await providerError(this.label, resp);
+
+    let text = '';
+    let thinking = '';
+    // Tool call names and arguments arrive in fragments, keyed by the call's index
+    const calls: { id: string; name: string; arguments: string }[] = [];
+    for await (const line of readLines(resp)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data);
+      if (chunk.usage) options.onUsage?.(toUsage(chunk.usage));
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) {
+        text += delta.content;
+        options.onDelta?.({ text: delta.content });
+      }
+      if (delta.reasoning_content) {
+        thinking += delta.reasoning_content;
+        options.onDelta?.({ thinking: delta.reasoning_content });
+      }
+      for (const fragment of delta.tool_calls ?? []) {
+        const call = calls[fragment.index ?? 0] ??= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    return {
+      text,
+      thinking,
+      toolCalls: calls.filter(Boolean).map((call, i) => ({
+        id: call.id || `call_${i}`,
+        name: call.name,
+        args: parseArguments(call.arguments)
+      }))
+    };
+  }
+}
@@ -0,0 +1,112 @@
+
+import { fsService } from './fileSystemService';
+import { isBinaryPath } from './contextBuilder';
+import { createIgnoreMatcher, matchesPathOrParent } from '../utils/ignore';
+
+// Stops runaway searches (e.g. "." as a regex) from flooding the UI.
+const MAX_MATCHES = 2000;
+const MAX_FILE_CHARS = 1_000_000;
+const MAX_PREVIEW_CHARS = 200;
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  // Comma-separated .gitignore-style globs, e.g. "src/**, *.ts"
+  include: string;
+  exclude: string;
+}
+
+export interface SearchMatch {
+  // 1-based line and column
+  line: number;
+  column: number;
+  length: number;
+  preview: string;
+}
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchSummary {
+  files: number;
+  matches: number;
+  truncated: boolean;
+}
+
+function splitGlobs(text: string): string[] {
+  return text.split(',').map(g => g.trim()).filter(Boolean);
+}
+
+// Throws with the browser's message when a regex query doesn't compile.
+export function compileQuery(options: SearchOptions): RegExp {
+  const source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+function findMatches(content: string, pattern: RegExp, limit: number): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const line = lines[i];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) && matches.length < limit) {
+      // Trim long lines around the match so minified files stay readable.
+      const start = Math.max(0, match.index - 40);
+      matches.push({
+        line: i + 1,
+        column: match.index + 1,
+        length: match[0].length,
+        preview: line.slice(start, start + MAX_PREVIEW_CHARS)
+      });
+      if (match[0].length === 0) pattern.lastIndex++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Full-text search over every workspace file. Works through FileSystemService, so it
+ * behaves the same against the local bridge and a browser-mounted directory.
+ */
+export class SearchService {
+  async search(
+    options: SearchOptions,
+    onResult: (result: FileSearchResult) => void,
+    signal?: AbortSignal
+  ): Promise<SearchSummary> {
+    const pattern = compileQuery(options);
+    const includes = splitGlobs(options.include);
+    const isIncluded = createIgnoreMatcher(includes);
+    const isExcluded = createIgnoreMatcher(splitGlobs(options.exclude));
+
+    const paths = (await fsService.listFiles()).filter(path =>
+      !isBinaryPath(path)
+      && (includes.length === 0 || matchesPathOrParent(isIncluded, path))
+      && !matchesPathOrParent(isExcluded, path)
+    );
+
+    const summary: SearchSummary = { files: 0, matches: 0, truncated: false };
+    for (const path of paths) {
+      if (signal?.aborted) break;
+      if (summary.matches >= MAX_MATCHES) {
+        summary.truncated = true;
+        break;
+      }
+      const content = await fsService.tryReadFile(path);
+      if (content === null || content.length > MAX_FILE_CHARS || content.includes('\0')) continue;
+
+      const matches = findMatches(content, pattern, MAX_MATCHES - summary.matches);
+      if (matches.length === 0) continue;
+      summary.files++;
+      summary.matches += matches.length;
+      onResult({ path, matches });
+    }
+    return summary;
+  }
+}
+
+export const searchService = new SearchService();
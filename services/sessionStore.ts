@@ -0,0 +1,92 @@
+
+import { SavedConversation, WorkspaceSession } from '../types';
+
+const DB_NAME = 'forgeai';
+const DB_VERSION = 1;
+const WORKSPACES = 'workspaces';
+const CONVERSATIONS = 'conversations';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persists workspaces and their conversations in IndexedDB. Browser directory handles are
+ * stored as-is; the browser asks for permission again before they can be used.
+ */
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(WORKSPACES, { keyPath: 'id' });
+          db.createObjectStore(CONVERSATIONS, { keyPath: 'id' }).createIndex('workspaceId', 'workspaceId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a failed open be retried instead of caching the rejection.
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.open()).transaction(name, mode).objectStore(name);
+  }
+
+  // Most recently opened first.
+  async listWorkspaces(): Promise<WorkspaceSession[]> {
+    const all: WorkspaceSession[] = await promisify((await this.store(WORKSPACES, 'readonly')).getAll());
+    return all.sort((a, b) => b.lastOpened - a.lastOpened);
+  }
+
+  async getWorkspace(id: string): Promise<WorkspaceSession | undefined> {
+    return promisify((await this.store(WORKSPACES, 'readonly')).get(id));
+  }
+
+  async saveWorkspace(workspace: WorkspaceSession): Promise<void> {
+    await promisify((await this.store(WORKSPACES, 'readwrite')).put(workspace));
+  }
+
+  // Finds the saved browser workspace for a directory the user picked again, if any.
+  async findWorkspaceByHandle(handle: any): Promise<WorkspaceSession | undefined> {
+    for (const workspace of await this.listWorkspaces()) {
+      if (workspace.mode === 'browser' && workspace.handle && await workspace.handle.isSameEntry(handle)) {
+        return workspace;
+      }
+    }
+    return undefined;
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    for (const conversation of await this.listConversations(id)) {
+      await this.deleteConversation(conversation.id);
+    }
+    await promisify((await this.store(WORKSPACES, 'readwrite')).delete(id));
+  }
+
+  // Most recently updated first.
+  async listConversations(workspaceId: string): Promise<SavedConversation[]> {
+    const index = (await this.store(CONVERSATIONS, 'readonly')).index('workspaceId');
+    const all: SavedConversation[] = await promisify(index.getAll(workspaceId));
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async saveConversation(conversation: SavedConversation): Promise<void> {
+    await promisify((await this.store(CONVERSATIONS, 'readwrite')).put(conversation));
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    await promisify((await this.store(CONVERSATIONS, 'readwrite')).delete(id));
+  }
+}
+
+export const sessionStore = new SessionStore();
@@ -0,0 +1,89 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addUsage, BudgetExceededError, formatCost, formatTokens, UsageTracker } from './usageTracker';
+
+const usage = (promptTokens: number, outputTokens: number, thinkingTokens = 0) => ({ promptTokens, outputTokens, thinkingTokens });
+
+describe('formatting', () => {
+  it('abbreviates token counts', () => {
+    expect(formatTokens(999)).toBe('999');
+    expect(formatTokens(1500)).toBe('1.5k');
+    expect(formatTokens(12345)).toBe('12k');
+  });
+
+  it('shows small costs with more precision and unknown costs as $?', () => {
+    expect(formatCost(1.234)).toBe('$1.23');
+    expect(formatCost(0.0012)).toBe('$0.0012');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(null)).toBe('$?');
+  });
+
+  it('adds usage field by field', () => {
+    expect(addUsage(usage(1, 2, 3), usage(10, 20, 30))).toEqual(usage(11, 22, 33));
+  });
+});
+
+describe('UsageTracker', () => {
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    });
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 12));
+    tracker = new UsageTracker();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prices by exact model name, then by the longest matching prefix', () => {
+    expect(tracker.priceFor('gemini', 'gemini-2.5-flash')).toEqual({ inputPerMillion: 0.3, outputPerMillion: 2.5 });
+    expect(tracker.priceFor('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ inputPerMillion: 0.15, outputPerMillion: 0.6 });
+    expect(tracker.priceFor('openai', 'unknown-model')).toBeNull();
+    expect(tracker.priceFor('ollama', 'llama3')).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+  });
+
+  it('charges thinking tokens at the output price', () => {
+    expect(tracker.costOf(usage(1_000_000, 500_000, 500_000), 'gemini', 'gemini-2.5-pro')).toBeCloseTo(11.25);
+    expect(tracker.costOf(usage(1, 1), 'openai', 'unknown-model')).toBeNull();
+  });
+
+  it('accumulates the day, notifies listeners and persists', () => {
+    const listener = vi.fn();
+    const unsubscribe = tracker.onChange(listener);
+    tracker.record(usage(1_000_000, 0), 'gemini', 'gemini-2.5-pro');
+    tracker.record(usage(0, 100_000), 'gemini', 'gemini-2.5-pro');
+    unsubscribe();
+    tracker.record(usage(5, 5), 'openai', 'unknown-model');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(tracker.getToday()).toMatchObject({ day: '2026-10-19', promptTokens: 1_000_005, outputTokens: 100_005, calls: 3 });
+    expect(tracker.getToday().costUsd).toBeCloseTo(2.25);
+    expect(new UsageTracker().getToday().calls).toBe(3);
+  });
+
+  it('starts a new total on a new day', () => {
+    tracker.record(usage(10, 10), 'mock', 'scripted');
+    vi.setSystemTime(new Date(2026, 9, 20, 0, 1));
+    expect(tracker.getToday()).toMatchObject({ day: '2026-10-20', calls: 0, costUsd: 0 });
+  });
+
+  it('refuses calls once the daily budget is spent', () => {
+    tracker.checkBudget();
+    tracker.updateSettings({ dailyBudgetUsd: 1 });
+    tracker.record(usage(400_000, 0), 'gemini', 'gemini-3-pro-preview');
+    expect(() => tracker.checkBudget()).not.toThrow();
+    tracker.record(usage(100_000, 0), 'gemini', 'gemini-3-pro-preview');
+    expect(() => tracker.checkBudget()).toThrow(BudgetExceededError);
+  });
+
+  it('never blocks with no budget set', () => {
+    tracker.record(usage(100_000_000, 0), 'gemini', 'gemini-3-pro-preview');
+    expect(() => tracker.checkBudget()).not.toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+
+import { DailyUsage, ModelPricing, ProviderId, TokenUsage, UsageSettings } from '../types';
+import { loadJson, saveJson } from '../utils/storage';
+
+// List prices when these were added; they change, so they can be edited in the usage panel.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  pricing: {
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 }
+  },
+  contextWarningTokens: 50000,
+  dailyBudgetUsd: 0
+};
+
+const USAGE_SETTINGS_KEY = 'forgeai.usageSettings';
+const DAILY_USAGE_KEY = 'forgeai.dailyUsage';
+
+// Local models cost nothing per token
+const FREE_PROVIDERS: ProviderId[] = ['ollama', 'mock'];
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function emptyDay(): DailyUsage {
+  return { ...EMPTY_USAGE, day: today(), costUsd: 0, calls: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    thinkingTokens: a.thinkingTokens + b.thinkingTokens
+  };
+}
+
+export function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(n >= 10000 ? 0 : 1)}k` : String(n);
+}
+
+export function formatCost(usd: number | null): string {
+  if (usd === null) return '$?';
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public spentUsd: number, public budgetUsd: number) {
+    super(`Daily AI budget of ${formatCost(budgetUsd)} reached (${formatCost(spentUsd)} spent today). Raise it in the usage settings to continue.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Prices token usage and keeps a running total for the current day, which the daily
+ * budget is checked against before each model call. Costs are estimates from the
+ * configured prices, not the provider's bill.
+ */
+export class UsageTracker {
+  private settings: UsageSettings = { ...DEFAULT_USAGE_SETTINGS, ...loadJson<Partial<UsageSettings>>(USAGE_SETTINGS_KEY, {}) };
+  private daily: DailyUsage = loadJson(DAILY_USAGE_KEY, emptyDay());
+  private listeners = new Set<(daily: DailyUsage) => void>();
+
+  getSettings(): UsageSettings {
+    return this.settings;
+  }
+
+  updateSettings(patch: Partial<UsageSettings>): UsageSettings {
+    this.settings = { ...this.settings, ...patch };
+    saveJson(USAGE_SETTINGS_KEY, this.settings);
+    return this.settings;
+  }
+
+  getToday(): DailyUsage {
+    if (this.daily.day !== today()) this.daily = emptyDay();
+    return this.daily;
+  }
+
+  onChange(listener: (daily: DailyUsage) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Exact model name first, then the longest configured name it starts with (e.g. dated releases).
+  priceFor(provider: ProviderId, model: string): ModelPricing | null {
+    if (FREE_PROVIDERS.includes(provider)) return { inputPerMillion: 0, outputPerMillion: 0 };
+    const { pricing } = this.settings;
+    if (pricing[model]) return pricing[model];
+    const prefix = Object.keys(pricing).filter(name => model.startsWith(name)).sort((a, b) => b.length - a.length)[0];
+    return prefix ? pricing[prefix] : null;
+  }
+
+  // Null when the model has no configured price.
+  costOf(usage: TokenUsage, provider: ProviderId, model: string): number | null {
+    const price = this.priceFor(provider, model);
+    if (!price) return null;
+    return (usage.promptTokens * price.inputPerMillion + (usage.outputTokens + usage.thinkingTokens) * price.outputPerMillion) / 1e6;
+  }
+
+  record(usage: TokenUsage, provider: ProviderId, model: string) {
+    const day = this.getToday();
+    this.daily = {
+      ...day,
+      ...addUsage(day, usage),
+      costUsd: day.costUsd + (this.costOf(usage, provider, model) ?? 0),
+      calls: day.calls + 1
+    };
+    saveJson(DAILY_USAGE_KEY, this.daily);
+    this.listeners.forEach(listener => listener(this.daily));
+  }
+
+  checkBudget() {
+    const { dailyBudgetUsd } = this.settings;
+    const spent = this.getToday().costUsd;
+    if (dailyBudgetUsd > 0 && spent >= dailyBudgetUsd) throw new BudgetExceededError(spent, dailyBudgetUsd);
+  }
+}
+
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,75 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileChange } from '../types';
+import { normalizeWorkspacePath, PolicyViolationError, WritePolicyService } from './writePolicy';
+
+const change = (path: string, action: FileChange['action'] = 'update', content = 'x'): FileChange => ({ path, action, content });
+
+describe('normalizeWorkspacePath', () => {
+  it('resolves dot segments and backslashes', () => {
+    expect(normalizeWorkspacePath('./src//a/../b.ts')).toBe('src/b.ts');
+    expect(normalizeWorkspacePath('src\\b.ts')).toBe('src/b.ts');
+  });
+
+  it('rejects paths outside the workspace', () => {
+    for (const path of ['/etc/passwd', '~/.ssh/id_rsa', 'C:/x', '../x', 'a/../../x', '.', '']) {
+      expect(normalizeWorkspacePath(path)).toBeNull();
+    }
+  });
+});
+
+describe('WritePolicyService', () => {
+  let policy: WritePolicyService;
+
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    });
+    policy = new WritePolicyService();
+  });
+
+  it('blocks denied paths, naming the rule, including under denied directories', () => {
+    expect(policy.check(change('.env'))).toEqual({ level: 'block', reason: 'Protected by deny rule ".env"' });
+    expect(policy.check(change('config/.env.local')).reason).toContain('".env.*"');
+    expect(policy.check(change('.git/config')).level).toBe('block');
+    expect(policy.check(change('../outside.ts')).reason).toBe('Path is outside the workspace');
+  });
+
+  it('allows what a negated deny rule re-includes', () => {
+    expect(policy.check(change('.env.example'))).toEqual({ level: 'allow' });
+  });
+
+  it('asks for confirmation on protected files', () => {
+    expect(policy.check(change('package-lock.json'))).toEqual({ level: 'confirm', reason: 'Needs confirmation (rule "package-lock.json")' });
+    expect(policy.check(change('.github/workflows/ci.yml')).level).toBe('confirm');
+    expect(policy.check(change('src/app.ts'))).toEqual({ level: 'allow' });
+  });
+
+  it('blocks oversized content for create and update but not for delete', () => {
+    policy.updatePolicy({ maxFileBytes: 10 });
+    expect(policy.check(change('a.ts', 'create', 'x'.repeat(11))).level).toBe('block');
+    expect(policy.check(change('a.ts', 'delete', 'x'.repeat(11))).level).toBe('allow');
+    expect(policy.checkContent('é'.repeat(6)).level).toBe('block');
+  });
+
+  it('persists updates for the next session', () => {
+    policy.updatePolicy({ deny: ['secrets/'] });
+    const reloaded = new WritePolicyService();
+    expect(reloaded.getPolicy().deny).toEqual(['secrets/']);
+    expect(reloaded.check(change('secrets/token.txt')).level).toBe('block');
+    expect(reloaded.check(change('.env')).level).toBe('allow');
+  });
+
+  it('normalizes paths on enforce and throws listing every blocked change', () => {
+    expect(policy.enforce([change('./src/a.ts')])).toEqual([change('src/a.ts')]);
+    try {
+      policy.enforce([change('src/a.ts'), change('.env'), change('/abs')]);
+      expect.fail('expected a PolicyViolationError');
+    } catch (err) {
+      expect(err).toBeInstanceOf(PolicyViolationError);
+      expect((err as PolicyViolationError).violations.map(v => v.path)).toEqual(['.env', '/abs']);
+    }
+  });
+});
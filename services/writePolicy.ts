@@ -0,0 +1,111 @@
+
+import { FileChange, PolicyVerdict, WritePolicy } from '../types';
+import { createIgnoreMatcher, matchesPathOrParent } from '../utils/ignore';
+import { loadJson, saveJson } from '../utils/storage';
+
+export const DEFAULT_WRITE_POLICY: WritePolicy = {
+  deny: ['.git/', '.env', '.env.*', '!.env.example', '*.pem', '*.key', 'id_rsa*', 'id_ed25519*'],
+  confirm: [
+    'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Cargo.lock', 'poetry.lock',
+    'Gemfile.lock', 'composer.lock', 'go.sum', '.github/', '.gitignore'
+  ],
+  maxFileBytes: 1024 * 1024
+};
+
+const WRITE_POLICY_KEY = 'forgeai.writePolicy';
+
+// Thrown before anything is written when a change breaks the write policy.
+export class PolicyViolationError extends Error {
+  constructor(public violations: { path: string; reason: string }[]) {
+    super(`Blocked by write policy: ${violations.map(v => `${v.path} (${v.reason})`).join(', ')}`);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Resolves "." and ".." segments and unifies separators. Returns null for absolute paths
+ * and anything that would land outside the workspace root.
+ */
+export function normalizeWorkspacePath(path: string): string | null {
+  const slashed = path.trim().replace(/\\/g, '/');
+  if (slashed.startsWith('/') || slashed.startsWith('~') || /^[a-zA-Z]:/.test(slashed)) return null;
+
+  const parts: string[] = [];
+  for (const part of slashed.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.length > 0 ? parts.join('/') : null;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// The last pattern that matches on its own, for naming it in the verdict.
+function matchingRule(patterns: string[], path: string): string | null {
+  if (!matchesPathOrParent(createIgnoreMatcher(patterns), path)) return null;
+  const rule = [...patterns].reverse().find(p => !p.startsWith('!') && matchesPathOrParent(createIgnoreMatcher([p]), path));
+  return rule ?? patterns[patterns.length - 1];
+}
+
+export class WritePolicyService {
+  private policy: WritePolicy = { ...DEFAULT_WRITE_POLICY, ...loadJson<Partial<WritePolicy>>(WRITE_POLICY_KEY, {}) };
+
+  getPolicy(): WritePolicy {
+    return this.policy;
+  }
+
+  updatePolicy(patch: Partial<WritePolicy>): WritePolicy {
+    this.policy = { ...this.policy, ...patch };
+    saveJson(WRITE_POLICY_KEY, this.policy);
+    return this.policy;
+  }
+
+  // Content size is only known up front for create and update; patched results go through checkContent.
+  check(change: FileChange): PolicyVerdict {
+    const path = normalizeWorkspacePath(change.path);
+    if (path === null) return { level: 'block', reason: 'Path is outside the workspace' };
+
+    const denied = matchingRule(this.policy.deny, path);
+    if (denied) return { level: 'block', reason: `Protected by deny rule "${denied}"` };
+    if (change.action === 'create' || change.action === 'update') {
+      const sizeVerdict = this.checkContent(change.content);
+      if (sizeVerdict.level === 'block') return sizeVerdict;
+    }
+
+    const confirm = matchingRule(this.policy.confirm, path);
+    if (confirm) return { level: 'confirm', reason: `Needs confirmation (rule "${confirm}")` };
+    return { level: 'allow' };
+  }
+
+  checkContent(content: string): PolicyVerdict {
+    const bytes = new TextEncoder().encode(content).length;
+    if (bytes > this.policy.maxFileBytes) {
+      return { level: 'block', reason: `${formatBytes(bytes)} exceeds the ${formatBytes(this.policy.maxFileBytes)} limit` };
+    }
+    return { level: 'allow' };
+  }
+
+  /**
+   * Returns the changes with normalized paths, or throws if any is blocked. Confirmation
+   * is the review's job; by the time changes get here the user has accepted them.
+   */
+  enforce(changes: FileChange[]): FileChange[] {
+    const violations: { path: string; reason: string }[] = [];
+    const normalized = changes.map(change => {
+      const verdict = this.check(change);
+      if (verdict.level === 'block') violations.push({ path: change.path, reason: verdict.reason! });
+      return { ...change, path: normalizeWorkspacePath(change.path) ?? change.path };
+    });
+    if (violations.length > 0) throw new PolicyViolationError(violations);
+    return normalized;
+  }
+}
+
+export const writePolicy = new WritePolicyService();
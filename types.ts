@@ -10,21 +10,325 @@ export interface FileNode {
   isOpen?: boolean;
 }
 
+export interface PatchHunk {
+  // Either the exact text to find...
+  search?: string;
+  // ...or a 1-based inclusive line range in the current file
+  startLine?: number;
+  endLine?: number;
+  replace: string;
+}
+
 export interface FileChange {
   path: string;
+  // Full file content for create/update; empty for delete and patch
   content: string;
-  action: 'create' | 'update' | 'delete';
+  action: 'create' | 'update' | 'delete' | 'patch';
+  hunks?: PatchHunk[];
+}
+
+// Inline edit: the text that replaces the editor selection
+export interface InlineEditResult {
+  replacement: string;
+  usage?: MessageUsage;
+}
+
+// One step of a plan as the model proposes it
+export interface PlannedStep {
+  title: string;
+  description: string;
+  // Files the step is expected to create or change
+  files: string[];
+}
+
+export interface PlanStep extends PlannedStep {
+  id: string;
+  status: 'pending' | 'running' | 'proposed' | 'done' | 'skipped';
+  // The assistant message holding this step's changes
+  messageTimestamp?: number;
+}
+
+// Plan mode: kept on the assistant message that proposed it, so it is saved with the conversation.
+export interface TaskPlan {
+  goal: string;
+  steps: PlanStep[];
+  status: 'draft' | 'running' | 'paused' | 'done';
 }
 
 export interface AIResponse {
   thinking: string;
   message: string;
   changes: FileChange[];
+  // Set when a plan was requested instead of changes
+  plan?: PlannedStep[];
+  // True when the stream was cancelled or cut off and only part of the response arrived
+  incomplete?: boolean;
+  // Tool calls made while exploring the workspace, in order
+  steps?: AgentStep[];
+  // Problems in the model's output that were repaired, or changes that had to be dropped
+  diagnostics?: string[];
+  usage?: MessageUsage;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface AgentStep {
+  call: ToolCall;
+  output: string;
+  isError?: boolean;
+}
+
+// An image or text file sent with a message; stored inline so saved conversations keep it.
+export interface Attachment {
+  id: string;
+  name: string;
+  kind: 'image' | 'text';
+  mimeType: string;
+  // Base64 for images, the file's text otherwise
+  data: string;
+  // Bytes of the original file
+  size: number;
+  // Set when attached from the workspace
+  path?: string;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  thinking?: string;
   changes?: FileChange[];
+  // Set once the user commits this message's changes to disk
+  appliedAt?: number;
+  incomplete?: boolean;
+  contextFiles?: ContextFile[];
+  attachments?: Attachment[];
+  steps?: AgentStep[];
+  diagnostics?: string[];
+  usage?: MessageUsage;
+  // Auto-verify: set on the generated report of a check run after a commit
+  verification?: VerificationResult;
+  // Auto-verify: which fix attempt this assistant reply is (1-based)
+  verifyIteration?: number;
+  plan?: TaskPlan;
+  // Plan mode: set on the request for a step and on the reply carrying its changes
+  planStep?: { planTimestamp: number; stepId: string };
+}
+
+export interface VerificationResult {
+  command: string;
+  passed: boolean;
+  exitCode?: number | null;
+  // Tail of the combined stdout/stderr
+  output: string;
+}
+
+export type GitFileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+
+export interface GitStatus {
+  isRepo: boolean;
+  branch: string | null;
+  // Workspace-relative paths; untracked directories appear as the directory itself
+  files: Record<string, GitFileStatus>;
+}
+
+export interface GitCommit {
+  sha: string;
+  subject: string;
+  author: string;
+  timestamp: number;
+  // Set on commits made for an applied AI change set
+  changeSetId: string | null;
+}
+
+export interface GitSettings {
+  autoCommit: boolean;
+  branchPerTask: boolean;
+  branchPrefix: string;
+}
+
+// Per-workspace preferences sent with every request, alongside .forgeai/rules.md
+export interface ProjectPreferences {
+  language: string;
+  style: string;
+  framework: string;
+}
+
+// A saved prompt run by typing /command in the chat input
+export interface PromptTemplate {
+  command: string;
+  description: string;
+  // {{input}} is replaced by the text after the command and {{file}} by the active file's path
+  prompt: string;
+}
+
+export interface BridgeSettings {
+  url: string;
+  // Shared secret printed by server.py at startup
+  token: string;
+}
+
+// Guards on what AI-proposed changes may write. Globs use .gitignore syntax.
+export interface WritePolicy {
+  deny: string[];
+  // Changes to these paths need an explicit accept in review
+  confirm: string[];
+  maxFileBytes: number;
+}
+
+export interface PolicyVerdict {
+  level: 'allow' | 'confirm' | 'block';
+  reason?: string;
+}
+
+export interface VerifySettings {
+  enabled: boolean;
+  command: string;
+  maxIterations: number;
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  id: number;
+  // Index range into the DiffLine[] the hunk was built from
+  startIndex: number;
+  endIndex: number;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileSnapshot {
+  path: string;
+  // null when the file did not exist
+  content: string | null;
+}
+
+export interface AppliedChangeSet {
+  id: string;
+  label: string;
+  timestamp: number;
+  changes: FileChange[];
+  before: FileSnapshot[];
+  // Hash of each touched path as the set left it; null when it was deleted
+  afterHashes: Record<string, string | null>;
+}
+
+export interface ContextFile {
+  path: string;
+  tokens: number;
+  reason: 'active' | 'pinned' | 'mentioned' | 'relevant';
+  truncated?: boolean;
+  // Hash of the on-disk content the model saw, for stale-write detection
+  hash?: string;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ModelSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  thinkingBudget: number;
+  // Used by the OpenAI-compatible and Ollama providers
+  baseUrl?: string;
+  apiKey?: string;
+  // Let providers that support function calling explore the workspace with tools
+  useTools?: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  // Visible output only; reasoning is counted separately
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+// Everything spent on one assistant message, including tool steps and retries
+export interface MessageUsage extends TokenUsage {
+  provider: ProviderId;
+  model: string;
+  calls: number;
+}
+
+// USD per million tokens; thinking tokens are billed at the output price
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageSettings {
+  // Keyed by model name; a key also covers dated variants that start with it
+  pricing: Record<string, ModelPricing>;
+  // Ask before sending a request whose context is larger than this; 0 turns the warning off
+  contextWarningTokens: number;
+  // Requests are refused once today's estimated spend reaches this; 0 means no cap
+  dailyBudgetUsd: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  // Local date, YYYY-MM-DD
+  day: string;
+  costUsd: number;
+  calls: number;
+}
+
+export interface EditorTab {
+  path: string;
+  content: string;
+  // Last content read from or written to disk; the tab is dirty when they differ
+  savedContent: string;
+}
+
+export interface WorkspaceSession {
+  // 'server' for the local bridge; generated for browser-mounted directories
+  id: string;
+  name: string;
+  mode: 'server' | 'browser';
+  // FileSystemDirectoryHandle; IndexedDB can store it, so access can be re-granted later
+  handle?: any;
+  lastOpened: number;
+  openPaths: string[];
+  activePath: string | null;
+  logs: string[];
+  activeConversationId?: string;
+  preferences?: ProjectPreferences;
+}
+
+export interface SavedConversation {
+  id: string;
+  workspaceId: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CommandOutput {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+export interface CommandRun {
+  // Bridge-assigned id, known once the command has started
+  id?: string;
+  command: string;
+  startedAt: number;
+  output: CommandOutput[];
+  status: 'running' | 'exited' | 'killed' | 'failed';
+  // null when the process was killed by a signal
+  exitCode?: number | null;
+  error?: string;
 }
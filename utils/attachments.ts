@@ -0,0 +1,89 @@
+
+import { Attachment } from '../types';
+import { estimateTokens } from '../services/contextBuilder';
+
+// Image types every provider accepts as inline data
+export const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif'
+};
+
+// Inline data counts toward the request size limit, which is around 20 MB for the hosted APIs
+export const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+export const MAX_TEXT_CHARS = 100000;
+export const MAX_ATTACHMENTS = 10;
+
+// Providers bill images by resolution; this is roughly a 1024px screenshot.
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function imageType(name: string, mimeType = ''): string | null {
+  if (Object.values(IMAGE_TYPES).includes(mimeType)) return mimeType;
+  return IMAGE_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+}
+
+// Strict UTF-8 without NUL bytes; anything else is treated as binary.
+function decodeText(bytes: Uint8Array): string | null {
+  if (bytes.includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    return null;
+  }
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Turns file bytes into an attachment: supported images as base64, anything that decodes
+ * as UTF-8 as text. Throws with a message for the user when the file is too large or is
+ * some other binary format.
+ */
+export function createAttachment(name: string, bytes: Uint8Array, mimeType = '', path?: string): Attachment {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const image = imageType(name, mimeType);
+  if (image) {
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      throw new Error(`${name} is ${formatSize(bytes.length)}; images can be at most ${formatSize(MAX_IMAGE_BYTES)}.`);
+    }
+    return { id, name, kind: 'image', mimeType: image, data: toBase64(bytes), size: bytes.length, path };
+  }
+
+  const text = decodeText(bytes);
+  if (text === null) {
+    throw new Error(`${name} can't be attached: only ${Object.keys(IMAGE_TYPES).join(', ')} images and text files are supported.`);
+  }
+  if (text.length > MAX_TEXT_CHARS) {
+    throw new Error(`${name} has ${text.length} characters; text attachments can have at most ${MAX_TEXT_CHARS}.`);
+  }
+  return { id, name, kind: 'text', mimeType: mimeType || 'text/plain', data: text, size: bytes.length, path };
+}
+
+export async function readAttachment(file: File): Promise<Attachment> {
+  // Check before reading, so a huge video isn't loaded just to be rejected
+  if (file.size > Math.max(MAX_IMAGE_BYTES, MAX_TEXT_CHARS * 4)) {
+    throw new Error(`${file.name} is ${formatSize(file.size)}, too large to attach.`);
+  }
+  return createAttachment(file.name, new Uint8Array(await file.arrayBuffer()), file.type);
+}
+
+export function attachmentDataUrl(attachment: Attachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+// How a text attachment is shown to the model, as its own part after the message text.
+export function attachmentText(attachment: Attachment): string {
+  return `Attached file ${attachment.path ?? attachment.name}:\n${attachment.data}`;
+}
+
+export function attachmentTokens(attachments: Attachment[] = []): number {
+  return attachments.reduce((sum, a) => sum + (a.kind === 'image' ? IMAGE_TOKEN_ESTIMATE : estimateTokens(attachmentText(a))), 0);
+}
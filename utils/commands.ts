@@ -0,0 +1,81 @@
+
+import { CommandOutput } from '../types';
+
+// Oldest output is dropped past this so a chatty command can't exhaust memory.
+export const MAX_COMMAND_OUTPUT_CHARS = 200_000;
+
+// Splits a command line the way the bridge's shlex.split does for common cases:
+// whitespace-separated words with single quotes, double quotes and backslash escapes.
+export function splitCommand(command: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === '\\' && quote === '"' && i + 1 < command.length) word += command[++i];
+      else word += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inWord = true;
+    } else if (ch === '\\' && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  if (quote) throw new Error('Unterminated quote in command');
+  if (inWord) words.push(word);
+  return words;
+}
+
+// Mirrors the bridge's check so a disallowed command is refused before it is sent.
+export function isCommandAllowed(command: string, allowlist: string[]): boolean {
+  let argv: string[];
+  try {
+    argv = splitCommand(command);
+  } catch (e) {
+    return false;
+  }
+  if (argv.length === 0) return false;
+  return allowlist.some(entry => {
+    const prefix = splitCommand(entry);
+    return prefix.length > 0 && prefix.every((word, i) => argv[i] === word);
+  });
+}
+
+// Appends a chunk, merging it into the previous entry when it came from the same stream.
+export function appendOutput(output: CommandOutput[], stream: CommandOutput['stream'], text: string): CommandOutput[] {
+  const last = output[output.length - 1];
+  const next = last && last.stream === stream
+    ? [...output.slice(0, -1), { stream, text: last.text + text }]
+    : [...output, { stream, text }];
+
+  let excess = next.reduce((sum, o) => sum + o.text.length, 0) - MAX_COMMAND_OUTPUT_CHARS;
+  while (excess > 0 && next.length > 0) {
+    const first = next[0];
+    if (first.text.length <= excess) {
+      excess -= first.text.length;
+      next.shift();
+    } else {
+      next[0] = { ...first, text: first.text.slice(excess) };
+      excess = 0;
+    }
+  }
+  return next;
+}
+
+// Plain text of a run's output, trimmed to the last maxChars for prompts.
+export function outputTail(output: CommandOutput[], maxChars: number): string {
+  const text = output.map(o => o.text).join('');
+  return text.length > maxChars ? `... [${text.length - maxChars} earlier characters omitted]\n${text.slice(-maxChars)}` : text;
+}
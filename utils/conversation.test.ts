@@ -0,0 +1,51 @@
+
+import { describe, expect, it } from 'vitest';
+import { appendUserTurn, buildConversation } from './conversation';
+import { ChatMessage } from '../types';
+
+const user = (content: string, timestamp = 0): ChatMessage => ({ role: 'user', content, timestamp });
+const assistant = (content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({ role: 'assistant', content, timestamp: 0, ...extra });
+
+describe('buildConversation', () => {
+  it('alternates turns and merges consecutive ones from the same role', () => {
+    const { summary, turns } = buildConversation([user('first'), user('again'), assistant('answer')]);
+    expect(summary).toBeNull();
+    expect(turns).toEqual([{ role: 'user', text: 'first\n\nagain' }, { role: 'assistant', text: 'answer' }]);
+  });
+
+  it('replays file contents only for the latest proposal', () => {
+    const older = assistant('one', { changes: [{ path: 'a.ts', action: 'create', content: 'A' }], appliedAt: 1 });
+    const latest = assistant('two', { changes: [{ path: 'b.ts', action: 'update', content: 'B' }] });
+    const { turns } = buildConversation([user('q1'), older, user('q2'), latest]);
+
+    expect(turns[1].text).toBe('one\n\nFile changes (applied to disk by the user):\n- create a.ts');
+    expect(turns[3].text).toBe('two\n\nFile changes (proposed, not applied):\n- update b.ts\n\n--- b.ts ---\nB');
+  });
+
+  it('summarizes messages that no longer fit the budget', () => {
+    const history = [
+      user('old question'),
+      assistant('old answer', { changes: [{ path: 'a.ts', action: 'delete', content: '' }] }),
+      user('new question'),
+      assistant('new answer')
+    ];
+    const { summary, turns } = buildConversation(history, 10);
+
+    expect(turns).toEqual([{ role: 'user', text: 'new question' }, { role: 'assistant', text: 'new answer' }]);
+    expect(summary).toBe('- User asked: old question\n- You answered: old answer (changed: a.ts)');
+  });
+
+  it('drops a leading assistant turn into the summary', () => {
+    const { summary, turns } = buildConversation([user('x'.repeat(400)), assistant('answer')], 10);
+    expect(turns).toEqual([]);
+    expect(summary).toBe(`- User asked: ${'x'.repeat(137)}...\n- You answered: answer`);
+  });
+});
+
+describe('appendUserTurn', () => {
+  it('merges the prompt into a trailing user turn', () => {
+    const turns = appendUserTurn([{ role: 'user', text: 'unanswered' }], 'retry');
+    expect(turns).toEqual([{ role: 'user', text: 'unanswered\n\nretry' }]);
+    expect(appendUserTurn([{ role: 'assistant', text: 'a' }], 'next')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,110 @@
+
+import { Attachment, ChatMessage } from '../types';
+import { estimateTokens } from '../services/contextBuilder';
+import { attachmentTokens } from './attachments';
+
+// History beyond this is folded into a short summary so the request fits the model window.
+export const HISTORY_TOKEN_BUDGET = 24000;
+
+// File contents are only replayed for the latest proposal; earlier ones are listed by path.
+const MAX_REPLAYED_CHANGE_CHARS = 20000;
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  // Sent as separate parts after the text
+  attachments?: Attachment[];
+}
+
+export interface Conversation {
+  summary: string | null;
+  turns: ConversationTurn[];
+}
+
+function describeChanges(msg: ChatMessage, includeContent: boolean): string {
+  if (!msg.changes || msg.changes.length === 0) return '';
+  const status = msg.appliedAt ? 'applied to disk by the user' : 'proposed, not applied';
+  const lines = msg.changes.map(c => `- ${c.action} ${c.path}${c.hunks ? ` (${c.hunks.length} hunks)` : ''}`);
+  let text = `\n\nFile changes (${status}):\n${lines.join('\n')}`;
+
+  if (includeContent) {
+    let budget = MAX_REPLAYED_CHANGE_CHARS;
+    for (const change of msg.changes) {
+      if (change.action === 'delete' || budget <= 0) continue;
+      const full = change.action === 'patch'
+        ? (change.hunks ?? []).map(h => `<<<<<<< SEARCH\n${h.search ?? `lines ${h.startLine}-${h.endLine}`}\n=======\n${h.replace}\n>>>>>>> REPLACE`).join('\n')
+        : change.content;
+      const content = full.length > budget ? `${full.slice(0, budget)}\n... [truncated]` : full;
+      text += `\n\n--- ${change.path} ---\n${content}`;
+      budget -= content.length;
+    }
+  }
+  return text;
+}
+
+function describePlan(msg: ChatMessage): string {
+  if (!msg.plan) return '';
+  const steps = msg.plan.steps.map((s, i) => `${i + 1}. ${s.title} [${s.status}]`);
+  return `\n\nPlan (${msg.plan.status}):\n${steps.join('\n')}`;
+}
+
+function firstLine(text: string, max = 140): string {
+  const line = text.split('\n')[0].trim();
+  return line.length > max ? `${line.slice(0, max - 3)}...` : line;
+}
+
+/**
+ * Converts chat history into alternating turns, newest first until HISTORY_TOKEN_BUDGET
+ * is used up; anything older is collapsed into a one-line-per-message summary.
+ */
+export function buildConversation(history: ChatMessage[], tokenBudget = HISTORY_TOKEN_BUDGET): Conversation {
+  const lastWithChanges = [...history].reverse().find(m => m.role === 'assistant' && m.changes?.length);
+  const turns: ConversationTurn[] = [];
+  let used = 0;
+  let keptFrom = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const msg = history[i];
+    const text = msg.content + (msg.role === 'assistant' ? describeChanges(msg, msg === lastWithChanges) + describePlan(msg) : '');
+    const tokens = estimateTokens(text) + attachmentTokens(msg.attachments);
+    if (used + tokens > tokenBudget && turns.length > 0) break;
+    used += tokens;
+    keptFrom = i;
+
+    const attachments = msg.attachments?.length ? msg.attachments : undefined;
+    const next = turns[0];
+    if (next && next.role === msg.role) {
+      // Merge consecutive turns from the same role (e.g. a prompt that errored).
+      next.text = `${text}\n\n${next.text}`;
+      if (attachments) next.attachments = [...attachments, ...(next.attachments ?? [])];
+    } else {
+      turns.unshift({ role: msg.role, text, ...(attachments ? { attachments } : {}) });
+    }
+  }
+
+  // The model expects the conversation to open with a user turn.
+  if (turns.length > 0 && turns[0].role !== 'user') {
+    turns.shift();
+    while (keptFrom < history.length && history[keptFrom].role === 'assistant') keptFrom++;
+  }
+
+  const summary = history.slice(0, keptFrom).map(m => {
+    const changed = m.changes?.length ? ` (changed: ${m.changes.map(c => c.path).join(', ')})` : '';
+    const attached = m.attachments?.length ? ` (attached: ${m.attachments.map(a => a.name).join(', ')})` : '';
+    return `- ${m.role === 'user' ? 'User asked' : 'You answered'}: ${firstLine(m.content)}${attached}${changed}`;
+  }).join('\n');
+
+  return { summary: summary || null, turns };
+}
+
+// Appends the new prompt, merging it into a trailing user turn if the last reply never arrived.
+export function appendUserTurn(turns: ConversationTurn[], text: string, attachments: Attachment[] = []): ConversationTurn[] {
+  const last = turns[turns.length - 1];
+  const merged = [...(last?.role === 'user' ? last.attachments ?? [] : []), ...attachments];
+  const turn: ConversationTurn = {
+    role: 'user',
+    text: last?.role === 'user' ? `${last.text}\n\n${text}` : text,
+    ...(merged.length > 0 ? { attachments: merged } : {})
+  };
+  return last?.role === 'user' ? [...turns.slice(0, -1), turn] : [...turns, turn];
+}
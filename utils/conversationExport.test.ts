@@ -0,0 +1,60 @@
+
+import { describe, expect, it } from 'vitest';
+import { conversationToJson, conversationToMarkdown, parseConversation } from './conversationExport';
+import { SavedConversation } from '../types';
+
+const conversation: SavedConversation = {
+  id: 'c1',
+  workspaceId: 'w1',
+  title: 'Add a footer',
+  createdAt: Date.UTC(2026, 0, 2, 3, 4, 5),
+  updatedAt: Date.UTC(2026, 0, 2, 3, 5, 0),
+  messages: [
+    { role: 'user', content: 'Add a footer\n\n## not a heading', timestamp: Date.UTC(2026, 0, 2, 3, 4, 5) },
+    {
+      role: 'assistant',
+      content: 'Added it.',
+      thinking: 'Footer goes in the layout.',
+      timestamp: Date.UTC(2026, 0, 2, 3, 5, 0),
+      changes: [
+        { path: 'footer.ts', action: 'create', content: 'const code = "```";' },
+        { path: 'app.ts', action: 'patch', content: '', hunks: [{ search: 'a', replace: 'b' }] }
+      ],
+      appliedAt: Date.UTC(2026, 0, 2, 3, 6, 0)
+    }
+  ]
+};
+
+describe('conversation export', () => {
+  it('round-trips JSON exactly', () => {
+    expect(parseConversation(conversationToJson(conversation), 'chat.json')).toEqual({
+      title: 'Add a footer',
+      messages: conversation.messages
+    });
+  });
+
+  it('round-trips the messages of a Markdown export, without changes or reasoning', () => {
+    const markdown = conversationToMarkdown(conversation);
+    expect(markdown).toContain('<details><summary>create <code>footer.ts</code> (applied)</summary>');
+    expect(markdown).toContain('````\nconst code = "```";\n````');
+
+    expect(parseConversation(markdown, 'chat.md')).toEqual({
+      title: 'Add a footer',
+      messages: [
+        { role: 'user', content: 'Add a footer\n\n## not a heading', timestamp: conversation.messages[0].timestamp },
+        { role: 'assistant', content: 'Added it.', timestamp: conversation.messages[1].timestamp }
+      ]
+    });
+  });
+
+  it('rejects files that are not exported conversations', () => {
+    expect(() => parseConversation('{"messages": [', 'a.json')).toThrow('a.json is not valid JSON.');
+    expect(() => parseConversation('{"format": "other", "messages": []}', 'a.json')).toThrow('a.json is not an exported conversation.');
+    expect(() => parseConversation('{"format": "forgeai.conversation", "messages": [{"role": "bot"}]}', 'a.json')).toThrow('a.json contains malformed messages.');
+    expect(() => parseConversation('# Notes\n\nJust text.', 'notes.md')).toThrow('No messages found in notes.md.');
+  });
+
+  it('names a Markdown import without a title after the file', () => {
+    expect(parseConversation('## User · 2026-01-02T03:04:05.000Z\n\nhi', 'session.md').title).toBe('session');
+  });
+});
@@ -0,0 +1,129 @@
+
+import { ChatMessage, SavedConversation } from '../types';
+
+const FORMAT = 'forgeai.conversation';
+const FORMAT_VERSION = 1;
+
+// Matches the per-message headings written by conversationToMarkdown.
+const MESSAGE_HEADING = /^## (User|Assistant) · (.+)$/;
+
+export function conversationToJson(conversation: SavedConversation): string {
+  const { title, messages, createdAt, updatedAt } = conversation;
+  return JSON.stringify({ format: FORMAT, version: FORMAT_VERSION, title, createdAt, updatedAt, messages }, null, 2);
+}
+
+function fence(content: string): string {
+  // Use a fence longer than any backtick run inside the content.
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(longest + 1);
+}
+
+/**
+ * Renders a conversation for reading in code review. Proposed changes are included in
+ * full and attachments by name; importing the Markdown back restores the messages but
+ * not the changes or attachments.
+ */
+export function conversationToMarkdown(conversation: SavedConversation): string {
+  const parts = [`# ${conversation.title}`, `_Exported ${new Date().toISOString()}_`];
+
+  for (const msg of conversation.messages) {
+    parts.push(`## ${msg.role === 'user' ? 'User' : 'Assistant'} · ${new Date(msg.timestamp).toISOString()}`);
+    parts.push(msg.content);
+    if (msg.attachments?.length) {
+      const names = msg.attachments.map(a => `- \`${a.path ?? a.name}\` (${a.kind})`);
+      parts.push(`<details><summary>Attachments (${msg.attachments.length})</summary>\n\n${names.join('\n')}\n\n</details>`);
+    }
+    if (msg.thinking) {
+      parts.push(`<details><summary>Reasoning</summary>\n\n${msg.thinking}\n\n</details>`);
+    }
+    if (msg.steps?.length) {
+      const calls = msg.steps.map(s => `- \`${s.call.name}(${JSON.stringify(s.call.args)})\`${s.isError ? ` failed: ${s.output}` : ''}`);
+      parts.push(`<details><summary>Tool calls (${msg.steps.length})</summary>\n\n${calls.join('\n')}\n\n</details>`);
+    }
+    if (msg.plan) {
+      const steps = msg.plan.steps.map((s, i) => `${i + 1}. ${s.title} (${s.status})${s.files.length ? ` · ${s.files.map(f => `\`${f}\``).join(', ')}` : ''}`);
+      parts.push(`<details><summary>Plan (${msg.plan.status})</summary>\n\n${steps.join('\n')}\n\n</details>`);
+    }
+    if (msg.contextFiles?.length) {
+      parts.push(`<details><summary>Context (${msg.contextFiles.length} files)</summary>\n\n${msg.contextFiles.map(f => `- \`${f.path}\``).join('\n')}\n\n</details>`);
+    }
+    for (const change of msg.changes ?? []) {
+      const status = msg.appliedAt ? 'applied' : 'proposed';
+      parts.push(`<details><summary>${change.action} <code>${change.path}</code> (${status})</summary>`);
+      if (change.action === 'patch') {
+        for (const hunk of change.hunks ?? []) {
+          const body = `<<<<<<< SEARCH\n${hunk.search ?? `lines ${hunk.startLine}-${hunk.endLine}`}\n=======\n${hunk.replace}\n>>>>>>> REPLACE`;
+          parts.push(`${fence(body)}\n${body}\n${fence(body)}`);
+        }
+      } else if (change.action !== 'delete') {
+        parts.push(`${fence(change.content)}\n${change.content}\n${fence(change.content)}`);
+      }
+      parts.push('</details>');
+    }
+  }
+  return `${parts.join('\n\n')}\n`;
+}
+
+function parseMarkdown(text: string): { title?: string; messages: ChatMessage[] } {
+  const lines = text.split('\n');
+  const messages: ChatMessage[] = [];
+  let title: string | undefined;
+  let current: { msg: ChatMessage; body: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    // Everything from the first reasoning/change block on is presentation only.
+    const end = current.body.findIndex(l => l.startsWith('<details>'));
+    current.msg.content = (end === -1 ? current.body : current.body.slice(0, end)).join('\n').trim();
+    messages.push(current.msg);
+  };
+
+  for (const line of lines) {
+    const heading = MESSAGE_HEADING.exec(line);
+    if (heading) {
+      flush();
+      const timestamp = Date.parse(heading[2]);
+      current = {
+        msg: { role: heading[1] === 'User' ? 'user' : 'assistant', content: '', timestamp: isNaN(timestamp) ? Date.now() : timestamp },
+        body: []
+      };
+    } else if (current) {
+      current.body.push(line);
+    } else if (!title && line.startsWith('# ')) {
+      title = line.slice(2).trim();
+    }
+  }
+  flush();
+  return { title, messages };
+}
+
+function isMessage(value: any): value is ChatMessage {
+  return value && (value.role === 'user' || value.role === 'assistant')
+    && typeof value.content === 'string' && typeof value.timestamp === 'number';
+}
+
+// Accepts either export format. Throws with a readable message if the file isn't one.
+export function parseConversation(text: string, fileName: string): { title: string; messages: ChatMessage[] } {
+  const fallbackTitle = fileName.replace(/\.(json|md|markdown)$/i, '');
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('{')) {
+    let data: any;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`${fileName} is not valid JSON.`);
+    }
+    if (data.format !== FORMAT || !Array.isArray(data.messages)) {
+      throw new Error(`${fileName} is not an exported conversation.`);
+    }
+    if (!data.messages.every(isMessage)) {
+      throw new Error(`${fileName} contains malformed messages.`);
+    }
+    return { title: typeof data.title === 'string' ? data.title : fallbackTitle, messages: data.messages };
+  }
+
+  const { title, messages } = parseMarkdown(text);
+  if (messages.length === 0) throw new Error(`No messages found in ${fileName}.`);
+  return { title: title ?? fallbackTitle, messages };
+}
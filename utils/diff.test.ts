@@ -0,0 +1,71 @@
+
+import { describe, expect, it } from 'vitest';
+import { applyHunkSelection, buildHunks, diffLines, splitLines } from './diff';
+
+const lines = (n: number, prefix = 'line') => Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('diffLines', () => {
+  it('treats the empty string as no lines', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(diffLines('', 'a\nb').map(l => l.type)).toEqual(['added', 'added']);
+  });
+
+  it('marks identical text as context with both line numbers', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'context', text: 'a', oldNumber: 1, newNumber: 1 },
+      { type: 'context', text: 'b', oldNumber: 2, newNumber: 2 }
+    ]);
+  });
+
+  it('finds a minimal edit in the middle of the file', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nB\nc\nd\ne');
+    expect(diff.map(l => `${l.type[0]}${l.text}`)).toEqual(['ca', 'rb', 'aB', 'cc', 'cd', 'ae']);
+    expect(diff[2]).toMatchObject({ newNumber: 2 });
+    expect(diff[2].oldNumber).toBeUndefined();
+    expect(diff[5]).toMatchObject({ newNumber: 5 });
+  });
+
+  it('keeps lines that moved past an insertion as context', () => {
+    const diff = diffLines('x\ny\nz', 'w\nx\ny\nz');
+    expect(diff.filter(l => l.type !== 'context').map(l => l.text)).toEqual(['w']);
+  });
+});
+
+describe('buildHunks', () => {
+  it('splits distant changes and merges near ones', () => {
+    const old = lines(20).join('\n');
+    const far = lines(20).map((l, i) => (i === 1 || i === 17 ? `${l} changed` : l)).join('\n');
+    expect(buildHunks(diffLines(old, far))).toHaveLength(2);
+
+    const near = lines(20).map((l, i) => (i === 5 || i === 9 ? `${l} changed` : l)).join('\n');
+    const hunks = buildHunks(diffLines(old, near));
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 3, oldLines: 11, newStart: 3, newLines: 11 });
+  });
+
+  it('numbers a pure insertion after the preceding line', () => {
+    const hunks = buildHunks(diffLines('a\nb', 'a\nb\nc'), 0);
+    expect(hunks[0]).toMatchObject({ oldStart: 2, oldLines: 0, newStart: 3, newLines: 1 });
+  });
+});
+
+describe('applyHunkSelection', () => {
+  const old = lines(20).join('\n');
+  const updated = lines(20).map((l, i) => (i === 1 ? 'first' : i === 17 ? 'second' : l)).join('\n');
+  const diff = diffLines(old, updated);
+  const hunks = buildHunks(diff);
+
+  it('reproduces the new text when every hunk is accepted', () => {
+    expect(applyHunkSelection(diff, hunks, new Set())).toBe(updated);
+  });
+
+  it('reproduces the old text when every hunk is rejected', () => {
+    expect(applyHunkSelection(diff, hunks, new Set(hunks.map(h => h.id)))).toBe(old);
+  });
+
+  it('mixes accepted and rejected hunks', () => {
+    const result = applyHunkSelection(diff, hunks, new Set([hunks[1].id])).split('\n');
+    expect(result[1]).toBe('first');
+    expect(result[17]).toBe('line 18');
+  });
+});
@@ -0,0 +1,170 @@
+
+import { DiffLine, DiffHunk } from '../types';
+
+// Beyond this many edits the diff degrades to a full replace to keep memory bounded.
+const MAX_EDIT_DISTANCE = 2000;
+
+type DiffOp = { type: DiffLine['type']; text: string };
+
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Trim the common prefix and suffix before running Myers on the middle.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [
+    ...a.slice(0, start).map(text => ({ type: 'context' as const, text })),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(text => ({ type: 'context' as const, text }))
+  ];
+
+  let oldNumber = 0;
+  let newNumber = 0;
+  return ops.map(op => {
+    if (op.type === 'context') return { ...op, oldNumber: ++oldNumber, newNumber: ++newNumber };
+    if (op.type === 'removed') return { ...op, oldNumber: ++oldNumber };
+    return { ...op, newNumber: ++newNumber };
+  });
+}
+
+function myers(x: string[], y: string[]): DiffOp[] {
+  const n = x.length;
+  const m = y.length;
+  const replaceAll = (): DiffOp[] => [
+    ...x.map(text => ({ type: 'removed' as const, text })),
+    ...y.map(text => ({ type: 'added' as const, text }))
+  ];
+  if (n === 0 || m === 0) return replaceAll();
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x reached per diagonal before step d, for k in [-d - 1, d + 1].
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return replaceAll();
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let xi = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let yi = xi - k;
+      while (xi < n && yi < m && x[xi] === y[yi]) {
+        xi++;
+        yi++;
+      }
+      v[offset + k] = xi;
+      if (xi >= n && yi >= m) return backtrack(trace, x, y);
+    }
+  }
+  return replaceAll();
+}
+
+function backtrack(trace: Int32Array[], x: string[], y: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let xi = x.length;
+  let yi = y.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = xi - yi;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (xi > prevX && yi > prevY) {
+      ops.push({ type: 'context', text: x[xi - 1] });
+      xi--;
+      yi--;
+    }
+    if (d > 0) {
+      if (xi === prevX) ops.push({ type: 'added', text: y[yi - 1] });
+      else ops.push({ type: 'removed', text: x[xi - 1] });
+      xi = prevX;
+      yi = prevY;
+    }
+  }
+  return ops.reverse();
+}
+
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is within 2 * context lines.
+    let lastChange = i;
+    let j = i + 1;
+    while (j < lines.length) {
+      if (lines[j].type !== 'context') {
+        lastChange = j;
+      } else if (j - lastChange > context * 2) {
+        break;
+      }
+      j++;
+    }
+
+    const startIndex = Math.max(0, i - context);
+    const endIndex = Math.min(lines.length, lastChange + context + 1);
+    const hunkLines = lines.slice(startIndex, endIndex);
+    const oldSide = hunkLines.filter(l => l.type !== 'added');
+    const newSide = hunkLines.filter(l => l.type !== 'removed');
+
+    hunks.push({
+      id: hunks.length,
+      startIndex,
+      endIndex,
+      oldStart: oldSide[0]?.oldNumber ?? precedingNumber(lines, startIndex, 'oldNumber'),
+      oldLines: oldSide.length,
+      newStart: newSide[0]?.newNumber ?? precedingNumber(lines, startIndex, 'newNumber'),
+      newLines: newSide.length,
+      lines: hunkLines
+    });
+    i = endIndex;
+  }
+  return hunks;
+}
+
+function precedingNumber(lines: DiffLine[], index: number, key: 'oldNumber' | 'newNumber'): number {
+  for (let i = index - 1; i >= 0; i--) {
+    const value = lines[i][key];
+    if (value !== undefined) return value;
+  }
+  return 0;
+}
+
+// Rebuilds the file from a diff, taking the new side of accepted hunks and the old side of rejected ones.
+export function applyHunkSelection(lines: DiffLine[], hunks: DiffHunk[], rejected: Set<number>): string {
+  const out: string[] = [];
+  let h = 0;
+
+  lines.forEach((line, index) => {
+    while (h < hunks.length && hunks[h].endIndex <= index) h++;
+    const hunk = hunks[h] && hunks[h].startIndex <= index ? hunks[h] : undefined;
+    const isRejected = hunk ? rejected.has(hunk.id) : false;
+
+    if (line.type === 'context') out.push(line.text);
+    else if (line.type === 'added' && !isRejected) out.push(line.text);
+    else if (line.type === 'removed' && isRejected) out.push(line.text);
+  });
+  return out.join('\n');
+}
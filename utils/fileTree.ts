@@ -0,0 +1,23 @@
+
+import { FileNode } from '../types';
+
+// Returns a copy of the tree with the node at `path` replaced by fn(node).
+export function updateNode(tree: FileNode[], path: string, fn: (node: FileNode) => FileNode): FileNode[] {
+  return tree.map(node => {
+    if (node.path === path) return fn(node);
+    if (node.children && path.startsWith(`${node.path}/`)) {
+      return { ...node, children: updateNode(node.children, path, fn) };
+    }
+    return node;
+  });
+}
+
+export function collectOpenPaths(tree: FileNode[], out: Set<string> = new Set()): Set<string> {
+  for (const node of tree) {
+    if (node.kind === 'directory' && node.isOpen && node.path) {
+      out.add(node.path);
+      if (node.children) collectOpenPaths(node.children, out);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,66 @@
+
+export interface FuzzyMatch {
+  path: string;
+  score: number;
+  // Indices into path of the matched query characters, for highlighting
+  positions: number[];
+}
+
+const SEPARATORS = '/\\._-';
+
+function isSubsequence(query: string, queryFrom: number, text: string, textFrom: number): boolean {
+  let t = textFrom;
+  for (let k = queryFrom; k < query.length; k++) {
+    t = text.indexOf(query[k], t) + 1;
+    if (t === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Matches query characters in order anywhere in the path, like editor quick-open. Matches at
+ * word starts, consecutive runs and inside the file name score higher; shorter paths win ties.
+ */
+export function fuzzyMatch(query: string, path: string): FuzzyMatch | null {
+  const q = query.replace(/\s+/g, '').toLowerCase();
+  if (!q) return { path, score: 0, positions: [] };
+
+  const lower = path.toLowerCase();
+  const nameStart = path.lastIndexOf('/') + 1;
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (let k = 0; k < q.length; k++) {
+    const ch = q[k];
+    let index = lower.indexOf(ch, from);
+    if (index === -1) return null;
+    // Prefer a later word-start occurrence of ch, as long as the rest of the query still fits after it.
+    for (let i = index; i !== -1; i = lower.indexOf(ch, i + 1)) {
+      const isWordStart = i === 0 || SEPARATORS.includes(path[i - 1]) || (path[i] !== lower[i] && path[i - 1] === lower[i - 1]);
+      if (isWordStart && isSubsequence(q, k + 1, lower, i + 1)) {
+        index = i;
+        break;
+      }
+    }
+
+    const previous = positions[positions.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (index === 0 || SEPARATORS.includes(path[index - 1])) score += 4;
+    if (index >= nameStart) score += 2;
+    positions.push(index);
+    from = index + 1;
+  }
+
+  return { path, score: score - path.length * 0.01, positions };
+}
+
+export function fuzzySearch(query: string, paths: string[], limit = 50): FuzzyMatch[] {
+  const matches: FuzzyMatch[] = [];
+  for (const path of paths) {
+    const match = fuzzyMatch(query, path);
+    if (match) matches.push(match);
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,69 @@
+
+import { describe, expect, it } from 'vitest';
+import { createIgnoreMatcher, matchesPathOrParent } from './ignore';
+
+describe('createIgnoreMatcher', () => {
+  it('matches unanchored names at any depth', () => {
+    const ignored = createIgnoreMatcher(['*.log', 'node_modules']);
+    expect(ignored('debug.log', false)).toBe(true);
+    expect(ignored('logs/app/debug.log', false)).toBe(true);
+    expect(ignored('packages/a/node_modules', true)).toBe(true);
+    expect(ignored('debug.log.txt', false)).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to the root', () => {
+    const ignored = createIgnoreMatcher(['/build', 'docs/*.md']);
+    expect(ignored('build', true)).toBe(true);
+    expect(ignored('src/build', true)).toBe(false);
+    expect(ignored('docs/intro.md', false)).toBe(true);
+    expect(ignored('docs/guide/intro.md', false)).toBe(false);
+  });
+
+  it('applies trailing-slash patterns to directories only', () => {
+    const ignored = createIgnoreMatcher(['dist/']);
+    expect(ignored('dist', true)).toBe(true);
+    expect(ignored('dist', false)).toBe(false);
+  });
+
+  it('supports ** across directories', () => {
+    const ignored = createIgnoreMatcher(['src/**/generated', 'out/**']);
+    expect(ignored('src/generated', true)).toBe(true);
+    expect(ignored('src/a/b/generated', true)).toBe(true);
+    expect(ignored('out/x/y.js', false)).toBe(true);
+  });
+
+  it('lets the last matching pattern win, so negation re-includes', () => {
+    const ignored = createIgnoreMatcher(['*.env', '!example.env']);
+    expect(ignored('prod.env', false)).toBe(true);
+    expect(ignored('example.env', false)).toBe(false);
+    expect(createIgnoreMatcher(['!a.txt', '*.txt'])('a.txt', false)).toBe(true);
+  });
+
+  it('handles ?, character classes and escapes', () => {
+    const ignored = createIgnoreMatcher(['file?.txt', 'v[0-9].js', 'x[!a].md', '\\#notes']);
+    expect(ignored('file1.txt', false)).toBe(true);
+    expect(ignored('file10.txt', false)).toBe(false);
+    expect(ignored('v3.js', false)).toBe(true);
+    expect(ignored('xb.md', false)).toBe(true);
+    expect(ignored('xa.md', false)).toBe(false);
+    expect(ignored('#notes', false)).toBe(true);
+  });
+
+  it('skips comments and blank lines and accepts multi-line input', () => {
+    const ignored = createIgnoreMatcher(['# comment\n\ntmp  \n']);
+    expect(ignored('tmp', false)).toBe(true);
+    expect(ignored('# comment', false)).toBe(false);
+  });
+
+  it('normalizes ./ prefixes and trailing slashes', () => {
+    expect(createIgnoreMatcher(['cache'])('./cache/', true)).toBe(true);
+  });
+});
+
+describe('matchesPathOrParent', () => {
+  it('ignores files under an ignored directory', () => {
+    const matcher = createIgnoreMatcher(['node_modules/']);
+    expect(matchesPathOrParent(matcher, 'node_modules/react/index.js')).toBe(true);
+    expect(matchesPathOrParent(matcher, 'src/index.js')).toBe(false);
+  });
+});
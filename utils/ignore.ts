@@ -0,0 +1,95 @@
+
+export type IgnoreMatcher = (path: string, isDirectory: boolean) => boolean;
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches everything below.
+        if (glob[i + 2] === '/') {
+          out += '(?:.*/)?';
+          i += 2;
+        } else {
+          out += '.*';
+          i += 1;
+        }
+      } else {
+        out += '[^/]*';
+      }
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        out += '\\[';
+      } else {
+        out += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      out += `\\${glob[++i]}`;
+    } else {
+      out += ch.replace(/[.+^${}()|\]]/g, '\\$&');
+    }
+  }
+  return out;
+}
+
+function parseRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.slice(0, -1);
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the workspace root.
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+  const body = globToRegex(pattern);
+  return {
+    regex: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`),
+    negate,
+    dirOnly
+  };
+}
+
+/**
+ * Builds a matcher for .gitignore-style patterns. Paths are workspace-relative with
+ * forward slashes. As in git, the last matching pattern wins, so `!pattern` re-includes.
+ * Callers check each directory while walking, so children of an ignored directory are
+ * never visited and don't need to match themselves.
+ */
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+  const rules = patterns.flatMap(p => p.split('\n')).map(parseRule).filter((r): r is IgnoreRule => r !== null);
+
+  return (path: string, isDirectory: boolean) => {
+    const normalized = path.replace(/^\.\//, '').replace(/\/$/, '');
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.regex.test(normalized)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+}
+
+// Checks a path and every directory above it, for callers that aren't walking the tree.
+// As in a .gitignore, a pattern naming a directory ("src" or "src/") covers every file below it.
+export function matchesPathOrParent(matcher: IgnoreMatcher, path: string): boolean {
+  const parts = path.split('/');
+  for (let i = 1; i < parts.length; i++) {
+    if (matcher(parts.slice(0, i).join('/'), true)) return true;
+  }
+  return matcher(path, false);
+}
@@ -0,0 +1,47 @@
+
+import { describe, expect, it } from 'vitest';
+import { applyReplacement, CURSOR, extractReplacement, markSelection, SELECTION_END, SELECTION_START } from './inlineEdit';
+
+describe('markSelection', () => {
+  it('marks the selection, or the cursor when nothing is selected', () => {
+    expect(markSelection('const a = 1;\n', 6, 7)).toBe(`const ${SELECTION_START}a${SELECTION_END} = 1;\n`);
+    expect(markSelection('ab', 1, 1)).toBe(`a${CURSOR}b`);
+  });
+
+  it('keeps the text around the selection of a large file', () => {
+    const content = `${'a'.repeat(30000)}target${'b'.repeat(30000)}`;
+    const marked = markSelection(content, 30000, 30006);
+    expect(marked.startsWith('[... earlier lines omitted]\n')).toBe(true);
+    expect(marked.endsWith('\n[... later lines omitted]')).toBe(true);
+    expect(marked).toContain(`${SELECTION_START}target${SELECTION_END}`);
+    expect(marked.length).toBeLessThan(40100);
+  });
+});
+
+describe('extractReplacement', () => {
+  it('takes the fenced block, including fences nested in it', () => {
+    expect(extractReplacement('Here:\n```ts\nconst b = 2;\n```\nDone.', 'const a = 1;')).toBe('const b = 2;');
+    expect(extractReplacement('```md\nUse:\n```js\nx()\n```\n```', 'old')).toBe('Use:\n```js\nx()\n```');
+  });
+
+  it('falls back to the whole reply and strips stray markers', () => {
+    expect(extractReplacement(`  ${SELECTION_START}b = 2${SELECTION_END}  `, 'a = 1')).toBe('b = 2');
+    expect(extractReplacement(`insert${CURSOR}`, '')).toBe('insert');
+  });
+
+  it("keeps the selection's trailing newline as it was", () => {
+    expect(extractReplacement('```\nb\n```', 'a\n')).toBe('b\n');
+    expect(extractReplacement('b\n', 'a')).toBe('b');
+  });
+});
+
+describe('applyReplacement', () => {
+  it('replaces the range, or inserts at the cursor', () => {
+    expect(applyReplacement('const a = 1;', 6, 7, 'a', 'total')).toBe('const total = 1;');
+    expect(applyReplacement('ab', 1, 1, '', 'X')).toBe('aXb');
+  });
+
+  it('refuses when the text in the range changed', () => {
+    expect(applyReplacement('const b = 1;', 6, 7, 'a', 'total')).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+
+// Around the selection, in characters; the rest of a large file is cut
+const MAX_CONTEXT_CHARS = 40000;
+
+export const SELECTION_START = '<<<SELECTION>>>';
+export const SELECTION_END = '<<</SELECTION>>>';
+export const CURSOR = '<<<CURSOR>>>';
+
+/**
+ * The file with the selection marked, or the cursor when nothing is selected. Files too
+ * large for one request keep the text nearest the selection.
+ */
+export function markSelection(content: string, start: number, end: number): string {
+  const marked = start === end
+    ? `${content.slice(0, start)}${CURSOR}${content.slice(end)}`
+    : `${content.slice(0, start)}${SELECTION_START}${content.slice(start, end)}${SELECTION_END}${content.slice(end)}`;
+  if (marked.length <= MAX_CONTEXT_CHARS) return marked;
+
+  const selected = marked.length - content.length + (end - start);
+  const margin = Math.max(0, Math.floor((MAX_CONTEXT_CHARS - selected) / 2));
+  const from = Math.max(0, start - margin);
+  const to = Math.min(marked.length, start + selected + margin);
+  return `${from > 0 ? '[... earlier lines omitted]\n' : ''}${marked.slice(from, to)}${to < marked.length ? '\n[... later lines omitted]' : ''}`;
+}
+
+export function inlineEditPrompt(path: string, content: string, start: number, end: number, instruction: string): string {
+  const target = start === end
+    ? `Write code to insert at ${CURSOR}.`
+    : `Rewrite the text between ${SELECTION_START} and ${SELECTION_END}.`;
+  return `File ${path}:
+\`\`\`
+${markSelection(content, start, end)}
+\`\`\`
+
+${target}
+Instruction: ${instruction}`;
+}
+
+/**
+ * Takes the fenced block of the reply, or the whole reply when there is none. The
+ * selection's trailing newline is kept as it was, since models tend to drop or add one.
+ */
+export function extractReplacement(reply: string, original: string): string {
+  // Greedy, so fences inside the code (e.g. in Markdown) don't end the block early
+  const fenced = /```[\w+-]*[ \t]*\n([\s\S]*)```/.exec(reply);
+  const body = (fenced ? fenced[1] : reply.trim())
+    .split(SELECTION_START).join('')
+    .split(SELECTION_END).join('')
+    .split(CURSOR).join('');
+  return body.replace(/\n$/, '') + (original.endsWith('\n') ? '\n' : '');
+}
+
+// The content with the range replaced, or null when the text there is no longer what was sent.
+export function applyReplacement(content: string, start: number, end: number, original: string, replacement: string): string | null {
+  if (content.slice(start, end) !== original) return null;
+  return content.slice(0, start) + replacement + content.slice(end);
+}
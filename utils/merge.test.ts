@@ -0,0 +1,53 @@
+
+import { describe, expect, it } from 'vitest';
+import { merge3 } from './merge';
+
+const base = ['one', 'two', 'three', 'four', 'five', 'six', 'seven'].join('\n');
+const edit = (replacements: Record<number, string | null>, extra: string[] = []) =>
+  base.split('\n').flatMap((line, i) => (i in replacements ? (replacements[i] === null ? [] : [replacements[i]!]) : [line])).concat(extra).join('\n');
+
+describe('merge3', () => {
+  it('returns the base when neither side changed', () => {
+    expect(merge3(base, base, base)).toEqual({ content: base, conflicts: 0 });
+  });
+
+  it('takes the side that changed', () => {
+    const ours = edit({ 1: 'TWO' });
+    expect(merge3(base, ours, base)).toEqual({ content: ours, conflicts: 0 });
+    expect(merge3(base, base, ours)).toEqual({ content: ours, conflicts: 0 });
+  });
+
+  it('combines edits to different regions', () => {
+    const result = merge3(base, edit({ 0: 'ONE' }), edit({ 5: null }, ['eight']));
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(['ONE', 'two', 'three', 'four', 'five', 'seven', 'eight'].join('\n'));
+  });
+
+  it('keeps line positions right when one side adds lines before the other side edits', () => {
+    const ours = ['zero', base].join('\n');
+    const result = merge3(base, ours, edit({ 4: 'FIVE' }));
+    expect(result.content).toBe(['zero', 'one', 'two', 'three', 'four', 'FIVE', 'six', 'seven'].join('\n'));
+  });
+
+  it('takes an identical change on both sides once', () => {
+    const both = edit({ 2: 'THREE' });
+    expect(merge3(base, both, both)).toEqual({ content: both, conflicts: 0 });
+  });
+
+  it('marks different changes to the same lines as a conflict', () => {
+    const result = merge3(base, edit({ 2: 'ours' }), edit({ 2: 'theirs' }), { ours: 'AI change', theirs: 'on disk' });
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(['one', 'two', '<<<<<<< AI change', 'ours', '=======', 'theirs', '>>>>>>> on disk', 'four', 'five', 'six', 'seven'].join('\n'));
+  });
+
+  it('treats edits to adjacent lines as one conflicting region', () => {
+    const result = merge3(base, edit({ 2: 'A' }), edit({ 3: 'B' }));
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain('<<<<<<< ours\nA\nfour\n=======\nthree\nB\n>>>>>>> theirs');
+  });
+
+  it('merges into an empty base', () => {
+    expect(merge3('', 'a', '')).toEqual({ content: 'a', conflicts: 0 });
+    expect(merge3('', 'a', 'b').conflicts).toBe(1);
+  });
+});
@@ -0,0 +1,111 @@
+
+import { diffLines, splitLines } from './diff';
+
+interface Edit {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+// Collapses a line diff into contiguous edit regions, in base and side coordinates.
+function editsBetween(base: string, side: string): Edit[] {
+  const edits: Edit[] = [];
+  let baseIndex = 0;
+  let sideIndex = 0;
+  let current: Edit | null = null;
+
+  for (const line of diffLines(base, side)) {
+    if (line.type === 'context') {
+      if (current) edits.push(current);
+      current = null;
+      baseIndex++;
+      sideIndex++;
+      continue;
+    }
+    if (!current) current = { baseStart: baseIndex, baseEnd: baseIndex, sideStart: sideIndex, sideEnd: sideIndex };
+    if (line.type === 'removed') current.baseEnd = ++baseIndex;
+    else current.sideEnd = ++sideIndex;
+  }
+  if (current) edits.push(current);
+  return edits;
+}
+
+/**
+ * Converts a region boundary in the base to the side's line index. Every edit lies wholly
+ * inside one region, so edits starting before a region's start precede it, and edits
+ * starting at or before its end are inside or before it.
+ */
+function toSideIndex(edits: Edit[], baseIndex: number, includeStartingAt: boolean): number {
+  let delta = 0;
+  for (const edit of edits) {
+    if (edit.baseStart > baseIndex || (edit.baseStart === baseIndex && !includeStartingAt)) break;
+    delta += (edit.sideEnd - edit.sideStart) - (edit.baseEnd - edit.baseStart);
+  }
+  return baseIndex + delta;
+}
+
+/**
+ * Line-based three-way merge. Regions changed on only one side take that side; regions
+ * changed identically on both sides are taken once; anything else becomes a conflict
+ * block with git-style markers.
+ */
+export function merge3(base: string, ours: string, theirs: string, labels: MergeLabels = { ours: 'ours', theirs: 'theirs' }): MergeResult {
+  const baseLines = splitLines(base);
+  const oursLines = splitLines(ours);
+  const theirsLines = splitLines(theirs);
+  const oursEdits = editsBetween(base, ours);
+  const theirsEdits = editsBetween(base, theirs);
+
+  // Union overlapping or touching edits from both sides into regions of the base.
+  const all = [
+    ...oursEdits.map(e => ({ ...e, side: 'ours' as const })),
+    ...theirsEdits.map(e => ({ ...e, side: 'theirs' as const }))
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+  const regions: { start: number; end: number; sides: Set<'ours' | 'theirs'> }[] = [];
+  for (const edit of all) {
+    const last = regions[regions.length - 1];
+    if (last && edit.baseStart <= last.end) {
+      last.end = Math.max(last.end, edit.baseEnd);
+      last.sides.add(edit.side);
+    } else {
+      regions.push({ start: edit.baseStart, end: edit.baseEnd, sides: new Set([edit.side]) });
+    }
+  }
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  const sideRange = (lines: string[], edits: Edit[], start: number, end: number) =>
+    lines.slice(toSideIndex(edits, start, false), toSideIndex(edits, end, true));
+
+  for (const region of regions) {
+    out.push(...baseLines.slice(cursor, region.start));
+    const oursText = sideRange(oursLines, oursEdits, region.start, region.end);
+    const theirsText = sideRange(theirsLines, theirsEdits, region.start, region.end);
+
+    if (!region.sides.has('theirs')) {
+      out.push(...oursText);
+    } else if (!region.sides.has('ours')) {
+      out.push(...theirsText);
+    } else if (oursText.join('\n') === theirsText.join('\n')) {
+      out.push(...oursText);
+    } else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.ours}`, ...oursText, '=======', ...theirsText, `>>>>>>> ${labels.theirs}`);
+    }
+    cursor = region.end;
+  }
+  out.push(...baseLines.slice(cursor));
+  return { content: out.join('\n'), conflicts };
+}
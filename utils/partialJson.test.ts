@@ -0,0 +1,49 @@
+
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON and reports it complete', () => {
+    const { value, isComplete } = parsePartialJson('{"a": [1, "x\\ny", true, null], "b": {"c": -2.5e1}}');
+    expect(value).toEqual({ a: [1, 'x\ny', true, null], b: { c: -25 } });
+    expect(isComplete(value)).toBe(true);
+    expect(isComplete(value.a)).toBe(true);
+  });
+
+  it('keeps the text of an open string', () => {
+    const { value, isComplete } = parsePartialJson('{"message": "Hello, wor');
+    expect(value).toEqual({ message: 'Hello, wor' });
+    expect(isComplete(value)).toBe(false);
+  });
+
+  it('drops dangling keys and literals that may still be growing', () => {
+    expect(parsePartialJson('{"a": "x", "b').value).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x", "b":').value).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x", "n": 12').value).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x", "t": tr').value).toEqual({ a: 'x' });
+  });
+
+  it('marks only the still-open objects as incomplete', () => {
+    const { value, isComplete } = parsePartialJson('{"changes": [{"path": "a.ts", "content": ""}, {"path": "b.ts", "cont');
+    expect(value.changes).toHaveLength(2);
+    expect(isComplete(value.changes[0])).toBe(true);
+    expect(isComplete(value.changes[1])).toBe(false);
+    expect(isComplete(value.changes)).toBe(false);
+    expect(isComplete(value)).toBe(false);
+  });
+
+  it('stops at an escape cut in half', () => {
+    expect(parsePartialJson('{"a": "x\\').value).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x\\u00').value).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "\\u00e9"}').value).toEqual({ a: 'é' });
+  });
+
+  it('returns no value for empty text', () => {
+    expect(parsePartialJson('  ').value).toBeUndefined();
+  });
+
+  it('throws on text that is not JSON', () => {
+    expect(() => parsePartialJson('{"a": oops}')).toThrow(SyntaxError);
+    expect(() => parsePartialJson('{a: 1}')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,133 @@
+
+/**
+ * Tolerant JSON parser for streamed model output. Parsing stops cleanly at the end of
+ * the text: open strings keep what arrived, dangling keys and partial literals are
+ * dropped, and every object or array that was still open is reported as incomplete.
+ */
+export interface PartialParse {
+  value: any;
+  isComplete: (node: object) => boolean;
+}
+
+class EndOfInput extends Error {}
+
+export function parsePartialJson(text: string): PartialParse {
+  const incomplete = new WeakSet<object>();
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): { value: string; closed: boolean } => {
+    pos++; // opening quote
+    let out = '';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        return { value: out, closed: true };
+      }
+      if (ch === '\\') {
+        const next = text[pos + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (hex.length < 4) break;
+          out += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        out += escapes[next] ?? next;
+        pos += 2;
+        continue;
+      }
+      out += ch;
+      pos++;
+    }
+    pos = text.length;
+    return { value: out, closed: false };
+  };
+
+  const parseValue = (): any => {
+    skipWhitespace();
+    if (pos >= text.length) throw new EndOfInput();
+    const ch = text[pos];
+
+    if (ch === '"') return parseString().value;
+
+    if (ch === '{') {
+      pos++;
+      const obj: Record<string, any> = {};
+      incomplete.add(obj);
+      while (true) {
+        skipWhitespace();
+        if (pos >= text.length) return obj;
+        if (text[pos] === '}') {
+          pos++;
+          incomplete.delete(obj);
+          return obj;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== '"') throw new SyntaxError(`Unexpected '${text[pos]}' at ${pos}`);
+        const key = parseString();
+        if (!key.closed) return obj;
+        skipWhitespace();
+        if (text[pos] !== ':') return obj;
+        pos++;
+        try {
+          obj[key.value] = parseValue();
+        } catch (e) {
+          if (e instanceof EndOfInput) return obj;
+          throw e;
+        }
+      }
+    }
+
+    if (ch === '[') {
+      pos++;
+      const arr: any[] = [];
+      incomplete.add(arr);
+      while (true) {
+        skipWhitespace();
+        if (pos >= text.length) return arr;
+        if (text[pos] === ']') {
+          pos++;
+          incomplete.delete(arr);
+          return arr;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        try {
+          arr.push(parseValue());
+        } catch (e) {
+          if (e instanceof EndOfInput) return arr;
+          throw e;
+        }
+      }
+    }
+
+    const literal = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(pos));
+    // A literal touching the end of the text may still be growing, so it is not trusted.
+    if (!literal || pos + literal[0].length >= text.length) {
+      if (literal || /^[-\dtfn]/.test(text.slice(pos))) throw new EndOfInput();
+      throw new SyntaxError(`Unexpected '${ch}' at ${pos}`);
+    }
+    pos += literal[0].length;
+    return JSON.parse(literal[0]);
+  };
+
+  let value: any;
+  try {
+    value = parseValue();
+  } catch (e) {
+    if (!(e instanceof EndOfInput)) throw e;
+  }
+  return { value, isComplete: (node: object) => !incomplete.has(node) };
+}
@@ -0,0 +1,85 @@
+
+import { describe, expect, it } from 'vitest';
+import { applyPatch, describeFailures } from './patch';
+
+const file = `function greet(name) {
+  const message = 'Hello, ' + name;
+  console.log(message);
+}
+
+greet('world');
+`;
+
+describe('applyPatch', () => {
+  it('replaces exact search text', () => {
+    const result = applyPatch(file, [{ search: "'Hello, '", replace: "'Hi, '" }]);
+    expect(result.content).toBe(file.replace("'Hello, '", "'Hi, '"));
+    expect(result).toMatchObject({ applied: 1, failures: [] });
+  });
+
+  it('matches search text with different indentation and reindents the replacement', () => {
+    const result = applyPatch(file, [{
+      search: "const message = 'Hello, ' + name;\nconsole.log(message);",
+      replace: "const message = `Hello, ${name}`;\nif (name) {\n  console.log(message);\n}"
+    }]);
+    expect(result.failures).toEqual([]);
+    expect(result.content).toBe(`function greet(name) {
+  const message = \`Hello, \${name}\`;
+  if (name) {
+    console.log(message);
+  }
+}
+
+greet('world');
+`);
+  });
+
+  it('maps a different indent unit onto the file', () => {
+    const tabbed = 'if (a) {\n\tif (b) {\n\t\tgo();\n\t}\n}';
+    const result = applyPatch(tabbed, [{ search: '  if (b) {\n    go();\n  }', replace: '  if (b) {\n    go();\n    stop();\n  }' }]);
+    expect(result.content).toBe('if (a) {\n\tif (b) {\n\t\tgo();\n\t\tstop();\n\t}\n}');
+  });
+
+  it('replaces line ranges counted in the original file', () => {
+    const result = applyPatch('a\nb\nc\nd', [
+      { startLine: 1, endLine: 1, replace: 'A\nA2' },
+      { startLine: 3, endLine: 4, replace: 'C' }
+    ]);
+    expect(result.content).toBe('A\nA2\nb\nC');
+  });
+
+  it('inserts before a line when endLine is one less than startLine', () => {
+    expect(applyPatch('a\nb', [{ startLine: 2, endLine: 1, replace: 'x' }]).content).toBe('a\nx\nb');
+    expect(applyPatch('a\nb', [{ startLine: 3, endLine: 2, replace: '\nc' }]).content).toBe('a\nb\nc');
+  });
+
+  it('deletes lines with an empty replacement', () => {
+    expect(applyPatch('a\nb\nc', [{ startLine: 2, endLine: 2, replace: '' }]).content).toBe('a\nc');
+  });
+
+  it('applies repeated search text in order', () => {
+    const result = applyPatch('x\nx\nx', [{ search: 'x', replace: '1' }, { search: 'x', replace: '2' }]);
+    expect(result.content).toBe('1\n2\nx');
+  });
+
+  it('reports hunks it cannot place and applies the rest', () => {
+    const result = applyPatch('a\nb\nc', [
+      { search: 'missing', replace: 'z' },
+      { startLine: 2, endLine: 2, replace: 'B' },
+      { search: 'b\nc', replace: 'overlap' },
+      { startLine: 9, endLine: 9, replace: 'far' },
+      { replace: 'nowhere' }
+    ]);
+    expect(result.content).toBe('a\nB\nc');
+    expect(result.applied).toBe(1);
+    expect(result.failures.map(f => f.index)).toEqual([0, 2, 3, 4]);
+    expect(result.failures[1].reason).toBe('overlaps hunk 2');
+    expect(result.failures[2].reason).toContain('outside the file (3 lines)');
+  });
+});
+
+describe('describeFailures', () => {
+  it('numbers hunks from one', () => {
+    expect(describeFailures('a.ts', [{ index: 0, reason: 'nope' }])).toBe('Patch for a.ts failed: hunk 1: nope');
+  });
+});
@@ -0,0 +1,140 @@
+
+import { PatchHunk } from '../types';
+
+export interface PatchFailure {
+  index: number;
+  reason: string;
+}
+
+export interface PatchResult {
+  content: string;
+  applied: number;
+  failures: PatchFailure[];
+}
+
+type Located = { start: number; end: number; replacement: string };
+
+const normalize = (line: string) => line.trim().replace(/\s+/g, ' ');
+const leadingWhitespace = (line: string) => /^\s*/.exec(line)![0];
+
+function stripOuterNewlines(text: string): string {
+  return text.replace(/^\n/, '').replace(/\n$/, '');
+}
+
+function snippet(text: string): string {
+  const line = text.split('\n').find(l => l.trim()) ?? '';
+  return line.trim().length > 60 ? `${line.trim().slice(0, 57)}...` : line.trim();
+}
+
+/**
+ * Maps each indentation used in the search text to the one found in the file, then
+ * rewrites the replacement with it. Handles both shifted blocks and different indent units.
+ */
+function reindent(replacement: string, searchLines: string[], fileLines: string[]): string {
+  const levels = new Map<string, string>();
+  searchLines.forEach((line, j) => {
+    if (line.trim() && !levels.has(leadingWhitespace(line))) levels.set(leadingWhitespace(line), leadingWhitespace(fileLines[j]));
+  });
+  if ([...levels].every(([from, to]) => from === to)) return replacement;
+
+  const keys = [...levels.keys()].sort((a, b) => b.length - a.length);
+  return replacement.split('\n').map(line => {
+    if (!line.trim()) return line;
+    const indent = leadingWhitespace(line);
+    const key = keys.find(k => indent.startsWith(k));
+    return key === undefined ? line : levels.get(key)! + line.slice(key.length);
+  }).join('\n');
+}
+
+function locateSearch(original: string, lines: string[], offsets: number[], hunk: PatchHunk, cursor: number): Located | string {
+  const search = hunk.search!;
+  let start = original.indexOf(search, cursor);
+  if (start === -1) start = original.indexOf(search);
+  if (start !== -1) return { start, end: start + search.length, replacement: hunk.replace };
+
+  // Fall back to a line-by-line match that ignores indentation and runs of whitespace.
+  const searchLines = stripOuterNewlines(search).split('\n');
+  const wanted = searchLines.map(normalize);
+  const cursorLine = offsets.findIndex(o => o >= cursor);
+  const matches: number[] = [];
+  for (let i = 0; i + wanted.length <= lines.length; i++) {
+    if (wanted.every((w, j) => normalize(lines[i + j]) === w)) matches.push(i);
+  }
+  if (matches.length === 0) {
+    return `search text not found, even ignoring whitespace: "${snippet(search)}"`;
+  }
+
+  const line = matches.find(m => cursorLine === -1 || m >= cursorLine) ?? matches[0];
+  const last = line + wanted.length - 1;
+  return {
+    start: offsets[line],
+    end: offsets[last] + lines[last].length,
+    replacement: reindent(stripOuterNewlines(hunk.replace), searchLines, lines.slice(line, last + 1))
+  };
+}
+
+function locateLines(original: string, lines: string[], offsets: number[], hunk: PatchHunk): Located | string {
+  const startLine = hunk.startLine!;
+  const endLine = hunk.endLine ?? startLine;
+  // endLine === startLine - 1 inserts before startLine without removing anything.
+  if (startLine < 1 || startLine > lines.length + 1 || endLine < startLine - 1 || endLine > lines.length) {
+    return `line range ${startLine}-${endLine} is outside the file (${lines.length} lines)`;
+  }
+
+  const start = startLine <= lines.length ? offsets[startLine - 1] : original.length;
+  const consumesNewline = endLine < lines.length;
+  const end = consumesNewline ? offsets[endLine] : original.length;
+  let replacement = hunk.replace;
+  if (consumesNewline && replacement !== '' && !replacement.endsWith('\n')) replacement += '\n';
+  return { start, end, replacement };
+}
+
+/**
+ * Applies search/replace and line-range hunks to a file. Every hunk is located against
+ * the original text (line numbers refer to the original), so hunks don't shift each
+ * other. Hunks that can't be located or that overlap an earlier hunk are reported and
+ * skipped; the rest are applied.
+ */
+export function applyPatch(original: string, hunks: PatchHunk[]): PatchResult {
+  const lines = original.split('\n');
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const located: (Located & { index: number })[] = [];
+  const failures: PatchFailure[] = [];
+  let cursor = 0;
+
+  hunks.forEach((hunk, index) => {
+    const result = typeof hunk.search === 'string' && hunk.search !== ''
+      ? locateSearch(original, lines, offsets, hunk, cursor)
+      : typeof hunk.startLine === 'number'
+        ? locateLines(original, lines, offsets, hunk)
+        : 'hunk has neither search text nor a line range';
+
+    if (typeof result === 'string') {
+      failures.push({ index, reason: result });
+      return;
+    }
+    const overlapping = located.find(l => result.start < l.end && l.start < result.end);
+    if (overlapping) {
+      failures.push({ index, reason: `overlaps hunk ${overlapping.index + 1}` });
+      return;
+    }
+    located.push({ ...result, index });
+    cursor = result.end;
+  });
+
+  let content = original;
+  for (const l of [...located].sort((a, b) => b.start - a.start)) {
+    content = content.slice(0, l.start) + l.replacement + content.slice(l.end);
+  }
+  return { content, applied: located.length, failures };
+}
+
+export function describeFailures(path: string, failures: PatchFailure[]): string {
+  return `Patch for ${path} failed: ${failures.map(f => `hunk ${f.index + 1}: ${f.reason}`).join('; ')}`;
+}
@@ -0,0 +1,71 @@
+
+import { describe, expect, it } from 'vitest';
+import { createPlan, isSettled, nextStep, planStepPrompt, proposedStep, updateStep } from './plan';
+
+const plan = () => createPlan('Add a login page', [
+  { title: 'Add the route', description: 'Register /login.', files: ['routes.ts'] },
+  { title: 'Build the form', description: '', files: [] },
+  { title: 'Write tests', description: '', files: ['login.test.ts'] }
+]);
+
+describe('plan steps', () => {
+  it('starts as a draft with pending steps and unique ids', () => {
+    const created = plan();
+    expect(created.status).toBe('draft');
+    expect(created.steps.map(s => s.status)).toEqual(['pending', 'pending', 'pending']);
+    expect(new Set(created.steps.map(s => s.id)).size).toBe(3);
+  });
+
+  it('runs steps in order, waiting on a proposed step until it is committed', () => {
+    let current = plan();
+    const [route, form, tests] = current.steps;
+    expect(nextStep(current)?.id).toBe(route.id);
+
+    current = updateStep(current, route.id, { status: 'proposed', messageTimestamp: 1 });
+    expect(proposedStep(current)?.id).toBe(route.id);
+    expect(nextStep(current)?.id).toBe(form.id);
+
+    current = updateStep(current, route.id, { status: 'done' });
+    current = updateStep(current, form.id, { status: 'skipped' });
+    expect(proposedStep(current)).toBeUndefined();
+    expect(nextStep(current)?.id).toBe(tests.id);
+    expect(current.steps.filter(isSettled).map(s => s.title)).toEqual(['Add the route', 'Build the form']);
+
+    current = updateStep(current, tests.id, { status: 'done' });
+    expect(nextStep(current)).toBeUndefined();
+  });
+
+  it('starts a step left running over again', () => {
+    const current = plan();
+    const running = updateStep(current, current.steps[0].id, { status: 'running' });
+    expect(nextStep(running)?.id).toBe(current.steps[0].id);
+  });
+
+  it('updates steps without touching the original plan', () => {
+    const original = plan();
+    const updated = updateStep(original, original.steps[1].id, { title: 'Build the login form' });
+    expect(original.steps[1].title).toBe('Build the form');
+    expect(updated.steps[1]).toEqual({ ...original.steps[1], title: 'Build the login form' });
+  });
+});
+
+describe('planStepPrompt', () => {
+  it('outlines the plan and asks for the current step only', () => {
+    let current = plan();
+    current = updateStep(current, current.steps[0].id, { status: 'done' });
+    const step = current.steps[2];
+
+    expect(planStepPrompt(current, step)).toBe(`We are carrying out a plan, one step at a time, for this task:
+Add a login page
+
+Plan:
+1. Add the route (done)
+2. Build the form
+3. Write tests <- current
+
+Do step 3 only: Write tests
+Files it is expected to touch: login.test.ts
+
+Leave later steps for later. If this step turns out to need no changes, say so.`);
+  });
+});
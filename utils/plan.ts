@@ -0,0 +1,56 @@
+
+import { PlanStep, PlannedStep, TaskPlan } from '../types';
+
+export function createPlan(goal: string, steps: PlannedStep[]): TaskPlan {
+  return { goal, status: 'draft', steps: steps.map(step => newPlanStep(step)) };
+}
+
+export function newPlanStep(step: PlannedStep = { title: '', description: '', files: [] }): PlanStep {
+  return { ...step, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, status: 'pending' };
+}
+
+export function updateStep(plan: TaskPlan, id: string, patch: Partial<PlanStep>): TaskPlan {
+  return { ...plan, steps: plan.steps.map(step => (step.id === id ? { ...step, ...patch } : step)) };
+}
+
+// Steps that no longer need work
+export function isSettled(step: PlanStep): boolean {
+  return step.status === 'done' || step.status === 'skipped';
+}
+
+// The step whose changes are waiting to be committed, which blocks the rest of the plan
+export function proposedStep(plan: TaskPlan): PlanStep | undefined {
+  return plan.steps.find(step => step.status === 'proposed');
+}
+
+// A step left running by a reload or a failed request starts over.
+export function nextStep(plan: TaskPlan): PlanStep | undefined {
+  return plan.steps.find(step => step.status === 'pending' || step.status === 'running');
+}
+
+const STATUS_NOTES: Record<PlanStep['status'], string> = {
+  pending: '',
+  running: '',
+  proposed: ' (proposed, not committed)',
+  done: ' (done)',
+  skipped: ' (skipped)'
+};
+
+/**
+ * The request for one step: the whole plan for orientation, then the step itself. Earlier
+ * steps are committed by now, so the model sees their results in the workspace context.
+ */
+export function planStepPrompt(plan: TaskPlan, step: PlanStep): string {
+  const index = plan.steps.indexOf(step);
+  const outline = plan.steps.map((s, i) => `${i + 1}. ${s.title}${s === step ? ' <- current' : STATUS_NOTES[s.status]}`);
+  return `We are carrying out a plan, one step at a time, for this task:
+${plan.goal}
+
+Plan:
+${outline.join('\n')}
+
+Do step ${index + 1} only: ${step.title}`
+    + (step.description ? `\n${step.description}` : '')
+    + (step.files.length > 0 ? `\nFiles it is expected to touch: ${step.files.join(', ')}` : '')
+    + `\n\nLeave later steps for later. If this step turns out to need no changes, say so.`;
+}
@@ -0,0 +1,139 @@
+
+import { describe, expect, it } from 'vitest';
+import { parseModelJson, stripFences, validateHunks, validateResponse } from './responseValidation';
+
+describe('stripFences', () => {
+  it('removes a json fence and prose before the object', () => {
+    expect(stripFences('Here you go:\n{"a": 1}')).toBe('{"a": 1}');
+    expect(stripFences('```json\n{"a": "```"}\n```')).toBe('{"a": "```"}');
+  });
+});
+
+describe('parseModelJson', () => {
+  it('parses clean JSON without repairs', () => {
+    expect(parseModelJson('{"message": "hi"}')).toEqual({ value: { message: 'hi' }, repairs: [], truncated: false });
+  });
+
+  it('repairs fences and trailing commas', () => {
+    const { value, repairs, truncated } = parseModelJson('```json\n{"message": "hi", "changes": [],}\n```');
+    expect(value).toEqual({ message: 'hi', changes: [] });
+    expect(truncated).toBe(false);
+    expect(repairs).toHaveLength(2);
+  });
+
+  it('keeps the complete changes of a cut-off response', () => {
+    const { value, truncated } = parseModelJson('{"message": "hi", "changes": [{"path": "a", "action": "delete", "content": ""}, {"path": "b", "con');
+    expect(truncated).toBe(true);
+    expect(value.changes).toEqual([{ path: 'a', action: 'delete', content: '' }]);
+  });
+
+  it('throws a SyntaxError for empty or unusable text', () => {
+    expect(() => parseModelJson('  ')).toThrow('The response was empty.');
+    expect(() => parseModelJson('{"a": @}')).toThrow(SyntaxError);
+    expect(() => parseModelJson('just prose')).toThrow(SyntaxError);
+  });
+});
+
+describe('validateHunks', () => {
+  it('accepts search and line-range hunks, defaulting endLine to startLine', () => {
+    const errors: string[] = [];
+    expect(validateHunks([{ search: 'a', replace: 'b' }, { startLine: 3, replace: '' }], 'x', errors))
+      .toEqual([{ search: 'a', replace: 'b' }, { startLine: 3, endLine: 3, replace: '' }]);
+    expect(errors).toEqual([]);
+  });
+
+  it('lists every bad hunk and returns null', () => {
+    const errors: string[] = [];
+    const hunks = [{ search: 'a' }, { replace: 'b' }, { startLine: 4, endLine: 2, replace: '' }, 'text', { search: 'ok', replace: '' }];
+    expect(validateHunks(hunks, 'a.ts', errors)).toBeNull();
+    expect(errors).toEqual([
+      'a.ts hunk 1: "replace" must be a string (use "" to delete text).',
+      'a.ts hunk 2: needs a non-empty "search" string or a 1-based "startLine".',
+      'a.ts hunk 3: "endLine" must be an integer no smaller than "startLine".',
+      'a.ts hunk 4: expected an object with "search" or "startLine", and "replace".'
+    ]);
+  });
+
+  it('rejects a missing or empty hunk list', () => {
+    const errors: string[] = [];
+    expect(validateHunks([], 'a.ts', errors)).toBeNull();
+    expect(validateHunks(undefined, 'a.ts', errors)).toBeNull();
+    expect(errors).toHaveLength(2);
+  });
+});
+
+describe('validateResponse', () => {
+  it('passes a valid response through unchanged', () => {
+    const value = { thinking: 't', message: 'm', changes: [{ path: 'a.ts', action: 'create', content: 'x' }] };
+    expect(validateResponse(value)).toEqual({ response: value, repairs: [], errors: [] });
+  });
+
+  it('repairs paths, action synonyms and stray fields', () => {
+    const { response, repairs, errors } = validateResponse({
+      message: 'm',
+      changes: [
+        { path: './src/a.ts', action: 'Modify', content: 'x' },
+        { path: 'b.ts', action: 'remove', content: 'old' },
+        { path: 'c.ts', hunks: [{ search: 'a', replace: 'b' }] },
+        { path: 'd.ts', action: 'patch', content: 'whole file' }
+      ]
+    });
+    expect(errors).toEqual([]);
+    expect(response.changes).toEqual([
+      { path: 'src/a.ts', action: 'update', content: 'x' },
+      { path: 'b.ts', action: 'delete', content: '' },
+      { path: 'c.ts', action: 'patch', content: '', hunks: [{ search: 'a', replace: 'b' }] },
+      { path: 'd.ts', action: 'update', content: 'whole file' }
+    ]);
+    expect(repairs).toHaveLength(6);
+  });
+
+  it('combines patches to the same file and keeps the later of other duplicates', () => {
+    const { response } = validateResponse({
+      message: 'm',
+      changes: [
+        { path: 'a.ts', action: 'patch', hunks: [{ search: '1', replace: '2' }] },
+        { path: 'a.ts', action: 'patch', hunks: [{ search: '3', replace: '4' }] },
+        { path: 'b.ts', action: 'create', content: 'first' },
+        { path: 'b.ts', action: 'update', content: 'second' }
+      ]
+    });
+    expect(response.changes).toEqual([
+      { path: 'a.ts', action: 'patch', content: '', hunks: [{ search: '1', replace: '2' }, { search: '3', replace: '4' }] },
+      { path: 'b.ts', action: 'update', content: 'second' }
+    ]);
+  });
+
+  it('reports unusable changes as errors, or drops them when lenient', () => {
+    const value = { message: 'm', changes: [{ path: 'a.ts', action: 'rename', content: '' }, { action: 'create', content: '' }] };
+    expect(validateResponse(value).errors).toHaveLength(2);
+
+    const lenient = validateResponse(value, true);
+    expect(lenient.errors).toEqual([]);
+    expect(lenient.repairs.filter(r => r.startsWith('Dropped'))).toHaveLength(2);
+  });
+
+  it('rejects responses that are not objects or have nothing in them', () => {
+    expect(validateResponse([]).errors[0]).toContain('got an array');
+    expect(validateResponse({}).errors).toEqual(['The response has neither a "message" nor a "changes" array.']);
+    expect(validateResponse({ message: 'm', changes: 'none' }).errors).toEqual(['"changes" must be an array, got string.']);
+  });
+
+  it('accepts a plan without changes and repairs loose steps', () => {
+    const { response, repairs, errors } = validateResponse({
+      message: 'm',
+      plan: ['Add the route', { title: ' Wire the UI ', description: 'd', files: 'a.tsx, b.ts' }]
+    });
+    expect(errors).toEqual([]);
+    expect(response.changes).toEqual([]);
+    expect(response.plan).toEqual([
+      { title: 'Add the route', description: '', files: [] },
+      { title: 'Wire the UI', description: 'd', files: ['a.tsx', 'b.ts'] }
+    ]);
+    expect(repairs).toHaveLength(2);
+  });
+
+  it('rejects plan steps without a title', () => {
+    expect(validateResponse({ message: 'm', plan: [{ description: 'd' }] }).errors).toHaveLength(1);
+  });
+});
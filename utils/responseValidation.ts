@@ -0,0 +1,253 @@
+
+import { AIResponse, FileChange, PatchHunk, PlannedStep } from '../types';
+import { parsePartialJson } from './partialJson';
+
+const ACTIONS: FileChange['action'][] = ['create', 'update', 'delete', 'patch'];
+
+// Spellings models use instead of the four real actions
+const ACTION_ALIASES: Record<string, FileChange['action']> = {
+  add: 'create', new: 'create', write: 'update', modify: 'update', edit: 'update', replace: 'update',
+  overwrite: 'update', remove: 'delete', rm: 'delete', diff: 'patch'
+};
+
+export interface ResponseValidation {
+  response: AIResponse;
+  // Problems that were fixed automatically, for display alongside the answer
+  repairs: string[];
+  // Problems that make the response unusable as it stands
+  errors: string[];
+}
+
+// Removes a ```json fence and any prose before the JSON object. File contents may contain fences
+// themselves, so only a fence at the very start or end counts; text after the object is left
+// for the parser, which stops once the object closes.
+export function stripFences(text: string): string {
+  const body = text.trim().replace(/^```[\w-]*[ \t]*\n/, '').replace(/\n?```$/, '');
+  const start = body.indexOf('{');
+  return start > 0 ? body.slice(start) : body;
+}
+
+/**
+ * Parses model output into a JSON value, repairing what it can: code fences and prose
+ * around the object, trailing commas and output cut off mid-object. Throws a SyntaxError
+ * describing the position when nothing sensible can be recovered.
+ */
+export function parseModelJson(text: string): { value: any; repairs: string[]; truncated: boolean } {
+  const repairs: string[] = [];
+  const body = stripFences(text);
+  if (body !== text.trim()) repairs.push('Removed text around the JSON object.');
+  if (!body) throw new SyntaxError('The response was empty.');
+
+  try {
+    return { value: JSON.parse(body), repairs, truncated: false };
+  } catch (e: any) {
+    let partial: ReturnType<typeof parsePartialJson>;
+    try {
+      partial = parsePartialJson(body);
+    } catch (partialError) {
+      throw new SyntaxError(`Not valid JSON: ${e.message}`);
+    }
+    const { value, isComplete } = partial;
+    if (!value || typeof value !== 'object') throw new SyntaxError(`Not valid JSON: ${e.message}`);
+    const truncated = !isComplete(value);
+    repairs.push(truncated
+      ? 'The JSON was cut off; closed it and kept the complete parts.'
+      : 'Fixed malformed JSON (trailing commas or text after the object).');
+    // Changes still open when the text ended can't be trusted
+    if (Array.isArray(value.changes)) {
+      value.changes = value.changes.filter((c: any) => !c || typeof c !== 'object' || isComplete(c));
+    }
+    return { value, repairs, truncated };
+  }
+}
+
+function describe(index: number, raw: any): string {
+  return typeof raw?.path === 'string' && raw.path.trim() ? `changes[${index}] (${raw.path.trim()})` : `changes[${index}]`;
+}
+
+// Also used for propose_change tool calls, which carry the same hunks
+export function validateHunks(hunks: any, where: string, errors: string[]): PatchHunk[] | null {
+  if (!Array.isArray(hunks) || hunks.length === 0) {
+    errors.push(`${where}: action "patch" needs a non-empty "hunks" array.`);
+    return null;
+  }
+  const valid: PatchHunk[] = [];
+  hunks.forEach((hunk: any, i: number) => {
+    const at = `${where} hunk ${i + 1}`;
+    if (!hunk || typeof hunk !== 'object') {
+      errors.push(`${at}: expected an object with "search" or "startLine", and "replace".`);
+    } else if (typeof hunk.replace !== 'string') {
+      errors.push(`${at}: "replace" must be a string (use "" to delete text).`);
+    } else if (typeof hunk.search === 'string' && hunk.search !== '') {
+      valid.push({ search: hunk.search, replace: hunk.replace });
+    } else if (Number.isInteger(hunk.startLine) && hunk.startLine >= 1) {
+      const endLine = hunk.endLine ?? hunk.startLine;
+      if (!Number.isInteger(endLine) || endLine < hunk.startLine) {
+        errors.push(`${at}: "endLine" must be an integer no smaller than "startLine".`);
+      } else {
+        valid.push({ startLine: hunk.startLine, endLine, replace: hunk.replace });
+      }
+    } else {
+      errors.push(`${at}: needs a non-empty "search" string or a 1-based "startLine".`);
+    }
+  });
+  return valid.length === hunks.length ? valid : null;
+}
+
+function validateChange(raw: any, index: number, repairs: string[], errors: string[]): FileChange | null {
+  const where = describe(index, raw);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${where}: expected an object with "path", "action" and "content".`);
+    return null;
+  }
+
+  if (typeof raw.path !== 'string' || !raw.path.trim()) {
+    errors.push(`${where}: "path" is missing or empty.`);
+    return null;
+  }
+  const path = raw.path.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (path !== raw.path) repairs.push(`${where}: normalized the path to ${path}.`);
+
+  let action: FileChange['action'] | undefined;
+  const rawAction = typeof raw.action === 'string' ? raw.action.trim().toLowerCase() : undefined;
+  if (rawAction && (ACTIONS as string[]).includes(rawAction)) {
+    action = rawAction as FileChange['action'];
+  } else if (rawAction && ACTION_ALIASES[rawAction]) {
+    action = ACTION_ALIASES[rawAction];
+    repairs.push(`${where}: treated action "${raw.action}" as "${action}".`);
+  } else if (raw.action === undefined && Array.isArray(raw.hunks) && raw.hunks.length > 0) {
+    action = 'patch';
+    repairs.push(`${where}: "action" was missing; it has hunks, so treated it as "patch".`);
+  } else if (raw.action === undefined && typeof raw.content === 'string') {
+    action = 'update';
+    repairs.push(`${where}: "action" was missing; it has content, so treated it as "update".`);
+  } else {
+    errors.push(`${where}: unknown action ${JSON.stringify(raw.action)}; expected one of ${ACTIONS.join(', ')}.`);
+    return null;
+  }
+
+  if (action === 'delete') {
+    if ((typeof raw.content === 'string' && raw.content) || raw.hunks) repairs.push(`${where}: dropped content sent with a delete.`);
+    return { path, action, content: '' };
+  }
+
+  if (action === 'patch') {
+    // A patch with no hunks but the whole file is really an update
+    if ((!Array.isArray(raw.hunks) || raw.hunks.length === 0) && typeof raw.content === 'string' && raw.content) {
+      repairs.push(`${where}: patch had no hunks but full content; treated it as "update".`);
+      return { path, action: 'update', content: raw.content };
+    }
+    const hunks = validateHunks(raw.hunks, where, errors);
+    if (!hunks) return null;
+    if (typeof raw.content === 'string' && raw.content) repairs.push(`${where}: dropped content sent with a patch.`);
+    return { path, action, content: '', hunks };
+  }
+
+  if (typeof raw.content !== 'string') {
+    errors.push(`${where}: action "${action}" needs the full file as a "content" string.`);
+    return null;
+  }
+  if (raw.hunks) repairs.push(`${where}: dropped hunks sent with a full-content ${action}.`);
+  return { path, action, content: raw.content };
+}
+
+function validatePlan(plan: any, repairs: string[], errors: string[]): PlannedStep[] {
+  if (!Array.isArray(plan)) {
+    errors.push(`"plan" must be an array of steps, got ${typeof plan}.`);
+    return [];
+  }
+  const steps: PlannedStep[] = [];
+  plan.forEach((raw: any, i: number) => {
+    const where = `plan[${i}]`;
+    if (typeof raw === 'string' && raw.trim()) {
+      repairs.push(`${where}: was a plain string; used it as the step title.`);
+      steps.push({ title: raw.trim(), description: '', files: [] });
+      return;
+    }
+    if (!raw || typeof raw !== 'object' || typeof raw.title !== 'string' || !raw.title.trim()) {
+      errors.push(`${where}: expected an object with a non-empty "title", "description" and "files".`);
+      return;
+    }
+    let files: string[] = [];
+    if (Array.isArray(raw.files)) {
+      files = raw.files.filter((f: any) => typeof f === 'string' && f.trim()).map((f: string) => f.trim().replace(/^(\.\/)+/, ''));
+    } else if (typeof raw.files === 'string') {
+      files = raw.files.split(',').map((f: string) => f.trim()).filter(Boolean);
+      repairs.push(`${where}: "files" was a string; split it on commas.`);
+    }
+    steps.push({ title: raw.title.trim(), description: typeof raw.description === 'string' ? raw.description.trim() : '', files });
+  });
+  return steps;
+}
+
+/**
+ * Merges changes to the same path the way propose_change does: a later change replaces
+ * an earlier one, except consecutive patches, whose hunks are combined.
+ */
+function mergeDuplicates(changes: FileChange[], repairs: string[]): FileChange[] {
+  const merged: FileChange[] = [];
+  for (const change of changes) {
+    const index = merged.findIndex(c => c.path === change.path);
+    if (index === -1) {
+      merged.push(change);
+      continue;
+    }
+    const previous = merged[index];
+    if (previous.action === 'patch' && change.action === 'patch') {
+      merged[index] = { ...previous, hunks: [...(previous.hunks ?? []), ...(change.hunks ?? [])] };
+      repairs.push(`Combined the hunks of two patches to ${change.path}.`);
+    } else {
+      merged[index] = change;
+      repairs.push(`${change.path} appeared twice; kept the later ${change.action}.`);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Checks a parsed response against the AIResponse shape and repairs what has an obvious
+ * fix. With `lenient`, changes that can't be repaired are dropped and reported as repairs
+ * instead of errors; used for cut-off responses, where asking again isn't possible.
+ */
+export function validateResponse(value: any, lenient = false): ResponseValidation {
+  const repairs: string[] = [];
+  const errors: string[] = [];
+  const response: AIResponse = { thinking: '', message: '', changes: [] };
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`Expected a JSON object with "message" and "changes", got ${Array.isArray(value) ? 'an array' : typeof value}.`);
+    return { response, repairs, errors };
+  }
+
+  if (typeof value.thinking === 'string') response.thinking = value.thinking;
+  else if (value.thinking !== undefined) repairs.push('Ignored a "thinking" field that was not a string.');
+
+  if (typeof value.message === 'string') {
+    response.message = value.message;
+  } else if (value.message !== undefined && value.message !== null) {
+    response.message = typeof value.message === 'object' ? JSON.stringify(value.message) : String(value.message);
+    repairs.push('"message" was not a string; converted it.');
+  }
+
+  if (value.plan !== undefined && value.plan !== null) {
+    response.plan = validatePlan(value.plan, repairs, errors);
+  }
+
+  if (value.changes === undefined || value.changes === null) {
+    // Plans are sent without changes
+    if (!response.message && !response.plan) errors.push('The response has neither a "message" nor a "changes" array.');
+    else if (!response.plan) repairs.push('"changes" was missing; treated it as no changes.');
+  } else if (!Array.isArray(value.changes)) {
+    errors.push(`"changes" must be an array, got ${typeof value.changes}.`);
+  } else {
+    const changeErrors: string[] = [];
+    const changes = value.changes
+      .map((raw: any, i: number) => validateChange(raw, i, repairs, changeErrors))
+      .filter((c: FileChange | null): c is FileChange => c !== null);
+    response.changes = mergeDuplicates(changes, repairs);
+    if (lenient) repairs.push(...changeErrors.map(e => `Dropped ${e}`));
+    else errors.push(...changeErrors);
+  }
+
+  return { response, repairs, errors };
+}
@@ -0,0 +1,31 @@
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadJson, saveJson } from './storage';
+
+const store = new Map<string, string>();
+
+beforeEach(() => {
+  store.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value)
+  });
+});
+
+describe('loadJson', () => {
+  it('reads back what saveJson wrote', () => {
+    saveJson('key', { a: [1, 2] });
+    expect(loadJson('key', null)).toEqual({ a: [1, 2] });
+  });
+
+  it('falls back when the value is missing or corrupt', () => {
+    expect(loadJson('missing', ['default'])).toEqual(['default']);
+    store.set('key', '{"a":');
+    expect(loadJson('key', 'fallback')).toBe('fallback');
+  });
+
+  it('falls back when storage is unavailable', () => {
+    vi.stubGlobal('localStorage', { getItem: () => { throw new DOMException('denied', 'SecurityError'); } });
+    expect(loadJson('key', 1)).toBe(1);
+  });
+});
@@ -0,0 +1,15 @@
+
+// Reads a value saved with saveJson, or the fallback when it is missing, corrupt or storage is unavailable.
+export function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    // Corrupt or unavailable storage
+  }
+  return fallback;
+}
+
+export function saveJson(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
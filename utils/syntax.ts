@@ -0,0 +1,123 @@
+
+export type Language = 'typescript' | 'javascript' | 'python' | 'json' | 'css' | 'html' | 'markdown' | 'shell' | 'plaintext';
+
+export type TokenType = 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'attr' | 'punctuation' | 'heading' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const EXTENSIONS: Record<string, Language> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', pyw: 'python',
+  json: 'json', jsonc: 'json',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'html', htm: 'html', xml: 'html', svg: 'html', vue: 'html',
+  md: 'markdown', markdown: 'markdown',
+  sh: 'shell', bash: 'shell', zsh: 'shell'
+};
+
+export function detectLanguage(path: string): Language {
+  const name = path.split('/').pop()?.toLowerCase() ?? '';
+  if (name === 'dockerfile' || name === 'makefile' || name.startsWith('.env')) return 'shell';
+  return EXTENSIONS[name.split('.').pop() ?? ''] ?? 'plaintext';
+}
+
+const JS_KEYWORDS = 'abstract as async await break case catch class const constructor continue debugger declare default delete do else enum export extends false finally for from function get if implements import in instanceof interface keyof let new null of private protected public readonly return set static super switch this throw true try type typeof undefined var void while with yield';
+const PY_KEYWORDS = 'False None True and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return self try while with yield';
+const SHELL_KEYWORDS = 'if then else elif fi for while do done case esac function in export local return echo cd exit source FROM RUN COPY CMD ENV WORKDIR EXPOSE ENTRYPOINT ARG ADD';
+const CSS_KEYWORDS = 'important media import keyframes from to root';
+
+// Each rule is tried in order at the current position; the first that matches wins.
+type Rule = [TokenType, RegExp];
+
+const word = (list: string) => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`, 'y');
+const NUMBER: Rule = ['number', /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y];
+
+const RULES: Record<Language, Rule[]> = {
+  typescript: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /`(?:\\[\s\S]|[^\\`])*`?|"(?:\\.|[^\\"\n])*"?|'(?:\\.|[^\\'\n])*'?/y],
+    ['keyword', word(JS_KEYWORDS)],
+    NUMBER,
+    ['tag', /<\/?[A-Z][\w.]*|<\/?[a-z][\w-]*(?=[\s>/])/y]
+  ],
+  javascript: [],
+  python: [
+    ['comment', /#[^\n]*/y],
+    ['string', /(?:[rbfRBF]{1,2})?(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^\\"\n])*"?|'(?:\\.|[^\\'\n])*'?)/y],
+    ['keyword', word(PY_KEYWORDS)],
+    ['attr', /@[\w.]+/y],
+    NUMBER
+  ],
+  json: [
+    ['attr', /"(?:\\.|[^\\"\n])*"(?=\s*:)/y],
+    ['string', /"(?:\\.|[^\\"\n])*"?/y],
+    ['keyword', /\b(?:true|false|null)\b/y],
+    NUMBER
+  ],
+  css: [
+    ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /"(?:\\.|[^\\"\n])*"?|'(?:\\.|[^\\'\n])*'?/y],
+    ['attr', /[\w-]+(?=\s*:)/y],
+    ['keyword', new RegExp(`[@!](?:${CSS_KEYWORDS.split(' ').join('|')})\\b`, 'y')],
+    ['number', /#[\da-fA-F]{3,8}\b|\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms)?\b/y]
+  ],
+  html: [
+    ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+    ['tag', /<\/?[\w-]+|\/?>/y],
+    ['attr', /\b[\w-:@]+(?==)/y],
+    ['string', /"[^"\n]*"?|'[^'\n]*'?/y]
+  ],
+  markdown: [
+    ['heading', /^#{1,6} [^\n]*/my],
+    ['string', /```[\s\S]*?(?:```|$)|`[^`\n]*`?/y],
+    ['keyword', /\*\*[^*\n]+\*\*|__[^_\n]+__/y],
+    ['attr', /\[[^\]\n]*\]\([^)\n]*\)/y]
+  ],
+  shell: [
+    ['comment', /#[^\n]*/y],
+    ['string', /"(?:\\.|[^\\"])*"?|'[^']*'?/y],
+    ['attr', /\$\{?[\w]+\}?/y],
+    ['keyword', word(SHELL_KEYWORDS)],
+    NUMBER
+  ],
+  plaintext: []
+};
+RULES.javascript = RULES.typescript;
+
+export function tokenize(code: string, language: Language): Token[] {
+  const rules = RULES[language];
+  if (rules.length === 0) return [{ type: 'plain', text: code }];
+
+  const tokens: Token[] = [];
+  let plain = '';
+  let pos = 0;
+
+  outer: while (pos < code.length) {
+    for (const [type, regex] of rules) {
+      regex.lastIndex = pos;
+      const match = regex.exec(code);
+      if (match && match[0].length > 0) {
+        if (plain) {
+          tokens.push({ type: 'plain', text: plain });
+          plain = '';
+        }
+        tokens.push({ type, text: match[0] });
+        pos += match[0].length;
+        continue outer;
+      }
+    }
+    // Consume a whole identifier at once so keywords never match mid-word.
+    const ident = /[\w$]+/y;
+    ident.lastIndex = pos;
+    const identMatch = ident.exec(code);
+    const text = identMatch ? identMatch[0] : code[pos];
+    plain += text;
+    pos += text.length;
+  }
+  if (plain) tokens.push({ type: 'plain', text: plain });
+  return tokens;
+}